@@ -1,7 +1,13 @@
 import type { NextConfig } from 'next';
 import createNextIntlPlugin from 'next-intl/plugin';
 
-const withNextIntl = createNextIntlPlugin('./src/features/i18n/infrastructure/config/request.ts');
+const withNextIntl = createNextIntlPlugin({
+  requestConfig: './src/features/i18n/infrastructure/config/request.ts',
+  experimental: {
+    // Writes `messages/en.d.json.ts`, which types translation keys and ICU arguments
+    createMessagesDeclaration: './messages/en.json',
+  },
+});
 
 const nextConfig: NextConfig = {
   /* config options here */
@@ -0,0 +1,169 @@
+/**
+ * Compares every catalog in `messages/` with the English one and reports keys
+ * that are missing, keys that English does not have, and messages whose ICU
+ * arguments or rich text tags differ from the English message. Plural and
+ * select branches may differ between languages; the arguments they use may
+ * not. Exits with 1 if anything is reported.
+ *
+ * Usage: pnpm messages:check
+ */
+import { readdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+
+const MESSAGES_DIR = path.join(import.meta.dirname, '..', 'messages');
+const REFERENCE_LOCALE = 'en';
+
+// Nested namespaces flattened to dotted keys
+const flatten = (messages, prefix = '') =>
+  Object.entries(messages).flatMap(([key, value]) =>
+    typeof value === 'object' && value !== null
+      ? flatten(value, `${prefix}${key}.`)
+      : [[`${prefix}${key}`, value]]
+  );
+
+/**
+ * The argument names (`{name}`, `{count, plural, ...}`) and tag names
+ * (`<strong>`) a message uses, in any branch.
+ *
+ * @throws {SyntaxError} If the braces of the message do not balance
+ */
+const placeholdersOf = (message) => {
+  const found = new Set();
+  let i = 0;
+
+  const readUntil = (stops) => {
+    const start = i;
+    while (i < message.length && !stops.includes(message[i])) i += 1;
+    return message.slice(start, i).trim();
+  };
+
+  // Text of a message or branch, up to the `}` that closes it
+  const parseText = (nested) => {
+    while (i < message.length) {
+      const char = message[i];
+
+      if (char === "'" && message[i + 1] === "'") {
+        i += 2;
+      } else if (char === "'" && '{}<#'.includes(message[i + 1])) {
+        // Quoted literal text
+        i = message.indexOf("'", i + 1) + 1 || message.length;
+      } else if (char === '{') {
+        i += 1;
+        parseArgument();
+      } else if (char === '}') {
+        if (!nested) throw new SyntaxError(`Unexpected "}" at ${i}`);
+        return;
+      } else if (char === '<' && /^<\/?[\w-]+>/.test(message.slice(i))) {
+        const tag = /^<\/?([\w-]+)>/.exec(message.slice(i));
+        found.add(`<${tag[1]}>`);
+        i += tag[0].length;
+      } else {
+        i += 1;
+      }
+    }
+    if (nested) throw new SyntaxError('Unclosed "{"');
+  };
+
+  const parseArgument = () => {
+    found.add(readUntil(',}'));
+    if (message[i] === '}') {
+      i += 1;
+      return;
+    }
+
+    i += 1;
+    const type = readUntil(',}');
+
+    if (['plural', 'select', 'selectordinal'].includes(type) && message[i] === ',') {
+      i += 1;
+      // `offset:1 one {...} other {...}`
+      while (i < message.length && message[i] !== '}') {
+        readUntil('{}');
+        if (message[i] === '{') {
+          i += 1;
+          parseText(true);
+          i += 1;
+        }
+      }
+    } else {
+      // A style such as `{total, number, percent}`
+      readUntil('}');
+    }
+    if (message[i] !== '}') throw new SyntaxError('Unclosed "{"');
+    i += 1;
+  };
+
+  parseText(false);
+  return found;
+};
+
+const sameSet = (a, b) => a.size === b.size && [...a].every((value) => b.has(value));
+
+const formatSet = (set) => (set.size > 0 ? [...set].sort().join(', ') : 'none');
+
+const readCatalog = async (file) =>
+  new Map(flatten(JSON.parse(await readFile(path.join(MESSAGES_DIR, file), 'utf8'))));
+
+const checkCatalog = (reference, catalog) => {
+  const problems = [];
+
+  reference.forEach((message, key) => {
+    if (!catalog.has(key)) {
+      problems.push(`missing       ${key}`);
+      return;
+    }
+
+    const translation = catalog.get(key);
+
+    if (typeof translation !== 'string') {
+      problems.push(`not a string  ${key}`);
+      return;
+    }
+
+    try {
+      const expected = placeholdersOf(message);
+      const actual = placeholdersOf(translation);
+
+      if (!sameSet(expected, actual)) {
+        problems.push(
+          `placeholders  ${key}: expected ${formatSet(expected)}, found ${formatSet(actual)}`
+        );
+      }
+    } catch (error) {
+      problems.push(`invalid ICU   ${key}: ${error.message}`);
+    }
+  });
+
+  catalog.forEach((message, key) => {
+    if (!reference.has(key)) problems.push(`extra         ${key}`);
+  });
+
+  return problems;
+};
+
+const main = async () => {
+  const files = (await readdir(MESSAGES_DIR)).filter((file) => file.endsWith('.json')).sort();
+  const reference = await readCatalog(`${REFERENCE_LOCALE}.json`);
+  const catalogs = await Promise.all(
+    files.map(async (file) => ({ file, catalog: await readCatalog(file) }))
+  );
+  let failed = false;
+
+  catalogs.forEach(({ file, catalog }) => {
+    // The reference is only checked for messages that cannot be parsed
+    const problems = checkCatalog(reference, catalog);
+
+    if (problems.length === 0) {
+      console.log(`✓ messages/${file}: ${catalog.size} messages`);
+      return;
+    }
+
+    failed = true;
+    console.log(`✗ messages/${file}: ${problems.length} problem(s)`);
+    problems.forEach((problem) => console.log(`    ${problem}`));
+  });
+
+  if (failed) process.exitCode = 1;
+};
+
+await main();
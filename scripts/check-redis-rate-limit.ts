@@ -0,0 +1,229 @@
+/**
+ * Exercises `RedisRateLimitStore` and `RespClient` over a real socket. By
+ * default they talk to a stand-in server started in this process, which
+ * implements the few commands the store uses (GET, SET ... PX, WATCH, UNWATCH,
+ * MULTI, EXEC) with Redis semantics. Set `REDIS_URL` to run the same checks
+ * against a Redis-compatible server instead. Exits with 1 if a check fails.
+ *
+ * Usage: pnpm rate-limit:check-redis
+ *        REDIS_URL=redis://localhost:6379 pnpm rate-limit:check-redis
+ */
+/* eslint-disable no-console */
+import { strict as assert } from 'node:assert';
+import { type AddressInfo, createServer, type Server, type Socket } from 'node:net';
+
+import { ConsumeRateLimitUseCase } from '@/features/rate-limit/application/use-cases/consume-rate-limit.use-case';
+import type { RateLimitRule } from '@/features/rate-limit/domain/entities/rate-limit.entity';
+import { RedisRateLimitStore } from '@/features/rate-limit/infrastructure/stores/redis-rate-limit.store';
+
+import { RespClient } from '@/shared/redis/resp-client';
+import { RespError } from '@/shared/redis/resp-error';
+import { parseReply } from '@/shared/redis/resp-protocol';
+
+const CRLF = '\r\n';
+
+const OK = `+OK${CRLF}`;
+const QUEUED = `+QUEUED${CRLF}`;
+
+const encodeReply = (value: string | null | RespError): string => {
+  if (value === null) return `$-1${CRLF}`;
+  if (value instanceof RespError) return `-${value.message}${CRLF}`;
+  return `$${Buffer.byteLength(value)}${CRLF}${value}${CRLF}`;
+};
+
+interface StoredValue {
+  value: string;
+  expiresAt: number;
+  version: number;
+}
+
+/**
+ * Just enough of Redis for the store: a keyspace with expiry, and optimistic
+ * transactions where EXEC answers a null array if a watched key was written
+ * since WATCH.
+ */
+const startStandIn = async (): Promise<Server> => {
+  const keys = new Map<string, StoredValue>();
+  let version = 0;
+
+  const read = (key: string) => {
+    const stored = keys.get(key);
+
+    if (stored && stored.expiresAt <= Date.now()) keys.delete(key);
+    return keys.get(key);
+  };
+
+  const serve = (socket: Socket) => {
+    let buffer = Buffer.alloc(0);
+    let watched = new Map<string, number>();
+    let queued: string[][] | null = null;
+
+    // Runs one command and returns its encoded reply
+    const run = ([name, ...args]: string[]): string => {
+      switch (name.toUpperCase()) {
+        case 'AUTH':
+        case 'SELECT':
+          return OK;
+        case 'GET':
+          return encodeReply(read(args[0])?.value ?? null);
+        case 'SET': {
+          const ttlMs = args[2]?.toUpperCase() === 'PX' ? Number(args[3]) : Infinity;
+          version += 1;
+          keys.set(args[0], { value: args[1], expiresAt: Date.now() + ttlMs, version });
+          return OK;
+        }
+        default:
+          return encodeReply(new RespError(`ERR unknown command '${name}'`));
+      }
+    };
+
+    const handle = (command: string[]): string => {
+      const name = command[0].toUpperCase();
+
+      if (name === 'WATCH') {
+        command.slice(1).forEach((key) => watched.set(key, read(key)?.version ?? 0));
+        return OK;
+      }
+      if (name === 'UNWATCH') {
+        watched = new Map();
+        return OK;
+      }
+      if (name === 'MULTI') {
+        queued = [];
+        return OK;
+      }
+      if (name === 'EXEC') {
+        const transaction = queued ?? [];
+        const conflict = [...watched].some(([key, seen]) => (read(key)?.version ?? 0) !== seen);
+
+        queued = null;
+        watched = new Map();
+        return conflict
+          ? encodeReply(null)
+          : `*${transaction.length}${CRLF}${transaction.map(run).join('')}`;
+      }
+      if (queued) {
+        queued.push(command);
+        return QUEUED;
+      }
+      return run(command);
+    };
+
+    socket.on('data', (chunk: Buffer) => {
+      buffer = Buffer.concat([buffer, chunk]);
+
+      let request = parseReply(buffer);
+      while (request) {
+        buffer = buffer.subarray(request.next);
+        socket.write(handle(request.value as string[]));
+        request = parseReply(buffer);
+      }
+    });
+    socket.on('error', () => undefined);
+  };
+
+  const server = createServer(serve);
+  await new Promise<void>((resolve) => {
+    server.listen(0, '127.0.0.1', resolve);
+  });
+  return server;
+};
+
+// Answers every command with a reply type RESP2 does not have
+const startBrokenServer = async (): Promise<Server> => {
+  const server = createServer((socket) => {
+    socket.on('data', () => socket.write(`?garbage${CRLF}`));
+    socket.on('error', () => undefined);
+  });
+  await new Promise<void>((resolve) => {
+    server.listen(0, '127.0.0.1', resolve);
+  });
+  return server;
+};
+
+const urlOf = (server: Server) => `redis://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+const checks: [string, (url: string) => Promise<void>][] = [
+  [
+    'allows the limit, then denies',
+    async (url) => {
+      const client = new RespClient(url);
+      const limiter = new ConsumeRateLimitUseCase(new RedisRateLimitStore(client));
+      const rule: RateLimitRule = { algorithm: 'sliding-window', limit: 5, windowSeconds: 60 };
+      const key = `check:${crypto.randomUUID()}`;
+
+      try {
+        for (let i = 0; i < rule.limit; i += 1) {
+          // eslint-disable-next-line no-await-in-loop
+          assert.equal((await limiter.execute(key, rule)).allowed, true);
+        }
+        const denied = await limiter.execute(key, rule);
+        assert.equal(denied.allowed, false);
+        assert.ok(denied.retryAfterSeconds > 0);
+      } finally {
+        client.close();
+      }
+    },
+  ],
+  [
+    'counts concurrent requests from two connections exactly once',
+    async (url) => {
+      const clients = [new RespClient(url), new RespClient(url)];
+      const limiters = clients.map(
+        (client) => new ConsumeRateLimitUseCase(new RedisRateLimitStore(client))
+      );
+      const rule: RateLimitRule = { algorithm: 'token-bucket', limit: 10, windowSeconds: 60 };
+      const key = `check:${crypto.randomUUID()}`;
+      const now = Date.now();
+
+      try {
+        const decisions = await Promise.all(
+          Array.from({ length: 16 }, (_, i) => limiters[i % 2].execute(key, rule, now))
+        );
+        assert.equal(decisions.filter((decision) => decision.allowed).length, rule.limit);
+      } finally {
+        clients.forEach((client) => client.close());
+      }
+    },
+  ],
+];
+
+const main = async () => {
+  const standIn = process.env.REDIS_URL ? null : await startStandIn();
+  const url = process.env.REDIS_URL ?? urlOf(standIn as Server);
+  let failed = false;
+
+  console.log(`Redis: ${standIn ? `in-process stand-in (${url})` : url}`);
+
+  const run = async (name: string, check: () => Promise<void>) => {
+    try {
+      await check();
+      console.log(`✓ ${name}`);
+    } catch (error) {
+      failed = true;
+      console.log(`✗ ${name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  for (let i = 0; i < checks.length; i += 1) {
+    const [name, check] = checks[i];
+    // eslint-disable-next-line no-await-in-loop
+    await run(name, () => check(url));
+  }
+
+  const broken = await startBrokenServer();
+  await run('rejects pending commands on an unparsable reply', async () => {
+    const client = new RespClient(urlOf(broken));
+    await assert.rejects(client.command('GET', 'key'), /Unexpected reply type "\?"/);
+    client.close();
+  });
+
+  broken.close();
+  standIn?.close();
+  if (failed) process.exitCode = 1;
+};
+
+main().catch((error: unknown) => {
+  console.error(error);
+  process.exitCode = 1;
+});
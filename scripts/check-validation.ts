@@ -0,0 +1,69 @@
+/**
+ * Checks `validate` from `src/shared/validation/schema.ts` against request
+ * bodies as `JSON.parse` produces them, including field names that exist on
+ * every object's prototype. Exits with 1 if a check fails.
+ *
+ * Usage: pnpm validation:check
+ */
+/* eslint-disable no-console */
+import { strict as assert } from 'node:assert';
+
+import { type ObjectSchema, validate } from '@/shared/validation/schema';
+
+interface Greeting {
+  name: string;
+  note?: string;
+}
+
+const greetingSchema: ObjectSchema<Greeting> = {
+  name: 'Greeting',
+  fields: {
+    name: { type: 'string', required: true, maxLength: 10 },
+    note: { type: 'string' },
+  },
+};
+
+const issuesOf = (body: string) => {
+  const result = validate(greetingSchema, JSON.parse(body));
+  return result.success ? [] : result.issues.map(({ field, code }) => `${field}:${code}`);
+};
+
+const checks: [string, () => void][] = [
+  [
+    'accepts declared fields and trims them',
+    () => {
+      assert.deepEqual(validate(greetingSchema, { name: ' Ada ' }), {
+        success: true,
+        data: { name: 'Ada' },
+      });
+    },
+  ],
+  [
+    'reports missing and undeclared fields',
+    () => {
+      assert.deepEqual(issuesOf('{"nickname": "A"}'), ['nickname:unknown_field', 'name:required']);
+    },
+  ],
+  [
+    'reports field names inherited from Object.prototype as unknown',
+    () => {
+      ['constructor', 'toString', 'hasOwnProperty', '__proto__'].forEach((key) => {
+        assert.deepEqual(issuesOf(`{"name": "Ada", "${key}": "x"}`), [`${key}:unknown_field`]);
+      });
+    },
+  ],
+];
+
+let failed = false;
+
+checks.forEach(([name, check]) => {
+  try {
+    check();
+    console.log(`✓ ${name}`);
+  } catch (error) {
+    failed = true;
+    console.log(`✗ ${name}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+});
+
+if (failed) process.exitCode = 1;
@@ -0,0 +1,32 @@
+import { getTranslations } from 'next-intl/server';
+
+import { getOpenApiDocument } from '@/features/api-docs/infrastructure/config/openapi-document';
+import { ApiReference } from '@/features/api-docs/presentation/components/api-reference';
+
+const renderSpecLink = (chunks: React.ReactNode) => (
+  <a href="/api/openapi.json" className="text-indigo-600 underline dark:text-indigo-400">
+    {chunks}
+  </a>
+);
+
+const ApiDocsPage: React.FC = async () => {
+  const t = await getTranslations('ApiDocs');
+  const document = getOpenApiDocument();
+
+  return (
+    <div className="bg-background min-h-screen p-8">
+      <div className="mx-auto max-w-4xl">
+        <h1 className="text-foreground mb-2 text-4xl font-bold">{t('title')}</h1>
+        <p className="mb-8 text-gray-600 dark:text-gray-400">
+          {t.rich('intro', {
+            version: document.info.version,
+            spec: renderSpecLink,
+          })}
+        </p>
+        <ApiReference document={document} />
+      </div>
+    </div>
+  );
+};
+
+export default ApiDocsPage;
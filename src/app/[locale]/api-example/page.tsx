@@ -1,96 +1,300 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 
-interface User {
-  id: number;
-  name: string;
-  email: string;
-  role: string;
+import { useTranslations } from 'next-intl';
+
+import { SignInPanel } from '@/features/auth/presentation/components/sign-in-panel';
+import { useAccessToken } from '@/features/auth/presentation/hooks/use-access-token';
+import type { UpdateUserCommand } from '@/features/users/application/schemas/user.schema';
+import type { UserAuditEntry } from '@/features/users/domain/entities/user-audit-entry.entity';
+import type { User, UserRole } from '@/features/users/domain/entities/user.entity';
+import { canUpdateUser, hasPermission } from '@/features/users/domain/policies/user-access.policy';
+import { LiveStatusBadge } from '@/features/users/presentation/components/live-status-badge';
+import { UndoToast } from '@/features/users/presentation/components/undo-toast';
+import { UserImportExportPanel } from '@/features/users/presentation/components/user-import-export-panel';
+import { UserListItem } from '@/features/users/presentation/components/user-list-item';
+import {
+  type UserStreamEvent,
+  useUserEvents,
+} from '@/features/users/presentation/hooks/use-user-events';
+import { useUsersApi } from '@/features/users/presentation/hooks/use-users-api';
+
+import { type ApiError, describeApiError } from '@/shared/http/api-client';
+
+type FieldErrors = Partial<Record<'name' | 'email' | 'role', string>>;
+
+interface UserFilters {
+  q: string;
+  role: UserRole | '';
+  // Show soft-deleted users instead of active ones
+  deleted: boolean;
 }
 
+const PAGE_SIZE = 5;
+
 const ApiExamplePage: React.FC = () => {
+  const t = useTranslations('ApiExample');
+  const { session, signIn, signOut } = useAccessToken();
+  const usersApi = useUsersApi(session?.accessToken ?? null);
   const [users, setUsers] = useState<User[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
-  const [newUser, setNewUser] = useState({ name: '', email: '', role: 'User' });
+  const [newUser, setNewUser] = useState<{ name: string; email: string; role: UserRole }>({
+    name: '',
+    email: '',
+    role: 'User',
+  });
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [search, setSearch] = useState('');
+  const [filters, setFilters] = useState<UserFilters>({ q: '', role: '', deleted: false });
+  // Cursor used to load each visited page; the last entry is the current page
+  const [pageCursors, setPageCursors] = useState<string[]>(['']);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [total, setTotal] = useState(0);
+  const [history, setHistory] = useState<{ userId: number; entries: UserAuditEntry[] } | null>(
+    null
+  );
+  // The last deleted user, offered for undo until the toast goes away
+  const [deleted, setDeleted] = useState<User | null>(null);
+  // Live events only patch a list that has actually been loaded
+  const listLoaded = useRef(false);
+  // Only the latest list request may update the page; earlier ones are cancelled
+  const listRequest = useRef<AbortController | null>(null);
+
+  // Problem details arrive translated; fallbacks and their notes come from the catalog
+  const describeError = (apiError: ApiError, fallback: string) =>
+    describeApiError(apiError, fallback, {
+      timedOut: (message) => t('timedOut', { message }),
+      withRequestId: (message, requestId) => t('withRequestId', { message, requestId }),
+    });
+
+  // Fetch one page of users matching the filters
+  const fetchUsers = async (nextFilters = filters, cursors = pageCursors) => {
+    listRequest.current?.abort();
+    const controller = new AbortController();
+    listRequest.current = controller;
+
+    setLoading(true);
+    setError('');
+    const result = await usersApi.list(
+      {
+        q: nextFilters.q || undefined,
+        roles: nextFilters.role ? [nextFilters.role] : undefined,
+        deleted: nextFilters.deleted,
+        sort: [{ field: 'name', direction: 'asc' }],
+        limit: PAGE_SIZE,
+        cursor: cursors[cursors.length - 1] || undefined,
+      },
+      { signal: controller.signal }
+    );
+
+    // The request that replaced this one owns the loading state now
+    if (!result.ok && result.error.kind === 'aborted') return;
+
+    if (result.ok) {
+      setUsers(result.data.data);
+      setTotal(result.data.total);
+      setNextCursor(result.data.nextCursor);
+      setFilters(nextFilters);
+      setPageCursors(cursors);
+      listLoaded.current = true;
+    } else {
+      setError(describeError(result.error, t('fetchUsersFailed')));
+    }
+    setLoading(false);
+  };
+
+  // Keeps the latest closure so event handlers refetch with the current filters and page
+  const fetchUsersRef = useRef(fetchUsers);
+  useEffect(() => {
+    fetchUsersRef.current = fetchUsers;
+  });
+
+  // Apply changes made anywhere (this tab, other tabs, other clients) as they happen
+  const applyUserEvent = (event: UserStreamEvent) => {
+    if (!listLoaded.current) return;
+
+    switch (event.type) {
+      case 'user.updated':
+        setUsers((current) => current.map((u) => (u.id === event.user.id ? event.user : u)));
+        break;
+      case 'user.deleted':
+        if (users.some((u) => u.id === event.user.id)) {
+          setUsers((current) => current.filter((u) => u.id !== event.user.id));
+          setTotal((count) => count - 1);
+        }
+        break;
+      default:
+        // Where a new user lands depends on sorting and filters; let the server decide
+        fetchUsersRef.current().catch((err) => {
+          console.error('Error refreshing users:', err);
+        });
+    }
+  };
+
+  const liveStatus = useUserEvents(session?.accessToken ?? null, applyUserEvent);
+
+  // The change feed keeps the list current; without it, refetch after our own writes
+  const refreshUnlessLive = () => (liveStatus === 'open' ? Promise.resolve() : fetchUsers());
+
+  // Fetch users by role (empty role = all users), starting from the first page
+  const fetchUsersByRole = (role: UserRole | '') =>
+    fetchUsers({ q: search, role, deleted: false }, ['']);
 
-  // Fetch all users
-  const fetchUsers = async () => {
+  // Deleted users are listed separately so they can be restored
+  const fetchDeletedUsers = () => fetchUsers({ q: search, role: '', deleted: true }, ['']);
+
+  // Create new user
+  const createUser = async (e: React.FormEvent) => {
+    e.preventDefault();
     setLoading(true);
     setError('');
+    setFieldErrors({});
     try {
-      const response = await fetch('/api/users');
-      const data = (await response.json()) as { data: User[] };
-      setUsers(data.data);
-    } catch (err) {
-      setError('Failed to fetch users');
+      // One key per submit, so a retried request cannot create the user twice
+      const result = await usersApi.create(newUser, { idempotencyKey: crypto.randomUUID() });
+
+      if (!result.ok) {
+        // Show per-field messages next to the matching inputs
+        if (result.error.kind === 'problem') {
+          const errors: FieldErrors = {};
+          result.error.problem.errors?.forEach((issue) => {
+            errors[issue.field as keyof FieldErrors] ??= issue.message;
+          });
+          setFieldErrors(errors);
+        }
+        setError(describeError(result.error, t('createUserFailed')));
+        return;
+      }
+
+      setNewUser({ name: '', email: '', role: 'User' });
+      await refreshUnlessLive();
     } finally {
       setLoading(false);
     }
   };
 
-  // Fetch users by role
-  const fetchUsersByRole = async (role: string) => {
+  // Delete user
+  const deleteUser = async (user: User) => {
+    const { id, version } = user;
     setLoading(true);
     setError('');
     try {
-      const response = await fetch(`/api/users?role=${role}`);
-      const data = (await response.json()) as { data: User[] };
-      setUsers(data.data);
-    } catch (err) {
-      setError('Failed to fetch users');
+      // The version makes the delete fail with 412 when someone else changed the user meanwhile
+      const result = await usersApi.delete(id, { version });
+
+      if (!result.ok && result.error.kind === 'problem' && result.error.status === 412) {
+        setError(t('conflict'));
+        await fetchUsers();
+        return;
+      }
+
+      if (!result.ok) {
+        setError(describeError(result.error, t('deleteUserFailed')));
+        return;
+      }
+
+      setDeleted(user);
+      await refreshUnlessLive();
     } finally {
       setLoading(false);
     }
   };
 
-  // Create new user
-  const createUser = async (e: React.FormEvent) => {
-    e.preventDefault();
+  // Restore a soft-deleted user
+  const restoreUser = async ({ id }: User) => {
     setLoading(true);
     setError('');
     try {
-      const response = await fetch('/api/users', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(newUser),
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to create user');
+      const result = await usersApi.restore(id);
+
+      if (!result.ok) {
+        setError(describeError(result.error, t('restoreUserFailed')));
+        return;
       }
 
-      setNewUser({ name: '', email: '', role: 'User' });
-      await fetchUsers();
-    } catch (err) {
-      setError('Failed to create user');
+      await refreshUnlessLive();
     } finally {
       setLoading(false);
     }
   };
 
-  // Delete user
-  const deleteUser = async (id: number) => {
+  // Undo the last delete: restoring brings the user back exactly as it was
+  const undoDelete = async (user: User) => {
+    setDeleted(null);
+    await restoreUser(user);
+  };
+
+  // Optimistic: the list shows the changes at once and gets the user back if the server refuses them
+  const saveUser = async (user: User, changes: UpdateUserCommand) => {
+    const replaceUser = (next: User) =>
+      setUsers((current) => current.map((u) => (u.id === user.id ? next : u)));
+
+    setError('');
+    replaceUser({ ...user, ...changes });
+    const result = await usersApi.update(user.id, changes, { version: user.version });
+
+    if (result.ok) {
+      replaceUser(result.data.data);
+      return true;
+    }
+
+    replaceUser(user);
+    if (result.error.kind === 'problem' && result.error.status === 412) {
+      setError(t('conflict'));
+      await refreshUnlessLive();
+    } else {
+      setError(describeError(result.error, t('saveUserFailed')));
+    }
+    return false;
+  };
+
+  // Show (or hide again) who changed a user and how
+  const toggleHistory = async ({ id }: User) => {
+    if (history?.userId === id) {
+      setHistory(null);
+      return;
+    }
+
+    setError('');
+    const result = await usersApi.history(id);
+
+    if (!result.ok) {
+      setError(describeError(result.error, t('fetchHistoryFailed')));
+      return;
+    }
+    setHistory({ userId: id, entries: result.data.data });
+  };
+
+  // Switch identity; the list is cleared because what you may do depends on who you are
+  const handleSignIn = async (email: string) => {
     setLoading(true);
     setError('');
     try {
-      const response = await fetch(`/api/users/${id}`, {
-        method: 'DELETE',
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to delete user');
+      if (!(await signIn(email))) {
+        setError(t('signInFailed', { email }));
+        return;
       }
-
-      await fetchUsers();
+      listLoaded.current = false;
+      setUsers([]);
+      setTotal(0);
     } catch (err) {
-      setError('Failed to delete user');
+      setError(t('signInError'));
     } finally {
       setLoading(false);
     }
   };
 
+  const handleSignOut = () => {
+    signOut();
+    setDeleted(null);
+    listLoaded.current = false;
+    setUsers([]);
+    setTotal(0);
+    setError('');
+  };
+
   // const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
   //   createUser(e).catch((error) => {
   //     console.error('Error creating user:', error);
@@ -100,7 +304,7 @@ const ApiExamplePage: React.FC = () => {
   return (
     <div className="bg-background min-h-screen p-8">
       <div className="mx-auto max-w-4xl">
-        <h1 className="text-foreground mb-8 text-4xl font-bold">Next.js API Routes Example</h1>
+        <h1 className="text-foreground mb-8 text-4xl font-bold">{t('title')}</h1>
 
         {/* Error Message */}
         {error && (
@@ -109,19 +313,30 @@ const ApiExamplePage: React.FC = () => {
           </div>
         )}
 
+        <SignInPanel
+          session={session}
+          disabled={loading}
+          onSignIn={(email) => {
+            handleSignIn(email).catch((err) => {
+              console.error('Error signing in:', err);
+            });
+          }}
+          onSignOut={handleSignOut}
+        />
+
         {/* Fetch Buttons */}
         <div className="mb-8 flex flex-wrap gap-4">
           <button
             type="button"
             onClick={() => {
-              fetchUsers().catch((err) => {
+              fetchUsersByRole('').catch((err) => {
                 console.error('Error fetch users:', err);
               });
             }}
             disabled={loading}
             className="rounded-lg bg-blue-600 px-6 py-2 font-medium text-white hover:bg-blue-700 disabled:opacity-50"
           >
-            Fetch All Users
+            {t('fetchAll')}
           </button>
           <button
             type="button"
@@ -133,7 +348,7 @@ const ApiExamplePage: React.FC = () => {
             disabled={loading}
             className="rounded-lg bg-purple-600 px-6 py-2 font-medium text-white hover:bg-purple-700 disabled:opacity-50"
           >
-            Fetch Admins
+            {t('fetchAdmins')}
           </button>
           <button
             type="button"
@@ -145,13 +360,59 @@ const ApiExamplePage: React.FC = () => {
             disabled={loading}
             className="rounded-lg bg-green-600 px-6 py-2 font-medium text-white hover:bg-green-700 disabled:opacity-50"
           >
-            Fetch Users
+            {t('fetchUsers')}
           </button>
+          {session?.user.role === 'Admin' && (
+            <button
+              type="button"
+              onClick={() => {
+                fetchDeletedUsers().catch((err) => {
+                  console.error('Error fetch deleted users:', err);
+                });
+              }}
+              disabled={loading}
+              className="rounded-lg bg-gray-600 px-6 py-2 font-medium text-white hover:bg-gray-700 disabled:opacity-50"
+            >
+              {t('fetchDeleted')}
+            </button>
+          )}
         </div>
 
+        {/* Search */}
+        <form
+          role="search"
+          onSubmit={(e) => {
+            e.preventDefault();
+            fetchUsers({ ...filters, q: search.trim() }, ['']).catch((err) => {
+              console.error('Error searching users:', err);
+            });
+          }}
+          className="mb-8 flex gap-2"
+        >
+          {/* eslint-disable-next-line jsx-a11y/label-has-associated-control */}
+          <label htmlFor="search" className="sr-only">
+            {t('searchLabel')}
+          </label>
+          <input
+            id="search"
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder={t('searchPlaceholder')}
+            className="text-foreground flex-1 rounded-lg border border-gray-300 bg-white px-4 py-2 dark:border-gray-600 dark:bg-gray-700"
+          />
+          <button
+            type="submit"
+            disabled={loading}
+            className="rounded-lg bg-gray-800 px-6 py-2 font-medium text-white hover:bg-gray-900 disabled:opacity-50 dark:bg-gray-600 dark:hover:bg-gray-500"
+          >
+            {t('search')}
+          </button>
+        </form>
+
         {/* Create User Form */}
         <div className="mb-8 rounded-lg bg-gray-100 p-6 dark:bg-gray-800">
-          <h2 className="text-foreground mb-4 text-2xl font-semibold">Create New User</h2>
+          <h2 className="text-foreground mb-4 text-2xl font-semibold">{t('createTitle')}</h2>
           <form
             onSubmit={(e) => {
               e.preventDefault();
@@ -164,47 +425,68 @@ const ApiExamplePage: React.FC = () => {
             <div>
               {/* eslint-disable-next-line jsx-a11y/label-has-associated-control */}
               <label htmlFor="name" className="text-foreground mb-2 block text-sm font-medium">
-                Name
+                {t('name')}
               </label>
               <input
                 id="name" // Add the id attribute here
                 type="text"
                 value={newUser.name}
                 onChange={(e) => setNewUser({ ...newUser, name: e.target.value })}
-                className="text-foreground w-full rounded-lg border border-gray-300 bg-white px-4 py-2 dark:border-gray-600 dark:bg-gray-700"
+                aria-invalid={!!fieldErrors.name}
+                aria-describedby={fieldErrors.name ? 'name-error' : undefined}
+                className="text-foreground w-full rounded-lg border border-gray-300 bg-white px-4 py-2 aria-invalid:border-red-500 dark:border-gray-600 dark:bg-gray-700"
                 required
               />
+              {fieldErrors.name && (
+                <p id="name-error" className="mt-1 text-sm text-red-600 dark:text-red-400">
+                  {fieldErrors.name}
+                </p>
+              )}
             </div>
 
             <div>
               {/* eslint-disable-next-line jsx-a11y/label-has-associated-control */}
               <label htmlFor="email" className="text-foreground mb-2 block text-sm font-medium">
-                Email
+                {t('email')}
               </label>
               <input
                 id="email" // Add the id attribute here
                 type="email"
                 value={newUser.email}
                 onChange={(e) => setNewUser({ ...newUser, email: e.target.value })}
-                className="text-foreground w-full rounded-lg border border-gray-300 bg-white px-4 py-2 dark:border-gray-600 dark:bg-gray-700"
+                aria-invalid={!!fieldErrors.email}
+                aria-describedby={fieldErrors.email ? 'email-error' : undefined}
+                className="text-foreground w-full rounded-lg border border-gray-300 bg-white px-4 py-2 aria-invalid:border-red-500 dark:border-gray-600 dark:bg-gray-700"
                 required
               />
+              {fieldErrors.email && (
+                <p id="email-error" className="mt-1 text-sm text-red-600 dark:text-red-400">
+                  {fieldErrors.email}
+                </p>
+              )}
             </div>
 
             <div>
               {/* eslint-disable-next-line jsx-a11y/label-has-associated-control */}
               <label htmlFor="role" className="text-foreground mb-2 block text-sm font-medium">
-                Role
+                {t('role')}
               </label>
               <select
                 id="role" // Add the id attribute here
                 value={newUser.role}
-                onChange={(e) => setNewUser({ ...newUser, role: e.target.value })}
-                className="text-foreground w-full rounded-lg border border-gray-300 bg-white px-4 py-2 dark:border-gray-600 dark:bg-gray-700"
+                onChange={(e) => setNewUser({ ...newUser, role: e.target.value as UserRole })}
+                aria-invalid={!!fieldErrors.role}
+                aria-describedby={fieldErrors.role ? 'role-error' : undefined}
+                className="text-foreground w-full rounded-lg border border-gray-300 bg-white px-4 py-2 aria-invalid:border-red-500 dark:border-gray-600 dark:bg-gray-700"
               >
-                <option value="User">User</option>
-                <option value="Admin">Admin</option>
+                <option value="User">{t('roleName', { role: 'User' })}</option>
+                <option value="Admin">{t('roleName', { role: 'Admin' })}</option>
               </select>
+              {fieldErrors.role && (
+                <p id="role-error" className="mt-1 text-sm text-red-600 dark:text-red-400">
+                  {fieldErrors.role}
+                </p>
+              )}
             </div>
 
             <button
@@ -212,50 +494,107 @@ const ApiExamplePage: React.FC = () => {
               disabled={loading}
               className="rounded-lg bg-indigo-600 px-6 py-2 font-medium text-white hover:bg-indigo-700 disabled:opacity-50"
             >
-              Create User
+              {t('create')}
             </button>
           </form>
         </div>
 
+        {session && (
+          <UserImportExportPanel
+            usersApi={usersApi}
+            filters={filters}
+            disabled={loading}
+            onImported={refreshUnlessLive}
+          />
+        )}
+
         {/* Users List */}
         <div className="rounded-lg bg-gray-100 p-6 dark:bg-gray-800">
-          <h2 className="text-foreground mb-4 text-2xl font-semibold">Users ({users.length})</h2>
-          {loading && <p className="text-foreground">Loading...</p>}
-          {!loading && users.length === 0 && (
-            <p className="text-gray-500">No users found. Click a button to fetch users.</p>
-          )}
+          <div className="mb-4 flex items-center justify-between">
+            <h2 className="text-foreground text-2xl font-semibold">{t('listTitle', { total })}</h2>
+            <LiveStatusBadge status={liveStatus} />
+          </div>
+          {loading && <p className="text-foreground">{t('loading')}</p>}
+          {!loading && users.length === 0 && <p className="text-gray-500">{t('empty')}</p>}
           {!loading && users.length > 0 && (
             <div className="space-y-3">
               {users.map((user) => (
-                <div
+                <UserListItem
                   key={user.id}
-                  className="flex items-center justify-between rounded-lg bg-white p-4 dark:bg-gray-700"
-                >
-                  <div>
-                    <p className="text-foreground font-semibold">{user.name}</p>
-                    <p className="text-sm text-gray-600 dark:text-gray-400">{user.email}</p>
-                    <span className="mt-1 inline-block rounded bg-blue-100 px-2 py-1 text-xs font-medium text-blue-800 dark:bg-blue-900/30 dark:text-blue-300">
-                      {user.role}
-                    </span>
-                  </div>
-                  <button
-                    type="button"
-                    onClick={() => {
-                      // Make sure to handle the promise correctly
-                      deleteUser(user.id).catch((err) => {
-                        console.error('Error deleting user:', err);
-                      });
-                    }}
-                    disabled={loading}
-                    className="rounded-lg bg-red-600 px-4 py-2 text-sm font-medium text-white hover:bg-red-700 disabled:opacity-50"
-                  >
-                    Delete
-                  </button>
-                </div>
+                  user={user}
+                  disabled={loading}
+                  canEdit={!!session && canUpdateUser(session.user, user, {})}
+                  canChangeRole={!!session && hasPermission(session.user, 'users:change-role')}
+                  history={history?.userId === user.id ? history.entries : undefined}
+                  onToggleHistory={() => {
+                    toggleHistory(user).catch((err) => {
+                      console.error('Error fetching history:', err);
+                    });
+                  }}
+                  onRestore={() => {
+                    restoreUser(user).catch((err) => {
+                      console.error('Error restoring user:', err);
+                    });
+                  }}
+                  onDelete={() => {
+                    deleteUser(user).catch((err) => {
+                      console.error('Error deleting user:', err);
+                    });
+                  }}
+                  onSave={(changes) => saveUser(user, changes)}
+                />
               ))}
             </div>
           )}
+          {(pageCursors.length > 1 || nextCursor) && (
+            <nav aria-label={t('pagination')} className="mt-4 flex items-center justify-between">
+              <button
+                type="button"
+                onClick={() => {
+                  fetchUsers(filters, pageCursors.slice(0, -1)).catch((err) => {
+                    console.error('Error fetching previous page:', err);
+                  });
+                }}
+                disabled={loading || pageCursors.length <= 1}
+                className="rounded-lg bg-white px-4 py-2 text-sm font-medium text-gray-800 hover:bg-gray-200 disabled:opacity-50 dark:bg-gray-700 dark:text-gray-100 dark:hover:bg-gray-600"
+              >
+                {t('previousPage')}
+              </button>
+              <span className="text-sm text-gray-600 dark:text-gray-400">
+                {t('pageOf', {
+                  page: pageCursors.length,
+                  pages: Math.max(1, Math.ceil(total / PAGE_SIZE)),
+                })}
+              </span>
+              <button
+                type="button"
+                onClick={() => {
+                  if (!nextCursor) return;
+                  fetchUsers(filters, [...pageCursors, nextCursor]).catch((err) => {
+                    console.error('Error fetching next page:', err);
+                  });
+                }}
+                disabled={loading || !nextCursor}
+                className="rounded-lg bg-white px-4 py-2 text-sm font-medium text-gray-800 hover:bg-gray-200 disabled:opacity-50 dark:bg-gray-700 dark:text-gray-100 dark:hover:bg-gray-600"
+              >
+                {t('nextPage')}
+              </button>
+            </nav>
+          )}
         </div>
+
+        {deleted && (
+          <UndoToast
+            key={deleted.id}
+            message={t('deleted', { name: deleted.name })}
+            onUndo={() => {
+              undoDelete(deleted).catch((err) => {
+                console.error('Error undoing delete:', err);
+              });
+            }}
+            onDismiss={() => setDeleted(null)}
+          />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,24 @@
+import { notFound } from 'next/navigation';
+
+import { printSchema } from 'graphql';
+import { getTranslations } from 'next-intl/server';
+
+import { getGraphQLSchema, GraphQLExplorer, isGraphQLExplorerEnabled } from '@/features/graphql';
+
+const GraphQLExplorerPage: React.FC = async () => {
+  if (!isGraphQLExplorerEnabled()) notFound();
+
+  const t = await getTranslations('GraphQLExplorer');
+
+  return (
+    <div className="bg-background min-h-screen p-8">
+      <div className="mx-auto max-w-6xl">
+        <h1 className="text-foreground mb-2 text-4xl font-bold">{t('title')}</h1>
+        <p className="mb-8 text-gray-600 dark:text-gray-400">{t('intro')}</p>
+        <GraphQLExplorer schema={printSchema(getGraphQLSchema())} />
+      </div>
+    </div>
+  );
+};
+
+export default GraphQLExplorerPage;
@@ -5,7 +5,7 @@ import type { Metadata } from 'next';
 import { NextIntlClientProvider } from 'next-intl';
 import { getMessages } from 'next-intl/server';
 
-import { routing } from '@/features/i18n/infrastructure/config/routing';
+import { SUPPORTED_LOCALES } from '@/features/i18n/domain/entities/locale.entity';
 import { LocaleSwitcher } from '@/features/i18n/presentation/components/locale-switcher';
 import { ThemeProvider } from '@/features/theme/presentation/components/theme-provider';
 import { ThemeToggle } from '@/features/theme/presentation/components/theme-toggle';
@@ -32,15 +32,16 @@ const LocaleLayout: React.FC<{
   params: Promise<{ locale: string }>;
 }> = async ({ children, params }) => {
   const { locale } = await params;
+  const current = SUPPORTED_LOCALES.find(({ code }) => code === locale);
 
-  if (!routing.locales.includes(locale as 'en' | 'th')) {
+  if (!current) {
     notFound();
   }
 
   const messages = await getMessages();
 
   return (
-    <html lang={locale} suppressHydrationWarning>
+    <html lang={current.code} dir={current.direction} suppressHydrationWarning>
       <body className={`${geistSans.variable} ${geistMono.variable} antialiased`}>
         <NextIntlClientProvider messages={messages}>
           <ThemeProvider>
@@ -9,6 +9,10 @@ interface FooterLinkProps {
   text: string;
 }
 
+interface HomeSectionProps {
+  t: ReturnType<typeof useTranslations<'HomePage'>>;
+}
+
 const FooterLink: React.FC<FooterLinkProps> = ({ href, icon, alt, text }) => (
   <a
     className="flex items-center gap-2 hover:underline hover:underline-offset-4"
@@ -21,7 +25,7 @@ const FooterLink: React.FC<FooterLinkProps> = ({ href, icon, alt, text }) => (
   </a>
 );
 
-const MainContent: React.FC<{ t: (key: string) => string }> = ({ t }) => (
+const MainContent: React.FC<HomeSectionProps> = ({ t }) => (
   <main className="row-start-2 flex flex-col items-center gap-[32px] sm:items-start">
     <Image
       src="/next.svg"
@@ -31,7 +35,7 @@ const MainContent: React.FC<{ t: (key: string) => string }> = ({ t }) => (
       priority
       id="nextjs-logo-image"
     />
-    <ol className="list-inside list-decimal text-center font-mono text-sm/6 sm:text-left">
+    <ol className="list-inside list-decimal text-center font-mono text-sm/6 sm:text-start">
       <li className="mb-2 tracking-[-.01em]">
         {t('getStarted')}{' '}
         <code className="rounded bg-black/[.05] px-1 py-0.5 font-mono font-semibold dark:bg-white/[.06]">
@@ -71,7 +75,7 @@ const MainContent: React.FC<{ t: (key: string) => string }> = ({ t }) => (
   </main>
 );
 
-const PageFooter: React.FC<{ t: (key: string) => string }> = ({ t }) => (
+const PageFooter: React.FC<HomeSectionProps> = ({ t }) => (
   <footer className="row-start-3 flex flex-wrap items-center justify-center gap-[24px]">
     <FooterLink
       href="https://nextjs.org/learn?utm_source=create-next-app&utm_medium=appdir-template-tw&utm_campaign=create-next-app"
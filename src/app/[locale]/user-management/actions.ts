@@ -0,0 +1,178 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+
+import { getLocale, getTranslations } from 'next-intl/server';
+
+import {
+  authenticateSession,
+  endSession,
+  getAccessTokenService,
+  getAccessTokenTtl,
+  isDevSignInEnabled,
+  IssueAccessTokenUseCase,
+  startSession,
+} from '@/features/auth';
+import type { SignInFormState } from '@/features/auth/presentation/forms/sign-in-form-state';
+import { getApiErrorLocalizer } from '@/features/i18n';
+import {
+  CreateUserUseCase,
+  DeleteUserUseCase,
+  getUserRepository,
+  type UpdateUserCommand,
+  UpdateUserUseCase,
+  UserAccessDeniedError,
+  type UserRole,
+  UserVersionConflictError,
+} from '@/features/users';
+import {
+  readUserForm,
+  type UserFormField,
+  type UserFormState,
+  type UserFormValues,
+} from '@/features/users/presentation/forms/user-form-state';
+
+import { ValidationError } from '@/shared/validation/schema';
+
+const PAGE_PATH = '/[locale]/user-management';
+
+const readTarget = (formData: FormData) => ({
+  id: Number(formData.get('id')),
+  expectedVersion: Number(formData.get('version')),
+});
+
+// Turns what the use-cases throw into form state; anything else is a bug and rethrown
+const failure = async (error: unknown, values?: UserFormValues): Promise<UserFormState> => {
+  const t = await getTranslations('UserManagement');
+  const localizer = await getApiErrorLocalizer(await getLocale());
+
+  if (error instanceof ValidationError) {
+    const fieldErrors: UserFormState['fieldErrors'] = {};
+    error.issues.map(localizer.issue).forEach((issue) => {
+      fieldErrors[issue.field as UserFormField] ??= issue.message;
+    });
+    return { status: 'error', message: t('invalid'), fieldErrors, values };
+  }
+  if (error instanceof UserAccessDeniedError) {
+    return { status: 'error', message: localizer.message(error), values };
+  }
+  if (error instanceof UserVersionConflictError) {
+    revalidatePath(PAGE_PATH, 'page');
+    return { status: 'error', message: t('conflict') };
+  }
+  throw error;
+};
+
+export const signInAction = async (
+  state: SignInFormState,
+  formData: FormData
+): Promise<SignInFormState> => {
+  const t = await getTranslations('SignIn');
+  const email = String(formData.get('identity') || formData.get('email') || '').trim();
+
+  if (!isDevSignInEnabled()) return { error: t('disabled'), email };
+
+  try {
+    const issued = await new IssueAccessTokenUseCase(
+      getUserRepository(),
+      getAccessTokenService(),
+      getAccessTokenTtl()
+    ).execute({ email });
+
+    if (!issued) return { error: t('failed', { email }), email };
+
+    await startSession(issued);
+  } catch (error) {
+    if (error instanceof ValidationError) return { error: error.message, email };
+    throw error;
+  }
+
+  revalidatePath(PAGE_PATH, 'page');
+  return {};
+};
+
+export const signOutAction = async () => {
+  await endSession();
+  revalidatePath(PAGE_PATH, 'page');
+};
+
+export const createUserAction = async (
+  state: UserFormState,
+  formData: FormData
+): Promise<UserFormState> => {
+  const t = await getTranslations('UserManagement');
+  const actor = await authenticateSession();
+
+  if (!actor) return { status: 'error', message: t('signedOut') };
+
+  const values = readUserForm(formData);
+
+  try {
+    const user = await new CreateUserUseCase(getUserRepository()).execute(actor, {
+      ...values,
+      role: values.role as UserRole,
+    });
+
+    revalidatePath(PAGE_PATH, 'page');
+    return { status: 'success', message: t('created', { name: user.name }) };
+  } catch (error) {
+    return failure(error, values);
+  }
+};
+
+export const updateUserAction = async (
+  state: UserFormState,
+  formData: FormData
+): Promise<UserFormState> => {
+  const t = await getTranslations('UserManagement');
+  const actor = await authenticateSession();
+
+  if (!actor) return { status: 'error', message: t('signedOut') };
+
+  const { id, expectedVersion } = readTarget(formData);
+  const values = readUserForm(formData);
+  // A disabled role select is not submitted: leave the role unchanged
+  const changes: UpdateUserCommand = {
+    name: values.name,
+    email: values.email,
+    ...(formData.has('role') && { role: values.role as UserRole }),
+  };
+
+  try {
+    const user = await new UpdateUserUseCase(getUserRepository()).execute(actor, id, changes, {
+      expectedVersion,
+    });
+
+    if (!user) return { status: 'error', message: t('notFound') };
+
+    revalidatePath(PAGE_PATH, 'page');
+    return { status: 'success' };
+  } catch (error) {
+    return failure(error, values);
+  }
+};
+
+export const deleteUserAction = async (
+  state: UserFormState,
+  formData: FormData
+): Promise<UserFormState> => {
+  const t = await getTranslations('UserManagement');
+  const actor = await authenticateSession();
+
+  if (!actor) return { status: 'error', message: t('signedOut') };
+
+  const { id, expectedVersion } = readTarget(formData);
+
+  try {
+    const deleted = await new DeleteUserUseCase(getUserRepository()).execute(actor, id, {
+      expectedVersion,
+    });
+
+    if (!deleted) return { status: 'error', message: t('notFound') };
+
+    revalidatePath(PAGE_PATH, 'page');
+    return { status: 'success' };
+  } catch (error) {
+    return failure(error);
+  }
+};
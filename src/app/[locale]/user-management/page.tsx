@@ -0,0 +1,198 @@
+import { getTranslations } from 'next-intl/server';
+
+import { authenticateSession } from '@/features/auth/infrastructure/http/session-cookie';
+import { SignInForm } from '@/features/auth/presentation/components/sign-in-form';
+import { Link } from '@/features/i18n/infrastructure/config/routing';
+import { parseListUsersQuery } from '@/features/users/application/schemas/list-users-query.schema';
+import { GetUserUseCase } from '@/features/users/application/use-cases/get-user.use-case';
+import {
+  ListUsersUseCase,
+  type UserPage,
+} from '@/features/users/application/use-cases/list-users.use-case';
+import {
+  type Actor,
+  canCreateUser,
+  canDeleteUser,
+  canUpdateUser,
+  hasPermission,
+} from '@/features/users/domain/policies/user-access.policy';
+import { getUserRepository } from '@/features/users/infrastructure/config/user-repository';
+import { CreateUserForm } from '@/features/users/presentation/components/create-user-form';
+import { ManagedUserRow } from '@/features/users/presentation/components/managed-user-row';
+
+import { ValidationError } from '@/shared/validation/schema';
+
+import {
+  createUserAction,
+  deleteUserAction,
+  signInAction,
+  signOutAction,
+  updateUserAction,
+} from './actions';
+
+const PAGE_SIZE = 10;
+
+interface UserManagementPageProps {
+  searchParams: Promise<{ q?: string; cursor?: string }>;
+}
+
+const linkClass = 'text-indigo-600 underline dark:text-indigo-400';
+
+const renderExampleLink = (chunks: React.ReactNode) => (
+  <Link href="/api-example" className={linkClass}>
+    {chunks}
+  </Link>
+);
+
+const renderStrong = (chunks: React.ReactNode) => <span className="font-semibold">{chunks}</span>;
+
+// Returns null for a cursor that no longer matches the listing
+const listUsers = async (actor: Actor, q = '', cursor = ''): Promise<UserPage | null> => {
+  try {
+    const query = parseListUsersQuery(new URLSearchParams({ q, cursor }));
+    return await new ListUsersUseCase(getUserRepository()).execute(actor, {
+      ...query,
+      sort: [{ field: 'name', direction: 'asc' }],
+      limit: PAGE_SIZE,
+    });
+  } catch (error) {
+    if (error instanceof ValidationError) return null;
+    throw error;
+  }
+};
+
+/**
+ * Server-rendered counterpart of the API example: every change goes through
+ * a Server Action, so the page also works with JavaScript disabled.
+ */
+const UserManagementPage: React.FC<UserManagementPageProps> = async ({ searchParams }) => {
+  const t = await getTranslations('UserManagement');
+  const { q, cursor } = await searchParams;
+  const actor = await authenticateSession();
+  const me = actor && (await new GetUserUseCase(getUserRepository()).execute(actor, actor.id));
+  const page = actor && (await listUsers(actor, q, cursor));
+
+  return (
+    <div className="bg-background min-h-screen p-8">
+      <div className="mx-auto max-w-4xl">
+        <h1 className="text-foreground mb-2 text-4xl font-bold">{t('title')}</h1>
+        <p className="mb-8 text-gray-600 dark:text-gray-400">
+          {t.rich('intro', {
+            example: renderExampleLink,
+          })}
+        </p>
+
+        {!actor || !me ? (
+          <SignInForm action={signInAction} />
+        ) : (
+          <>
+            <form
+              action={signOutAction}
+              className="mb-8 flex items-center justify-between rounded-lg bg-gray-100 p-4 dark:bg-gray-800"
+            >
+              <p className="text-foreground">
+                {t.rich('signedInAs', {
+                  name: me.name,
+                  role: me.role,
+                  strong: renderStrong,
+                })}
+              </p>
+              <button
+                type="submit"
+                className="rounded-lg bg-gray-800 px-4 py-2 text-sm font-medium text-white hover:bg-gray-900 dark:bg-gray-600 dark:hover:bg-gray-500"
+              >
+                {t('signOut')}
+              </button>
+            </form>
+
+            {canCreateUser(actor) && <CreateUserForm action={createUserAction} />}
+
+            <div className="rounded-lg bg-gray-100 p-6 dark:bg-gray-800">
+              <div className="mb-4 flex flex-wrap items-center justify-between gap-4">
+                <h2 className="text-foreground text-2xl font-semibold">
+                  {t('listTitle', { total: page?.total ?? 0 })}
+                </h2>
+                <form method="get" className="flex gap-2">
+                  {/* eslint-disable-next-line jsx-a11y/label-has-associated-control */}
+                  <label htmlFor="user-search" className="sr-only">
+                    {t('search')}
+                  </label>
+                  <input
+                    id="user-search"
+                    name="q"
+                    type="search"
+                    defaultValue={q}
+                    placeholder={t('searchPlaceholder')}
+                    className="text-foreground rounded-lg border border-gray-300 bg-white px-4 py-2 dark:border-gray-600 dark:bg-gray-700"
+                  />
+                  <button
+                    type="submit"
+                    className="rounded-lg bg-indigo-600 px-4 py-2 font-medium text-white hover:bg-indigo-700"
+                  >
+                    {t('search')}
+                  </button>
+                </form>
+              </div>
+
+              {!page && (
+                <p role="alert" className="text-red-600 dark:text-red-400">
+                  {t('staleCursor')}{' '}
+                  <a href="?" className={linkClass}>
+                    {t('firstPage')}
+                  </a>
+                </p>
+              )}
+              {page && q && (
+                <p className="mb-4 text-sm text-gray-600 dark:text-gray-400">
+                  {t('matches', { total: page.total, q })}
+                </p>
+              )}
+              {page?.data.length === 0 && !q && <p className="text-gray-500">{t('empty')}</p>}
+              {page && page.data.length > 0 && (
+                <ul className="space-y-3">
+                  {page.data.map((user) => (
+                    <ManagedUserRow
+                      // A new version remounts the row, clearing its form state
+                      key={`${user.id}-${user.version}`}
+                      user={user}
+                      updateAction={updateUserAction}
+                      deleteAction={deleteUserAction}
+                      canEdit={canUpdateUser(actor, user, {})}
+                      canChangeRole={hasPermission(actor, 'users:change-role')}
+                      canDelete={canDeleteUser(actor)}
+                    />
+                  ))}
+                </ul>
+              )}
+
+              {page && (cursor || page.nextCursor) && (
+                <nav className="mt-4 flex justify-between">
+                  {cursor ? (
+                    <a
+                      href={`?${new URLSearchParams({ q: q ?? '' }).toString()}`}
+                      className={linkClass}
+                    >
+                      {t('firstPage')}
+                    </a>
+                  ) : (
+                    <span />
+                  )}
+                  {page.nextCursor && (
+                    <a
+                      href={`?${new URLSearchParams({ q: q ?? '', cursor: page.nextCursor }).toString()}`}
+                      className={linkClass}
+                    >
+                      {t('nextPage')}
+                    </a>
+                  )}
+                </nav>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UserManagementPage;
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import {
+  bearerChallenge,
+  getAccessTokenService,
+  getAccessTokenTtl,
+  isDevSignInEnabled,
+  IssueAccessTokenUseCase,
+  type SignInCommand,
+} from '@/features/auth';
+import { getLogger, withObservability } from '@/features/observability';
+import { withRateLimit } from '@/features/rate-limit';
+import { getUserRepository } from '@/features/users';
+
+import {
+  forbiddenProblem,
+  invalidBodyProblem,
+  unauthorizedProblem,
+  validationProblem,
+} from '@/shared/http/problem-details';
+import { ValidationError } from '@/shared/validation/schema';
+
+// POST /api/auth/token - Sign in as an existing user by email and get a bearer token
+export const POST = withObservability(
+  '/api/auth/token',
+  withRateLimit('auth:token', async (request: NextRequest) => {
+    const instance = request.nextUrl.pathname;
+
+    if (!isDevSignInEnabled()) {
+      return forbiddenProblem(
+        { code: 'sign_in_disabled', message: 'Email sign-in is disabled in this environment' },
+        instance
+      );
+    }
+
+    let body: SignInCommand;
+
+    try {
+      body = (await request.json()) as SignInCommand;
+    } catch (error) {
+      getLogger().warn('Request body is not valid JSON', { error });
+      return invalidBodyProblem(instance);
+    }
+
+    try {
+      const issued = await new IssueAccessTokenUseCase(
+        getUserRepository(),
+        getAccessTokenService(),
+        getAccessTokenTtl()
+      ).execute(body);
+
+      if (!issued) {
+        return unauthorizedProblem(
+          { code: 'unknown_email', message: 'No user with this email' },
+          bearerChallenge(),
+          instance
+        );
+      }
+
+      // Tokens are credentials: never let a shared cache store them
+      return NextResponse.json(issued, { headers: { 'Cache-Control': 'no-store' } });
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return validationProblem(error.issues, instance);
+      }
+      throw error;
+    }
+  })
+);
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { authenticateRequest } from '@/features/auth';
+import {
+  ExecuteGraphQLUseCase,
+  getGraphQLLimits,
+  getGraphQLSchema,
+  type GraphQLResult,
+  parseGraphQLRequests,
+} from '@/features/graphql';
+import { withIdempotency } from '@/features/idempotency';
+import { getLogger, withObservability } from '@/features/observability';
+import { withRateLimit } from '@/features/rate-limit';
+
+import { invalidBodyProblem, validationProblem } from '@/shared/http/problem-details';
+import { ValidationError } from '@/shared/validation/schema';
+
+// POST /api/graphql - Run a GraphQL request, or a batch of them
+export const POST = withObservability(
+  '/api/graphql',
+  withRateLimit(
+    'graphql',
+    withIdempotency(async (request: NextRequest) => {
+      const { actor, response } = await authenticateRequest(request);
+
+      if (!actor) return response;
+
+      let body: unknown;
+
+      try {
+        body = await request.json();
+      } catch (error) {
+        getLogger().warn('Request body is not valid JSON', { error });
+        return invalidBodyProblem(request.nextUrl.pathname);
+      }
+
+      let parsed: ReturnType<typeof parseGraphQLRequests>;
+
+      try {
+        parsed = parseGraphQLRequests(body);
+      } catch (error) {
+        if (error instanceof ValidationError) {
+          return validationProblem(error.issues, request.nextUrl.pathname);
+        }
+        throw error;
+      }
+
+      const useCase = new ExecuteGraphQLUseCase(
+        getGraphQLSchema(),
+        getGraphQLLimits(),
+        (error, path) => getLogger().error('GraphQL resolver failed', { error, path })
+      );
+      // Requests of a batch run one after another, so mutations apply in order
+      const results = await parsed.requests.reduce<Promise<GraphQLResult[]>>(
+        async (previous, graphQLRequest) => [
+          ...(await previous),
+          await useCase.execute(actor, graphQLRequest),
+        ],
+        Promise.resolve([])
+      );
+
+      return NextResponse.json(parsed.batched ? results : results[0]);
+    })
+  )
+);
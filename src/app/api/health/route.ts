@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+
+import { HEALTH_CONTENT_TYPE, type HealthReport } from '@/features/health';
+import { withObservability } from '@/features/observability';
+
+// Probes must reach the running server, never a prerendered answer
+export const dynamic = 'force-dynamic';
+
+// GET /api/health - Liveness: the server is up (no dependencies are checked)
+export const GET = withObservability('/api/health', () =>
+  Promise.resolve(
+    NextResponse.json<HealthReport>(
+      { status: 'pass', checks: [] },
+      { headers: { 'Content-Type': HEALTH_CONTENT_TYPE, 'Cache-Control': 'no-store' } }
+    )
+  )
+);
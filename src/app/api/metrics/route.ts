@@ -0,0 +1,37 @@
+import { NextRequest } from 'next/server';
+
+import { parseBearerToken } from '@/features/auth';
+import {
+  getLogger,
+  getMetricsRegistry,
+  isMetricsTokenValid,
+  PROMETHEUS_CONTENT_TYPE,
+  withObservability,
+} from '@/features/observability';
+import { collectUserMetrics, getUserRepository } from '@/features/users';
+
+import { unauthorizedProblem } from '@/shared/http/problem-details';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/metrics - Prometheus metrics (bearer `METRICS_TOKEN` when set)
+export const GET = withObservability('/api/metrics', async (request: NextRequest) => {
+  if (!isMetricsTokenValid(parseBearerToken(request.headers.get('Authorization')))) {
+    return unauthorizedProblem(
+      { code: 'metrics_token_required', message: 'A valid metrics token is required' },
+      'Bearer realm="metrics"',
+      request.nextUrl.pathname
+    );
+  }
+
+  const registry = getMetricsRegistry();
+
+  // A scrape without user counts beats a failed scrape
+  await collectUserMetrics(registry, getUserRepository()).catch((error: unknown) => {
+    getLogger().error('Could not collect user metrics', { error });
+  });
+
+  return new Response(registry.render(), {
+    headers: { 'Content-Type': PROMETHEUS_CONTENT_TYPE, 'Cache-Control': 'no-store' },
+  });
+});
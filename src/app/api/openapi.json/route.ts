@@ -0,0 +1,11 @@
+import { NextResponse } from 'next/server';
+
+import { getOpenApiDocument } from '@/features/api-docs';
+
+// The document only changes with the code, so it is rendered once at build time
+export const dynamic = 'force-static';
+
+// GET /api/openapi.json - OpenAPI 3.1 description of this API
+export function GET() {
+  return NextResponse.json(getOpenApiDocument());
+}
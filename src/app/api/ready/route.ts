@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+
+import {
+  CheckReadinessUseCase,
+  getReadinessChecks,
+  HEALTH_CONTENT_TYPE,
+  READINESS_TIMEOUT_MS,
+} from '@/features/health';
+import { getLogger, withObservability } from '@/features/observability';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/ready - Readiness: the users repository and message catalogs load
+export const GET = withObservability('/api/ready', async () => {
+  const report = await new CheckReadinessUseCase(
+    getReadinessChecks(),
+    READINESS_TIMEOUT_MS
+  ).execute();
+
+  if (report.status === 'fail') {
+    getLogger().warn('Readiness check failed', {
+      checks: report.checks.filter((check) => check.status === 'fail'),
+    });
+  }
+
+  return NextResponse.json(report, {
+    status: report.status === 'pass' ? 200 : 503,
+    headers: { 'Content-Type': HEALTH_CONTENT_TYPE, 'Cache-Control': 'no-store' },
+  });
+});
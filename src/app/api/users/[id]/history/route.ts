@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+
+import { authenticateRequest } from '@/features/auth';
+import { withObservability } from '@/features/observability';
+import { withRateLimit } from '@/features/rate-limit';
+import {
+  GetUserHistoryUseCase,
+  getUserRepository,
+  parseUserId,
+  USER_NOT_FOUND,
+  UserAccessDeniedError,
+  type UserHistoryResponse,
+} from '@/features/users';
+
+import { forbiddenProblem, notFoundProblem } from '@/shared/http/problem-details';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/users/[id]/history - Audit log of a user (deleted users included), oldest first
+export const GET = withObservability(
+  '/api/users/[id]/history',
+  withRateLimit<RouteContext>('users:read', async (request, context) => {
+    const instance = request.nextUrl.pathname;
+    const { actor, response } = await authenticateRequest(request);
+
+    if (!actor) return response;
+
+    const id = parseUserId((await context.params).id);
+
+    if (id === null) {
+      return notFoundProblem(USER_NOT_FOUND, instance);
+    }
+
+    try {
+      const history = await new GetUserHistoryUseCase(getUserRepository()).execute(actor, id);
+
+      if (!history) {
+        return notFoundProblem(USER_NOT_FOUND, instance);
+      }
+
+      return NextResponse.json<UserHistoryResponse>({ data: history, count: history.length });
+    } catch (error) {
+      if (error instanceof UserAccessDeniedError) {
+        return forbiddenProblem(error, instance);
+      }
+      throw error;
+    }
+  })
+);
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+
+import { authenticateRequest } from '@/features/auth';
+import { withIdempotency } from '@/features/idempotency';
+import { withObservability } from '@/features/observability';
+import { withRateLimit } from '@/features/rate-limit';
+import {
+  getUserRepository,
+  parseUserId,
+  RestoreUserUseCase,
+  USER_NOT_FOUND,
+  UserAccessDeniedError,
+  type UserResponse,
+} from '@/features/users';
+
+import { formatETag } from '@/shared/http/etag';
+import { forbiddenProblem, notFoundProblem } from '@/shared/http/problem-details';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/users/[id]/restore - Undo a soft delete (restoring an active user is a no-op)
+export const POST = withObservability(
+  '/api/users/[id]/restore',
+  withRateLimit<RouteContext>(
+    'users:write',
+    withIdempotency(async (request, context) => {
+      const instance = request.nextUrl.pathname;
+      const { actor, response } = await authenticateRequest(request);
+
+      if (!actor) return response;
+
+      const id = parseUserId((await context.params).id);
+
+      if (id === null) {
+        return notFoundProblem(USER_NOT_FOUND, instance);
+      }
+
+      try {
+        const user = await new RestoreUserUseCase(getUserRepository()).execute(actor, id);
+
+        if (!user) {
+          return notFoundProblem(USER_NOT_FOUND, instance);
+        }
+
+        return NextResponse.json<UserResponse>(
+          { data: user, message: 'User restored successfully' },
+          { headers: { ETag: formatETag(user.version) } }
+        );
+      } catch (error) {
+        if (error instanceof UserAccessDeniedError) {
+          return forbiddenProblem(error, instance);
+        }
+        throw error;
+      }
+    })
+  )
+);
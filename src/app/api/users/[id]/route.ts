@@ -1,66 +1,262 @@
 import { NextRequest, NextResponse } from 'next/server';
 
-// Sample data (same as parent route)
-const users = [
-  { id: 1, name: 'Alice Johnson', email: 'alice@example.com', role: 'Admin' },
-  { id: 2, name: 'Bob Smith', email: 'bob@example.com', role: 'User' },
-  { id: 3, name: 'Charlie Brown', email: 'charlie@example.com', role: 'User' },
-];
-
-// GET /api/users/[id] - Get user by ID
-export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
-  const { id } = await params;
-  const user = users.find((u) => u.id === parseInt(id, 10));
-
-  if (!user) {
-    return NextResponse.json({ error: 'User not found' }, { status: 404 });
-  }
+import { authenticateRequest } from '@/features/auth';
+import { getLogger, withObservability } from '@/features/observability';
+import { withRateLimit } from '@/features/rate-limit';
+import {
+  type Actor,
+  DeleteUserUseCase,
+  getUserRepository,
+  GetUserUseCase,
+  type MessageResponse,
+  parseUserId,
+  type ReplaceUserCommand,
+  ReplaceUserUseCase,
+  STALE_USER_VERSION,
+  type UpdateUserCommand,
+  UpdateUserUseCase,
+  type User,
+  USER_NOT_FOUND,
+  UserAccessDeniedError,
+  type UserResponse,
+  UserVersionConflictError,
+  type WriteOptions,
+} from '@/features/users';
+
+import { formatETag, matchesETagStrong, matchesETagWeak, parseETagList } from '@/shared/http/etag';
+import {
+  forbiddenProblem,
+  invalidBodyProblem,
+  notFoundProblem,
+  preconditionFailedProblem,
+  validationProblem,
+} from '@/shared/http/problem-details';
+import { ValidationError } from '@/shared/validation/schema';
 
-  return NextResponse.json({ data: user });
+interface RouteContext {
+  params: Promise<{ id: string }>;
 }
 
-// DELETE /api/users/[id] - Delete user by ID
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  const { id } = await params;
-  const index = users.findIndex((u) => u.id === parseInt(id, 10));
+const userETag = (user: User) => formatETag(user.version);
+
+// A malformed id is answered like an unknown one
+const findUser = async (actor: Actor, context: RouteContext) => {
+  const id = parseUserId((await context.params).id);
+  return id === null ? null : new GetUserUseCase(getUserRepository()).execute(actor, id);
+};
+
+// Checks If-Match against the current representation. A match turns into an
+// expected version so the repository re-checks it atomically when writing.
+const checkIfMatch = (request: NextRequest, user: User): WriteOptions | null => {
+  const ifMatch = parseETagList(request.headers.get('If-Match'));
+
+  if (!ifMatch) return {};
+
+  return matchesETagStrong(userETag(user), ifMatch) ? { expectedVersion: user.version } : null;
+};
 
-  if (index === -1) {
-    return NextResponse.json({ error: 'User not found' }, { status: 404 });
+const errorResponse = (error: unknown, instance: string) => {
+  if (error instanceof UserAccessDeniedError) {
+    return forbiddenProblem(error, instance);
   }
+  if (error instanceof ValidationError) {
+    return validationProblem(error.issues, instance);
+  }
+  if (error instanceof UserVersionConflictError) {
+    return preconditionFailedProblem(STALE_USER_VERSION, instance);
+  }
+  throw error;
+};
 
-  users.splice(index, 1);
+// GET /api/users/[id] - Get user by ID (supports If-None-Match)
+export const GET = withObservability(
+  '/api/users/[id]',
+  withRateLimit<RouteContext>('users:read', async (request, context) => {
+    const instance = request.nextUrl.pathname;
+    const { actor, response } = await authenticateRequest(request);
 
-  return NextResponse.json({ message: 'User deleted successfully' });
-}
+    if (!actor) return response;
 
-interface UpdateUserRequest {
-  name?: string;
-  email?: string;
-  role?: string;
-}
+    let user: User | null;
 
-// PATCH /api/users/[id] - Update user by ID
-export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
-  const { id } = await params;
-  const user = users.find((u) => u.id === parseInt(id, 10));
+    try {
+      user = await findUser(actor, context);
+    } catch (error) {
+      return errorResponse(error, instance);
+    }
 
-  if (!user) {
-    return NextResponse.json({ error: 'User not found' }, { status: 404 });
-  }
+    if (!user) {
+      return notFoundProblem(USER_NOT_FOUND, instance);
+    }
 
-  try {
-    const body = (await request.json()) as UpdateUserRequest;
-    const { name, email, role } = body;
+    const etag = userETag(user);
+    const ifNoneMatch = parseETagList(request.headers.get('If-None-Match'));
 
-    if (name) user.name = name;
-    if (email) user.email = email;
-    if (role) user.role = role;
+    if (ifNoneMatch && matchesETagWeak(etag, ifNoneMatch)) {
+      return new NextResponse(null, { status: 304, headers: { ETag: etag } });
+    }
 
-    return NextResponse.json({ data: user, message: 'User updated successfully' });
-  } catch (error) {
-    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
-  }
-}
+    return NextResponse.json<UserResponse>({ data: user }, { headers: { ETag: etag } });
+  })
+);
+
+// DELETE /api/users/[id] - Delete user by ID (supports If-Match)
+export const DELETE = withObservability(
+  '/api/users/[id]',
+  withRateLimit<RouteContext>('users:write', async (request, context) => {
+    const instance = request.nextUrl.pathname;
+    const { actor, response } = await authenticateRequest(request);
+
+    if (!actor) return response;
+
+    let user: User | null;
+
+    try {
+      user = await findUser(actor, context);
+    } catch (error) {
+      return errorResponse(error, instance);
+    }
+
+    if (!user) {
+      return notFoundProblem(USER_NOT_FOUND, instance);
+    }
+
+    const options = checkIfMatch(request, user);
+
+    if (!options) {
+      return preconditionFailedProblem(STALE_USER_VERSION, instance);
+    }
+
+    try {
+      const deleted = await new DeleteUserUseCase(getUserRepository()).execute(
+        actor,
+        user.id,
+        options
+      );
+
+      if (!deleted) {
+        return notFoundProblem(USER_NOT_FOUND, instance);
+      }
+
+      return NextResponse.json<MessageResponse>({ message: 'User deleted successfully' });
+    } catch (error) {
+      return errorResponse(error, instance);
+    }
+  })
+);
+
+// PATCH /api/users/[id] - Partially update user by ID (supports If-Match)
+export const PATCH = withObservability(
+  '/api/users/[id]',
+  withRateLimit<RouteContext>('users:write', async (request, context) => {
+    const instance = request.nextUrl.pathname;
+    const { actor, response } = await authenticateRequest(request);
+
+    if (!actor) return response;
+
+    let user: User | null;
+
+    try {
+      user = await findUser(actor, context);
+    } catch (error) {
+      return errorResponse(error, instance);
+    }
+
+    if (!user) {
+      return notFoundProblem(USER_NOT_FOUND, instance);
+    }
+
+    const options = checkIfMatch(request, user);
+
+    if (!options) {
+      return preconditionFailedProblem(STALE_USER_VERSION, instance);
+    }
+
+    let body: UpdateUserCommand;
+
+    try {
+      body = (await request.json()) as UpdateUserCommand;
+    } catch (error) {
+      getLogger().warn('Request body is not valid JSON', { error });
+      return invalidBodyProblem(instance);
+    }
+
+    try {
+      const updated = await new UpdateUserUseCase(getUserRepository()).execute(
+        actor,
+        user.id,
+        body,
+        options
+      );
+
+      if (!updated) {
+        return notFoundProblem(USER_NOT_FOUND, instance);
+      }
+
+      return NextResponse.json<UserResponse>(
+        { data: updated, message: 'User updated successfully' },
+        { headers: { ETag: userETag(updated) } }
+      );
+    } catch (error) {
+      return errorResponse(error, instance);
+    }
+  })
+);
+
+// PUT /api/users/[id] - Replace user by ID (supports If-Match)
+export const PUT = withObservability(
+  '/api/users/[id]',
+  withRateLimit<RouteContext>('users:write', async (request, context) => {
+    const instance = request.nextUrl.pathname;
+    const { actor, response } = await authenticateRequest(request);
+
+    if (!actor) return response;
+
+    let user: User | null;
+
+    try {
+      user = await findUser(actor, context);
+    } catch (error) {
+      return errorResponse(error, instance);
+    }
+
+    if (!user) {
+      return notFoundProblem(USER_NOT_FOUND, instance);
+    }
+
+    const options = checkIfMatch(request, user);
+
+    if (!options) {
+      return preconditionFailedProblem(STALE_USER_VERSION, instance);
+    }
+
+    let body: ReplaceUserCommand;
+
+    try {
+      body = (await request.json()) as ReplaceUserCommand;
+    } catch (error) {
+      getLogger().warn('Request body is not valid JSON', { error });
+      return invalidBodyProblem(instance);
+    }
+
+    try {
+      const replaced = await new ReplaceUserUseCase(getUserRepository()).execute(
+        actor,
+        user.id,
+        body,
+        options
+      );
+
+      if (!replaced) {
+        return notFoundProblem(USER_NOT_FOUND, instance);
+      }
+
+      return NextResponse.json<UserResponse>(
+        { data: replaced, message: 'User replaced successfully' },
+        { headers: { ETag: userETag(replaced) } }
+      );
+    } catch (error) {
+      return errorResponse(error, instance);
+    }
+  })
+);
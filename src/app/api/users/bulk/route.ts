@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { authenticateRequest } from '@/features/auth';
+import { type ApiErrorLocalizer, getApiErrorLocalizer, resolveApiLocale } from '@/features/i18n';
+import { withIdempotency } from '@/features/idempotency';
+import { getLogger, withObservability } from '@/features/observability';
+import { withRateLimit } from '@/features/rate-limit';
+import {
+  type BulkOperationResult,
+  type BulkOutcome,
+  BulkUserOperationsUseCase,
+  type BulkUserResponse,
+  getUserRepository,
+  isSuccessfulOutcome,
+  parseBulkUserRequest,
+  STALE_USER_VERSION,
+  USER_NOT_FOUND,
+} from '@/features/users';
+
+import {
+  invalidBodyProblem,
+  type ProblemDetails,
+  type ProblemReason,
+  problems,
+  validationProblem,
+} from '@/shared/http/problem-details';
+import { ValidationError } from '@/shared/validation/schema';
+
+const OUTCOME_STATUS: Record<BulkOutcome, number> = {
+  created: 201,
+  updated: 200,
+  deleted: 200,
+  invalid: 422,
+  not_found: 404,
+  conflict: 412,
+  forbidden: 403,
+  rolled_back: 424,
+  skipped: 424,
+};
+
+const OPERATION_DENIED: ProblemReason = {
+  code: 'operation_denied',
+  message: 'Not allowed to perform this operation',
+};
+
+const OPERATION_NOT_APPLIED: ProblemReason = {
+  code: 'operation_not_applied',
+  message: 'Not applied because another operation in the atomic batch failed',
+};
+
+const problemOf = (result: BulkOperationResult, instance: string): ProblemDetails | undefined => {
+  switch (result.outcome) {
+    case 'invalid':
+      return problems.validation(result.issues ?? [], instance);
+    case 'not_found':
+      return problems.notFound(USER_NOT_FOUND, instance);
+    case 'conflict':
+      return problems.preconditionFailed(STALE_USER_VERSION, instance);
+    case 'forbidden':
+      return problems.forbidden(OPERATION_DENIED, instance);
+    case 'rolled_back':
+    case 'skipped':
+      return problems.failedDependency(OPERATION_NOT_APPLIED, instance);
+    default:
+      return undefined;
+  }
+};
+
+// Embedded problems are not seen by `withObservability`, so they are translated here
+const toProblem = (result: BulkOperationResult, instance: string, localizer: ApiErrorLocalizer) => {
+  const problem = problemOf(result, instance);
+  return problem && localizer.problem(problem);
+};
+
+// POST /api/users/bulk - Apply many create/update/delete operations in one request
+export const POST = withObservability(
+  '/api/users/bulk',
+  withRateLimit(
+    'users:bulk',
+    withIdempotency(async (request: NextRequest) => {
+      const instance = request.nextUrl.pathname;
+      const { actor, response } = await authenticateRequest(request);
+
+      if (!actor) return response;
+
+      let body: unknown;
+
+      try {
+        body = await request.json();
+      } catch (error) {
+        getLogger().warn('Request body is not valid JSON', { error });
+        return invalidBodyProblem(instance);
+      }
+
+      try {
+        const bulkRequest = parseBulkUserRequest(body);
+        const { committed, results } = await new BulkUserOperationsUseCase(
+          getUserRepository()
+        ).execute(actor, bulkRequest);
+
+        const succeeded = results.filter((result) => isSuccessfulOutcome(result.outcome)).length;
+        const localizer = await getApiErrorLocalizer(resolveApiLocale(request));
+
+        return NextResponse.json<BulkUserResponse>(
+          {
+            mode: bulkRequest.mode,
+            committed,
+            results: results.map((result) => ({
+              index: result.index,
+              op: result.op,
+              ...(result.id !== undefined && { id: result.id }),
+              status: OUTCOME_STATUS[result.outcome],
+              ...(result.data && { data: result.data }),
+              ...(!isSuccessfulOutcome(result.outcome) && {
+                error: toProblem(result, `${instance}#/operations/${result.index}`, localizer),
+              }),
+            })),
+            summary: { total: results.length, succeeded, failed: results.length - succeeded },
+          },
+          // 207 Multi-Status: at least one operation did not succeed
+          { status: succeeded === results.length ? 200 : 207 }
+        );
+      } catch (error) {
+        if (error instanceof ValidationError) {
+          return validationProblem(error.issues, instance);
+        }
+        throw error;
+      }
+    })
+  )
+);
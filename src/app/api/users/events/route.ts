@@ -0,0 +1,99 @@
+import { NextRequest } from 'next/server';
+
+import { authenticateRequest } from '@/features/auth';
+import { withObservability } from '@/features/observability';
+import { withRateLimit } from '@/features/rate-limit';
+import {
+  getUserEventBus,
+  SubscribeToUserChangesUseCase,
+  UserAccessDeniedError,
+  type UserChangeEvent,
+} from '@/features/users';
+
+import { forbiddenProblem } from '@/shared/http/problem-details';
+import {
+  formatServerSentComment,
+  formatServerSentEvent,
+  SSE_CONTENT_TYPE,
+} from '@/shared/http/server-sent-events';
+
+// Streams stay open indefinitely and must never be cached or prerendered
+export const dynamic = 'force-dynamic';
+
+const HEARTBEAT_INTERVAL_MS = 15_000;
+const RECONNECT_DELAY_MS = 3_000;
+
+const toServerSentEvent = ({ id, type, user, occurredAt }: UserChangeEvent) =>
+  formatServerSentEvent({ id, event: type, data: JSON.stringify({ data: user, occurredAt }) });
+
+// GET /api/users/events - Live feed of user changes (Server-Sent Events, supports Last-Event-ID)
+export const GET = withObservability(
+  '/api/users/events',
+  withRateLimit('users:read', async (request: NextRequest) => {
+    const { actor, response } = await authenticateRequest(request);
+
+    if (!actor) return response;
+
+    const encoder = new TextEncoder();
+    // EventSource sends the header on reconnect; fetch-based clients may use the query instead
+    const lastEventId =
+      request.headers.get('Last-Event-ID') ?? request.nextUrl.searchParams.get('lastEventId');
+    let cleanup = () => {};
+
+    try {
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          const send = (chunk: string) => controller.enqueue(encoder.encode(chunk));
+
+          // Flushes the headers right away; replayed events follow
+          send(formatServerSentComment('connected'));
+          const subscription = new SubscribeToUserChangesUseCase(getUserEventBus()).execute(
+            actor,
+            (event) => send(toServerSentEvent(event)),
+            lastEventId ?? undefined
+          );
+          const heartbeat = setInterval(
+            () => send(formatServerSentComment('heartbeat')),
+            HEARTBEAT_INTERVAL_MS
+          );
+
+          cleanup = () => {
+            clearInterval(heartbeat);
+            subscription.unsubscribe();
+          };
+          request.signal.addEventListener('abort', () => {
+            cleanup();
+            try {
+              controller.close();
+            } catch {
+              // Already closed because the reader cancelled the stream
+            }
+          });
+
+          // Missed events are gone; tell the client to reload instead of silently diverging
+          if (!subscription.complete) {
+            send(formatServerSentEvent({ event: 'resync', data: '{}', retry: RECONNECT_DELAY_MS }));
+          }
+        },
+        cancel() {
+          cleanup();
+        },
+      });
+
+      return new Response(stream, {
+        headers: {
+          'Content-Type': `${SSE_CONTENT_TYPE}; charset=utf-8`,
+          'Cache-Control': 'no-cache, no-transform',
+          Connection: 'keep-alive',
+          // Stop reverse proxies (nginx) from buffering the stream
+          'X-Accel-Buffering': 'no',
+        },
+      });
+    } catch (error) {
+      if (error instanceof UserAccessDeniedError) {
+        return forbiddenProblem(error, request.nextUrl.pathname);
+      }
+      throw error;
+    }
+  })
+);
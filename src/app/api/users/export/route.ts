@@ -0,0 +1,84 @@
+import { NextRequest } from 'next/server';
+
+import { authenticateRequest } from '@/features/auth';
+import { withObservability } from '@/features/observability';
+import { withRateLimit } from '@/features/rate-limit';
+import {
+  ExportUsersUseCase,
+  getUserRepository,
+  parseListUsersQuery,
+  parseUserFileFormat,
+  serializeUsers,
+  type User,
+  USER_FILE_CONTENT_TYPES,
+  UserAccessDeniedError,
+  type UserFileFormat,
+  userFileHeader,
+} from '@/features/users';
+
+import { forbiddenProblem, validationProblem } from '@/shared/http/problem-details';
+import { ValidationError } from '@/shared/validation/schema';
+
+const errorResponse = (error: unknown, instance: string) => {
+  if (error instanceof ValidationError) {
+    return validationProblem(error.issues, instance);
+  }
+  if (error instanceof UserAccessDeniedError) {
+    return forbiddenProblem(error, instance);
+  }
+  throw error;
+};
+
+// GET /api/users/export?format=csv|ndjson - Stream every user matching the list filters
+export const GET = withObservability(
+  '/api/users/export',
+  withRateLimit('users:read', async (request: NextRequest) => {
+    const { actor, response } = await authenticateRequest(request);
+
+    if (!actor) return response;
+
+    const { searchParams } = request.nextUrl;
+    let pages: AsyncGenerator<User[], void>;
+    let format: UserFileFormat;
+
+    try {
+      format = parseUserFileFormat(searchParams.get('format') ?? 'csv');
+      pages = await new ExportUsersUseCase(getUserRepository()).execute(
+        actor,
+        parseListUsersQuery(searchParams)
+      );
+    } catch (error) {
+      return errorResponse(error, request.nextUrl.pathname);
+    }
+
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const header = userFileHeader(format);
+        if (header) controller.enqueue(encoder.encode(header));
+      },
+      // One page per pull, so a slow client holds back reading from the store
+      async pull(controller) {
+        const page = await pages.next();
+
+        if (page.done) {
+          controller.close();
+          return;
+        }
+        controller.enqueue(encoder.encode(serializeUsers(page.value, format)));
+      },
+      async cancel() {
+        await pages.return(undefined);
+      },
+    });
+    const date = new Date().toISOString().slice(0, 10);
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': `${USER_FILE_CONTENT_TYPES[format]}; charset=utf-8`,
+        'Content-Disposition': `attachment; filename="users-${date}.${format}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  })
+);
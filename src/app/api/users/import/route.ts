@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { authenticateRequest } from '@/features/auth';
+import { getApiErrorLocalizer, resolveApiLocale } from '@/features/i18n';
+import { withIdempotency } from '@/features/idempotency';
+import { withObservability } from '@/features/observability';
+import { withRateLimit } from '@/features/rate-limit';
+import {
+  createUserFileRowLimit,
+  getUserRepository,
+  ImportUsersUseCase,
+  MAX_IMPORT_BYTES,
+  MAX_IMPORT_ROWS,
+  parseUserFile,
+  parseUserFileFormat,
+  UserAccessDeniedError,
+  type UserImportResponse,
+} from '@/features/users';
+
+import {
+  forbiddenProblem,
+  payloadTooLargeProblem,
+  validationProblem,
+} from '@/shared/http/problem-details';
+import { PayloadTooLargeError, readTextBody } from '@/shared/http/request-body';
+import { ValidationError } from '@/shared/validation/schema';
+
+const parseDryRun = (value: string | null) => {
+  if (value === null || value === 'false') return false;
+  if (value === 'true') return true;
+
+  throw new ValidationError([
+    {
+      field: 'dryRun',
+      code: 'invalid_enum',
+      message: 'dryRun must be one of: true, false',
+      params: { options: 'true, false' },
+    },
+  ]);
+};
+
+// POST /api/users/import?format=csv|ndjson&dryRun=true - Create users from a file, all or nothing
+export const POST = withObservability(
+  '/api/users/import',
+  withRateLimit(
+    'users:bulk',
+    withIdempotency(async (request: NextRequest) => {
+      const instance = request.nextUrl.pathname;
+      const { actor, response } = await authenticateRequest(request);
+
+      if (!actor) return response;
+
+      const { searchParams } = request.nextUrl;
+
+      try {
+        const dryRun = parseDryRun(searchParams.get('dryRun'));
+        const format = parseUserFileFormat(
+          searchParams.get('format'),
+          request.headers.get('Content-Type')
+        );
+        // Oversized uploads are refused while they are read, before anything is parsed
+        const text = await readTextBody(
+          request,
+          MAX_IMPORT_BYTES,
+          createUserFileRowLimit(format, MAX_IMPORT_ROWS)
+        );
+        const rows = parseUserFile(text, format);
+        const result = await new ImportUsersUseCase(getUserRepository()).execute(actor, rows, {
+          dryRun,
+        });
+
+        // Row issues are not part of a problem document, so they are translated here
+        const localizer = await getApiErrorLocalizer(resolveApiLocale(request));
+        // A dry run always answers 200; the report says whether the import would succeed
+        const status = result.committed ? 201 : 200;
+        return NextResponse.json<UserImportResponse>(
+          {
+            ...result,
+            errors: result.errors.map(({ line, issues }) => ({
+              line,
+              issues: issues.map(localizer.issue),
+            })),
+          },
+          {
+            status: !dryRun && result.errors.length > 0 ? 422 : status,
+          }
+        );
+      } catch (error) {
+        if (error instanceof ValidationError) {
+          return validationProblem(error.issues, instance);
+        }
+        if (error instanceof UserAccessDeniedError) {
+          return forbiddenProblem(error, instance);
+        }
+        if (error instanceof PayloadTooLargeError) {
+          return payloadTooLargeProblem(error, instance);
+        }
+        throw error;
+      }
+    })
+  )
+);
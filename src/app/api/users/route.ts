@@ -1,55 +1,104 @@
 import { NextRequest, NextResponse } from 'next/server';
 
-// Sample data
-const users = [
-  { id: 1, name: 'Alice Johnson', email: 'alice@example.com', role: 'Admin' },
-  { id: 2, name: 'Bob Smith', email: 'bob@example.com', role: 'User' },
-  { id: 3, name: 'Charlie Brown', email: 'charlie@example.com', role: 'User' },
-];
-
-// GET /api/users - Get all users or filter by query params
-export function GET(request: NextRequest) {
-  const { searchParams } = request.nextUrl;
-  const role = searchParams.get('role');
-
-  if (role) {
-    const filtered = users.filter((user) => user.role.toLowerCase() === role.toLowerCase());
-    return NextResponse.json({ data: filtered, count: filtered.length });
+import { authenticateRequest } from '@/features/auth';
+import { withIdempotency } from '@/features/idempotency';
+import { getLogger, withObservability } from '@/features/observability';
+import { withRateLimit } from '@/features/rate-limit';
+import {
+  type CreateUserCommand,
+  CreateUserUseCase,
+  getUserRepository,
+  ListUsersUseCase,
+  parseListUsersQuery,
+  UserAccessDeniedError,
+  type UserPageResponse,
+  type UserResponse,
+} from '@/features/users';
+
+import { formatLinkHeader, type WebLink } from '@/shared/http/link-header';
+import {
+  forbiddenProblem,
+  invalidBodyProblem,
+  validationProblem,
+} from '@/shared/http/problem-details';
+import { ValidationError } from '@/shared/validation/schema';
+
+const errorResponse = (error: unknown, instance: string) => {
+  if (error instanceof ValidationError) {
+    return validationProblem(error.issues, instance);
   }
+  if (error instanceof UserAccessDeniedError) {
+    return forbiddenProblem(error, instance);
+  }
+  throw error;
+};
 
-  return NextResponse.json({ data: users, count: users.length });
-}
+// GET /api/users - List users with search (q), role filters, sorting and cursor pagination
+export const GET = withObservability(
+  '/api/users',
+  withRateLimit('users:read', async (request: NextRequest) => {
+    const { actor, response } = await authenticateRequest(request);
 
-interface UpdateUserRequest {
-  name?: string;
-  email?: string;
-  role?: string;
-}
+    if (!actor) return response;
 
-// POST /api/users - Create a new user
-export async function POST(request: NextRequest) {
-  try {
-    const body = (await request.json()) as UpdateUserRequest;
-    const { name, email, role } = body;
+    try {
+      const query = parseListUsersQuery(request.nextUrl.searchParams);
+      const page = await new ListUsersUseCase(getUserRepository()).execute(actor, query);
 
-    if (!name || !email) {
-      return NextResponse.json({ error: 'Name and email are required' }, { status: 400 });
+      const first = request.nextUrl.clone();
+      first.searchParams.delete('cursor');
+      const links: WebLink[] = [{ href: first.toString(), rel: 'first' }];
+
+      if (page.nextCursor) {
+        const next = request.nextUrl.clone();
+        next.searchParams.set('cursor', page.nextCursor);
+        links.push({ href: next.toString(), rel: 'next' });
+      }
+
+      return NextResponse.json<UserPageResponse>(
+        {
+          data: page.data,
+          count: page.data.length,
+          total: page.total,
+          nextCursor: page.nextCursor,
+        },
+        { headers: { Link: formatLinkHeader(links) } }
+      );
+    } catch (error) {
+      return errorResponse(error, request.nextUrl.pathname);
     }
+  })
+);
 
-    const newUser = {
-      id: users.length + 1,
-      name,
-      email,
-      role: role || 'User',
-    };
-
-    users.push(newUser);
-
-    return NextResponse.json(
-      { data: newUser, message: 'User created successfully' },
-      { status: 201 }
-    );
-  } catch (error) {
-    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
-  }
-}
+// POST /api/users - Create a new user
+export const POST = withObservability(
+  '/api/users',
+  withRateLimit(
+    'users:write',
+    withIdempotency(async (request: NextRequest) => {
+      const { actor, response } = await authenticateRequest(request);
+
+      if (!actor) return response;
+
+      let body: CreateUserCommand;
+
+      try {
+        body = (await request.json()) as CreateUserCommand;
+      } catch (error) {
+        getLogger().warn('Request body is not valid JSON', { error });
+        return invalidBodyProblem(request.nextUrl.pathname);
+      }
+
+      try {
+        const newUser = await new CreateUserUseCase(getUserRepository()).execute(actor, body);
+
+        return NextResponse.json<UserResponse>(
+          { data: newUser, message: 'User created successfully' },
+          { status: 201 }
+        );
+      } catch (error) {
+        return errorResponse(error, request.nextUrl.pathname);
+      }
+    })
+  )
+);
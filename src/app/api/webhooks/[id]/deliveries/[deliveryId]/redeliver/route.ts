@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+
+import { authenticateRequest } from '@/features/auth';
+import { withIdempotency } from '@/features/idempotency';
+import { withObservability } from '@/features/observability';
+import { withRateLimit } from '@/features/rate-limit';
+import {
+  getWebhookDispatcher,
+  getWebhookRepository,
+  RedeliverWebhookUseCase,
+  WEBHOOK_DELIVERY_NOT_FOUND,
+  WebhookAccessDeniedError,
+  type WebhookDeliveryResponse,
+} from '@/features/webhooks';
+
+import { forbiddenProblem, notFoundProblem } from '@/shared/http/problem-details';
+
+interface RouteContext {
+  params: Promise<{ id: string; deliveryId: string }>;
+}
+
+// POST /api/webhooks/[id]/deliveries/[deliveryId]/redeliver - Send an event again, e.g. a dead letter
+export const POST = withObservability(
+  '/api/webhooks/[id]/deliveries/[deliveryId]/redeliver',
+  withRateLimit<RouteContext>(
+    'webhooks',
+    withIdempotency(async (request, context) => {
+      const instance = request.nextUrl.pathname;
+      const { actor, response } = await authenticateRequest(request);
+
+      if (!actor) return response;
+
+      const { id, deliveryId } = await context.params;
+
+      try {
+        const delivery = await new RedeliverWebhookUseCase(getWebhookRepository()).execute(
+          actor,
+          id,
+          deliveryId
+        );
+
+        if (!delivery) {
+          return notFoundProblem(WEBHOOK_DELIVERY_NOT_FOUND, instance);
+        }
+
+        // Sent in the background (`deliver` never rejects): follow it in the delivery log
+        getWebhookDispatcher()
+          .deliver(delivery)
+          .catch(() => undefined);
+
+        return NextResponse.json<WebhookDeliveryResponse>({ data: delivery }, { status: 202 });
+      } catch (error) {
+        if (error instanceof WebhookAccessDeniedError) {
+          return forbiddenProblem(error, instance);
+        }
+        throw error;
+      }
+    })
+  )
+);
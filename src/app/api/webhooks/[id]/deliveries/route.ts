@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+
+import { authenticateRequest } from '@/features/auth';
+import { withObservability } from '@/features/observability';
+import { withRateLimit } from '@/features/rate-limit';
+import {
+  getWebhookRepository,
+  ListWebhookDeliveriesUseCase,
+  parseWebhookDeliveriesQuery,
+  WEBHOOK_SUBSCRIPTION_NOT_FOUND,
+  WebhookAccessDeniedError,
+  type WebhookDeliveryListResponse,
+} from '@/features/webhooks';
+
+import {
+  forbiddenProblem,
+  notFoundProblem,
+  validationProblem,
+} from '@/shared/http/problem-details';
+import { ValidationError } from '@/shared/validation/schema';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/webhooks/[id]/deliveries - Delivery log, newest first (?status=dead-lettered for dead letters)
+export const GET = withObservability(
+  '/api/webhooks/[id]/deliveries',
+  withRateLimit<RouteContext>('webhooks', async (request, context) => {
+    const instance = request.nextUrl.pathname;
+    const { actor, response } = await authenticateRequest(request);
+
+    if (!actor) return response;
+
+    const { id } = await context.params;
+
+    try {
+      const deliveries = await new ListWebhookDeliveriesUseCase(getWebhookRepository()).execute(
+        actor,
+        id,
+        parseWebhookDeliveriesQuery(request.nextUrl.searchParams)
+      );
+
+      if (!deliveries) {
+        return notFoundProblem(WEBHOOK_SUBSCRIPTION_NOT_FOUND, instance);
+      }
+
+      return NextResponse.json<WebhookDeliveryListResponse>({
+        data: deliveries,
+        count: deliveries.length,
+      });
+    } catch (error) {
+      if (error instanceof WebhookAccessDeniedError) {
+        return forbiddenProblem(error, instance);
+      }
+      if (error instanceof ValidationError) {
+        return validationProblem(error.issues, instance);
+      }
+      throw error;
+    }
+  })
+);
@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+
+import { authenticateRequest } from '@/features/auth';
+import { withIdempotency } from '@/features/idempotency';
+import { withObservability } from '@/features/observability';
+import { withRateLimit } from '@/features/rate-limit';
+import {
+  getWebhookDispatcher,
+  getWebhookRepository,
+  PingWebhookUseCase,
+  WEBHOOK_SUBSCRIPTION_NOT_FOUND,
+  WebhookAccessDeniedError,
+  type WebhookDeliveryResponse,
+} from '@/features/webhooks';
+
+import { forbiddenProblem, notFoundProblem } from '@/shared/http/problem-details';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/webhooks/[id]/ping - Send a signed `webhook.ping` event to the receiver
+export const POST = withObservability(
+  '/api/webhooks/[id]/ping',
+  withRateLimit<RouteContext>(
+    'webhooks',
+    withIdempotency(async (request, context) => {
+      const instance = request.nextUrl.pathname;
+      const { actor, response } = await authenticateRequest(request);
+
+      if (!actor) return response;
+
+      const { id } = await context.params;
+
+      try {
+        const delivery = await new PingWebhookUseCase(getWebhookRepository()).execute(actor, id);
+
+        if (!delivery) {
+          return notFoundProblem(WEBHOOK_SUBSCRIPTION_NOT_FOUND, instance);
+        }
+
+        // Sent in the background (`deliver` never rejects): follow it in the delivery log
+        getWebhookDispatcher()
+          .deliver(delivery)
+          .catch(() => undefined);
+
+        return NextResponse.json<WebhookDeliveryResponse>({ data: delivery }, { status: 202 });
+      } catch (error) {
+        if (error instanceof WebhookAccessDeniedError) {
+          return forbiddenProblem(error, instance);
+        }
+        throw error;
+      }
+    })
+  )
+);
@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server';
+
+import { authenticateRequest } from '@/features/auth';
+import { withObservability } from '@/features/observability';
+import { withRateLimit } from '@/features/rate-limit';
+import {
+  DeleteWebhookSubscriptionUseCase,
+  getWebhookRepository,
+  GetWebhookSubscriptionUseCase,
+  WEBHOOK_SUBSCRIPTION_NOT_FOUND,
+  WebhookAccessDeniedError,
+  type WebhookSubscriptionResponse,
+} from '@/features/webhooks';
+
+import { forbiddenProblem, notFoundProblem } from '@/shared/http/problem-details';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/webhooks/[id] - Get a webhook subscription (without its secret)
+export const GET = withObservability(
+  '/api/webhooks/[id]',
+  withRateLimit<RouteContext>('webhooks', async (request, context) => {
+    const instance = request.nextUrl.pathname;
+    const { actor, response } = await authenticateRequest(request);
+
+    if (!actor) return response;
+
+    const { id } = await context.params;
+
+    try {
+      const subscription = await new GetWebhookSubscriptionUseCase(getWebhookRepository()).execute(
+        actor,
+        id
+      );
+
+      if (!subscription) {
+        return notFoundProblem(WEBHOOK_SUBSCRIPTION_NOT_FOUND, instance);
+      }
+
+      return NextResponse.json<WebhookSubscriptionResponse>({ data: subscription });
+    } catch (error) {
+      if (error instanceof WebhookAccessDeniedError) {
+        return forbiddenProblem(error, instance);
+      }
+      throw error;
+    }
+  })
+);
+
+// DELETE /api/webhooks/[id] - Unregister a receiver and drop its delivery log
+export const DELETE = withObservability(
+  '/api/webhooks/[id]',
+  withRateLimit<RouteContext>('webhooks', async (request, context) => {
+    const instance = request.nextUrl.pathname;
+    const { actor, response } = await authenticateRequest(request);
+
+    if (!actor) return response;
+
+    const { id } = await context.params;
+
+    try {
+      const deleted = await new DeleteWebhookSubscriptionUseCase(getWebhookRepository()).execute(
+        actor,
+        id
+      );
+
+      if (!deleted) {
+        return notFoundProblem(WEBHOOK_SUBSCRIPTION_NOT_FOUND, instance);
+      }
+
+      return new NextResponse(null, { status: 204 });
+    } catch (error) {
+      if (error instanceof WebhookAccessDeniedError) {
+        return forbiddenProblem(error, instance);
+      }
+      throw error;
+    }
+  })
+);
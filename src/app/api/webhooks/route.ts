@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { authenticateRequest } from '@/features/auth';
+import { withIdempotency } from '@/features/idempotency';
+import { getLogger, withObservability } from '@/features/observability';
+import { withRateLimit } from '@/features/rate-limit';
+import {
+  CreateWebhookSubscriptionUseCase,
+  generateWebhookSecret,
+  getWebhookRepository,
+  isWebhookLoopbackAllowed,
+  ListWebhookSubscriptionsUseCase,
+  WebhookAccessDeniedError,
+  type WebhookSubscriptionListResponse,
+  type WebhookSubscriptionResponse,
+} from '@/features/webhooks';
+
+import {
+  forbiddenProblem,
+  invalidBodyProblem,
+  validationProblem,
+} from '@/shared/http/problem-details';
+import { ValidationError } from '@/shared/validation/schema';
+
+const errorResponse = (error: unknown, instance: string) => {
+  if (error instanceof WebhookAccessDeniedError) {
+    return forbiddenProblem(error, instance);
+  }
+  if (error instanceof ValidationError) {
+    return validationProblem(error.issues, instance);
+  }
+  throw error;
+};
+
+// GET /api/webhooks - List webhook subscriptions (secrets are never listed)
+export const GET = withObservability(
+  '/api/webhooks',
+  withRateLimit('webhooks', async (request: NextRequest) => {
+    const { actor, response } = await authenticateRequest(request);
+
+    if (!actor) return response;
+
+    try {
+      const subscriptions = await new ListWebhookSubscriptionsUseCase(
+        getWebhookRepository()
+      ).execute(actor);
+
+      return NextResponse.json<WebhookSubscriptionListResponse>({
+        data: subscriptions,
+        count: subscriptions.length,
+      });
+    } catch (error) {
+      return errorResponse(error, request.nextUrl.pathname);
+    }
+  })
+);
+
+// POST /api/webhooks - Register a receiver; the response holds its signing secret
+export const POST = withObservability(
+  '/api/webhooks',
+  withRateLimit(
+    'webhooks',
+    withIdempotency(async (request: NextRequest) => {
+      const { actor, response } = await authenticateRequest(request);
+
+      if (!actor) return response;
+
+      let body: unknown;
+
+      try {
+        body = await request.json();
+      } catch (error) {
+        getLogger().warn('Request body is not valid JSON', { error });
+        return invalidBodyProblem(request.nextUrl.pathname);
+      }
+
+      try {
+        const subscription = await new CreateWebhookSubscriptionUseCase(
+          getWebhookRepository(),
+          generateWebhookSecret,
+          isWebhookLoopbackAllowed()
+        ).execute(actor, body);
+
+        return NextResponse.json<WebhookSubscriptionResponse>(
+          { data: subscription },
+          { status: 201 }
+        );
+      } catch (error) {
+        return errorResponse(error, request.nextUrl.pathname);
+      }
+    })
+  )
+);
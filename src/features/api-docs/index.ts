@@ -0,0 +1,5 @@
+// Infrastructure
+export { API_VERSION, getOpenApiDocument } from './infrastructure/config/openapi-document';
+
+// Presentation
+export { ApiReference } from './presentation/components/api-reference';
@@ -0,0 +1,47 @@
+import { authOpenApi } from '@/features/auth';
+import { graphqlOpenApi } from '@/features/graphql';
+import { healthOpenApi } from '@/features/health';
+import { idempotencyOpenApi } from '@/features/idempotency';
+import { rateLimitOpenApi } from '@/features/rate-limit';
+import { usersOpenApi } from '@/features/users';
+import { webhooksOpenApi } from '@/features/webhooks';
+
+import { problemDetailsOpenApi } from '@/shared/http/problem-details.openapi';
+import { buildOpenApiDocument } from '@/shared/openapi/build-openapi-document';
+import type { OpenApiDocument } from '@/shared/openapi/openapi.types';
+
+export const API_VERSION = '1.0.0';
+
+let openApiDocument: OpenApiDocument | undefined;
+
+/**
+ * The OpenAPI description of every API route, assembled from the fragments
+ * each feature derives from its own schemas.
+ */
+export const getOpenApiDocument = (): OpenApiDocument => {
+  openApiDocument ??= buildOpenApiDocument(
+    {
+      openapi: '3.1.0',
+      info: {
+        title: 'Users API',
+        version: API_VERSION,
+        description:
+          "Errors are `application/problem+json` documents with a stable `code`; their messages are translated to the `locale` query parameter or `Accept-Language` (see `Content-Language`). Rate-limited responses carry `RateLimit-*` headers. Every response carries `X-Request-Id` (send one to choose it, otherwise it is assigned) and a W3C `traceparent`; a caller's `traceparent` is continued.",
+      },
+      servers: [{ url: '/' }],
+      // Operations are authenticated unless they say otherwise
+      security: [{ bearerAuth: [] }],
+    },
+    [
+      problemDetailsOpenApi,
+      rateLimitOpenApi,
+      idempotencyOpenApi,
+      authOpenApi,
+      usersOpenApi,
+      webhooksOpenApi,
+      graphqlOpenApi,
+      healthOpenApi,
+    ]
+  );
+  return openApiDocument;
+};
@@ -0,0 +1,74 @@
+'use client';
+
+import { useState } from 'react';
+
+import { useTranslations } from 'next-intl';
+
+import { SignInPanel } from '@/features/auth/presentation/components/sign-in-panel';
+import { useAccessToken } from '@/features/auth/presentation/hooks/use-access-token';
+
+import type { OpenApiDocument } from '@/shared/openapi/openapi.types';
+
+import { listOperationsByTag } from '../utils/openapi-view';
+import { OperationPanel } from './operation-panel';
+
+interface ApiReferenceProps {
+  document: OpenApiDocument;
+}
+
+/**
+ * Renders an OpenAPI document as a browsable reference with a request
+ * console. Requests are sent with the token of the signed-in identity.
+ */
+export const ApiReference: React.FC<ApiReferenceProps> = ({ document }) => {
+  const t = useTranslations('ApiDocs');
+  const { session, signIn, signOut } = useAccessToken();
+  const [signInError, setSignInError] = useState('');
+
+  return (
+    <div className="space-y-8">
+      <div>
+        {signInError && (
+          <p className="mb-4 rounded-lg bg-red-100 p-4 text-red-700 dark:bg-red-900/20 dark:text-red-400">
+            {signInError}
+          </p>
+        )}
+        <SignInPanel
+          session={session}
+          onSignIn={(email) => {
+            setSignInError('');
+            signIn(email)
+              .then((signedIn) => {
+                if (!signedIn) setSignInError(t('signInFailed', { email }));
+              })
+              .catch((err) => {
+                console.error('Error signing in:', err);
+              });
+          }}
+          onSignOut={signOut}
+        />
+      </div>
+
+      {listOperationsByTag(document).map(({ tag, operations }) => (
+        <section key={tag.name} aria-labelledby={`tag-${tag.name}`}>
+          <h2 id={`tag-${tag.name}`} className="text-foreground text-2xl font-semibold">
+            {tag.name}
+          </h2>
+          {tag.description && (
+            <p className="mb-4 text-gray-600 dark:text-gray-400">{tag.description}</p>
+          )}
+          <div className="space-y-3">
+            {operations.map((view) => (
+              <OperationPanel
+                key={view.operation.operationId}
+                document={document}
+                view={view}
+                accessToken={session?.accessToken}
+              />
+            ))}
+          </div>
+        </section>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+
+import type { OpenApiDocument, ResponseObject } from '@/shared/openapi/openapi.types';
+
+import {
+  operationParameters,
+  type OperationView,
+  requiresAuth,
+  resolveRef,
+} from '../utils/openapi-view';
+import { TryItPanel } from './try-it-panel';
+
+const METHOD_STYLES: Record<OperationView['method'], string> = {
+  get: 'bg-blue-600',
+  post: 'bg-green-600',
+  put: 'bg-amber-600',
+  patch: 'bg-purple-600',
+  delete: 'bg-red-600',
+};
+
+interface OperationPanelProps {
+  document: OpenApiDocument;
+  view: OperationView;
+  accessToken?: string;
+}
+
+export const OperationPanel: React.FC<OperationPanelProps> = ({ document, view, accessToken }) => {
+  const t = useTranslations('ApiDocs');
+  const { method, path, operation } = view;
+  const parameters = operationParameters(document, view);
+  const bodySchema = operation.requestBody?.content['application/json']?.schema;
+
+  return (
+    <details id={operation.operationId} className="rounded-lg bg-gray-100 dark:bg-gray-800">
+      <summary className="flex cursor-pointer items-center gap-3 p-4">
+        <span
+          className={`${METHOD_STYLES[method]} w-16 rounded px-2 py-1 text-center font-mono text-xs font-bold text-white uppercase`}
+        >
+          {method}
+        </span>
+        <code className="text-foreground font-mono text-sm">{path}</code>
+        <span className="text-sm text-gray-600 dark:text-gray-400">{operation.summary}</span>
+        {!requiresAuth(document, view) && (
+          <span className="ms-auto rounded bg-gray-200 px-2 py-0.5 text-xs text-gray-700 dark:bg-gray-700 dark:text-gray-300">
+            {t('public')}
+          </span>
+        )}
+      </summary>
+
+      <div className="space-y-4 px-4 pb-4">
+        {operation.description && (
+          <p className="text-sm text-gray-700 dark:text-gray-300">{operation.description}</p>
+        )}
+
+        {parameters.length > 0 && (
+          <section>
+            <h4 className="text-foreground mb-2 font-semibold">{t('parameters')}</h4>
+            <ul className="space-y-1 text-sm">
+              {parameters.map((parameter) => (
+                <li key={`${parameter.in}-${parameter.name}`}>
+                  <code className="font-mono">{parameter.name}</code>{' '}
+                  <span className="text-gray-500">
+                    ({parameter.in}
+                    {parameter.required ? `, ${t('required')}` : ''})
+                  </span>
+                  {parameter.description && (
+                    <span className="text-gray-700 dark:text-gray-300">
+                      {' '}
+                      — {parameter.description}
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {bodySchema && (
+          <section>
+            <h4 className="text-foreground mb-2 font-semibold">{t('requestBody')}</h4>
+            <pre className="overflow-x-auto rounded-lg bg-white p-3 text-xs dark:bg-gray-900">
+              {JSON.stringify(resolveRef(document, bodySchema), null, 2)}
+            </pre>
+          </section>
+        )}
+
+        <section>
+          <h4 className="text-foreground mb-2 font-semibold">{t('responses')}</h4>
+          <ul className="space-y-1 text-sm">
+            {Object.entries(operation.responses).map(([status, response]) => (
+              <li key={status}>
+                <code className="font-mono font-semibold">{status}</code>{' '}
+                <span className="text-gray-700 dark:text-gray-300">
+                  {resolveRef<ResponseObject>(document, response).description}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </section>
+
+        <TryItPanel document={document} view={view} accessToken={accessToken} />
+      </div>
+    </details>
+  );
+};
@@ -0,0 +1,172 @@
+'use client';
+
+import { useState } from 'react';
+
+import { useTranslations } from 'next-intl';
+
+import type { OpenApiDocument, ParameterObject } from '@/shared/openapi/openapi.types';
+
+import { operationParameters, type OperationView, requiresAuth } from '../utils/openapi-view';
+
+interface TryItResult {
+  status: number;
+  statusText: string;
+  headers: [string, string][];
+  body: string;
+  durationMs: number;
+}
+
+interface TryItPanelProps {
+  document: OpenApiDocument;
+  view: OperationView;
+  accessToken?: string;
+}
+
+const buildUrl = (path: string, parameters: ParameterObject[], values: Record<string, string>) => {
+  const url = new URL(
+    path.replace(/\{(\w+)\}/g, (_, name: string) => encodeURIComponent(values[name] ?? '')),
+    window.location.origin
+  );
+
+  parameters
+    .filter((parameter) => parameter.in === 'query' && values[parameter.name])
+    .forEach((parameter) => url.searchParams.set(parameter.name, values[parameter.name]));
+
+  return url;
+};
+
+const formatBody = (text: string) => {
+  try {
+    return JSON.stringify(JSON.parse(text), null, 2);
+  } catch {
+    return text;
+  }
+};
+
+export const TryItPanel: React.FC<TryItPanelProps> = ({ document, view, accessToken }) => {
+  const t = useTranslations('ApiDocs');
+  const parameters = operationParameters(document, view);
+  const example = view.operation.requestBody?.content['application/json']?.example;
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [body, setBody] = useState(example === undefined ? '' : JSON.stringify(example, null, 2));
+  const [result, setResult] = useState<TryItResult | null>(null);
+  const [error, setError] = useState('');
+  const [sending, setSending] = useState(false);
+  const idPrefix = `${view.method}-${view.path}`.replace(/\W+/g, '-');
+
+  const send = async () => {
+    setSending(true);
+    setError('');
+    const headers: Record<string, string> = {};
+
+    parameters
+      .filter((parameter) => parameter.in === 'header' && values[parameter.name])
+      .forEach((parameter) => {
+        headers[parameter.name] = values[parameter.name];
+      });
+    if (accessToken && requiresAuth(document, view)) {
+      headers.Authorization = `Bearer ${accessToken}`;
+    }
+    if (view.operation.requestBody) headers['Content-Type'] = 'application/json';
+
+    const started = performance.now();
+    try {
+      const response = await fetch(buildUrl(view.path, parameters, values), {
+        method: view.method.toUpperCase(),
+        headers,
+        body: view.operation.requestBody ? body : undefined,
+      });
+
+      setResult({
+        status: response.status,
+        statusText: response.statusText,
+        headers: [...response.headers.entries()],
+        body: formatBody(await response.text()),
+        durationMs: Math.round(performance.now() - started),
+      });
+    } catch (err) {
+      setError(t('requestFailed'));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        send().catch((err) => {
+          console.error('Error sending request:', err);
+        });
+      }}
+      className="mt-4 space-y-3 border-t border-gray-300 pt-4 dark:border-gray-600"
+    >
+      <h4 className="text-foreground font-semibold">{t('tryIt')}</h4>
+      {parameters.map((parameter) => (
+        <div key={`${parameter.in}-${parameter.name}`}>
+          {/* eslint-disable-next-line jsx-a11y/label-has-associated-control */}
+          <label
+            htmlFor={`${idPrefix}-${parameter.name}`}
+            className="text-foreground mb-1 block font-mono text-sm"
+          >
+            {parameter.name} <span className="text-gray-500">({parameter.in})</span>
+            {parameter.required && <span className="text-red-600"> *</span>}
+          </label>
+          <input
+            id={`${idPrefix}-${parameter.name}`}
+            type="text"
+            value={values[parameter.name] ?? ''}
+            onChange={(e) => setValues({ ...values, [parameter.name]: e.target.value })}
+            required={parameter.required}
+            className="text-foreground w-full rounded-lg border border-gray-300 bg-white px-3 py-1.5 font-mono text-sm dark:border-gray-600 dark:bg-gray-700"
+          />
+        </div>
+      ))}
+      {view.operation.requestBody && (
+        <div>
+          {/* eslint-disable-next-line jsx-a11y/label-has-associated-control */}
+          <label htmlFor={`${idPrefix}-body`} className="text-foreground mb-1 block text-sm">
+            {t('requestBody')}
+          </label>
+          <textarea
+            id={`${idPrefix}-body`}
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            rows={Math.min(12, body.split('\n').length + 1)}
+            className="text-foreground w-full rounded-lg border border-gray-300 bg-white px-3 py-2 font-mono text-sm dark:border-gray-600 dark:bg-gray-700"
+          />
+        </div>
+      )}
+      {requiresAuth(document, view) && !accessToken && (
+        <p className="text-sm text-amber-700 dark:text-amber-400">{t('signInHint')}</p>
+      )}
+      <button
+        type="submit"
+        disabled={sending}
+        className="rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50"
+      >
+        {sending ? t('sending') : t('send')}
+      </button>
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      {result && (
+        <div aria-live="polite" className="space-y-2">
+          <p className="text-foreground font-mono text-sm">
+            {t('status', {
+              status: String(result.status),
+              statusText: result.statusText,
+              durationMs: result.durationMs,
+            })}
+          </p>
+          <pre className="overflow-x-auto rounded-lg bg-white p-3 text-xs dark:bg-gray-900">
+            {result.headers.map(([name, value]) => `${name}: ${value}`).join('\n')}
+          </pre>
+          {result.body && (
+            <pre className="max-h-96 overflow-auto rounded-lg bg-white p-3 text-xs dark:bg-gray-900">
+              {result.body}
+            </pre>
+          )}
+        </div>
+      )}
+    </form>
+  );
+};
@@ -0,0 +1,54 @@
+import type {
+  HttpMethod,
+  OpenApiDocument,
+  OperationObject,
+  ParameterObject,
+  Reference,
+  TagObject,
+} from '@/shared/openapi/openapi.types';
+
+export interface OperationView {
+  method: HttpMethod;
+  path: string;
+  operation: OperationObject;
+}
+
+export interface TagGroup {
+  tag: TagObject;
+  operations: OperationView[];
+}
+
+const isReference = (value: unknown): value is Reference =>
+  typeof value === 'object' && value !== null && '$ref' in value;
+
+/**
+ * Follows a local `#/components/...` reference; other values are returned as is.
+ */
+export const resolveRef = <T>(document: OpenApiDocument, value: T | Reference): T => {
+  if (!isReference(value)) return value;
+
+  const [, kind, name] = value.$ref.split('/').slice(1);
+  return (document.components as Record<string, Record<string, T>>)[kind][name];
+};
+
+export const listOperationsByTag = (document: OpenApiDocument): TagGroup[] => {
+  const operations = Object.entries(document.paths).flatMap(([path, item]) =>
+    (Object.entries(item) as [HttpMethod, OperationObject][]).map(([method, operation]) => ({
+      method,
+      path,
+      operation,
+    }))
+  );
+
+  return document.tags.map((tag) => ({
+    tag,
+    operations: operations.filter(({ operation }) => operation.tags?.includes(tag.name)),
+  }));
+};
+
+export const operationParameters = (document: OpenApiDocument, { operation }: OperationView) =>
+  (operation.parameters ?? []).map((parameter) => resolveRef<ParameterObject>(document, parameter));
+
+// Public operations opt out of the document-wide bearer requirement with `security: []`
+export const requiresAuth = (document: OpenApiDocument, { operation }: OperationView) =>
+  (operation.security ?? document.security ?? []).length > 0;
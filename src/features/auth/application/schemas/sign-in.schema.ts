@@ -0,0 +1,14 @@
+import { createUserSchema } from '@/features/users';
+
+import type { ObjectSchema } from '@/shared/validation/schema';
+
+export interface SignInCommand {
+  email: string;
+}
+
+export const signInSchema: ObjectSchema<SignInCommand> = {
+  name: 'SignInRequest',
+  fields: {
+    email: { ...createUserSchema.fields.email, description: 'Email of the user to sign in as' },
+  },
+};
@@ -0,0 +1,23 @@
+import type { Actor, UserRepository } from '@/features/users';
+
+import type { AccessTokenService } from '../../domain/services/access-token.service';
+
+export class AuthenticateUseCase {
+  constructor(
+    private readonly userRepository: UserRepository,
+    private readonly tokenService: AccessTokenService
+  ) {}
+
+  /**
+   * Resolves the actor behind an access token, or null if the token is invalid
+   * or its user no longer exists. The role always comes from the stored user.
+   */
+  async execute(token: string): Promise<Actor | null> {
+    const claims = this.tokenService.verify(token);
+
+    if (!claims) return null;
+
+    const user = await this.userRepository.findById(claims.sub);
+    return user ? { id: user.id, role: user.role } : null;
+  }
+}
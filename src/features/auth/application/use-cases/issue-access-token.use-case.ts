@@ -0,0 +1,42 @@
+import type { UserRepository } from '@/features/users';
+
+import { parse } from '@/shared/validation/schema';
+
+import {
+  ACCESS_TOKEN_TYPE,
+  type IssuedAccessToken,
+} from '../../domain/entities/access-token.entity';
+import type { AccessTokenService } from '../../domain/services/access-token.service';
+import { type SignInCommand, signInSchema } from '../schemas/sign-in.schema';
+
+export class IssueAccessTokenUseCase {
+  constructor(
+    private readonly userRepository: UserRepository,
+    private readonly tokenService: AccessTokenService,
+    private readonly ttlSeconds: number
+  ) {}
+
+  /**
+   * Issues a token for the user with the given email, or returns null if
+   * there is no such user.
+   *
+   * @throws {ValidationError} If the payload does not match `signInSchema`
+   */
+  async execute(command: SignInCommand, now = new Date()): Promise<IssuedAccessToken | null> {
+    const { email } = parse(signInSchema, command);
+    const user = (await this.userRepository.findAll()).find(
+      (candidate) => candidate.email.toLowerCase() === email.toLowerCase()
+    );
+
+    if (!user) return null;
+
+    const iat = Math.floor(now.getTime() / 1000);
+
+    return {
+      accessToken: this.tokenService.sign({ sub: user.id, iat, exp: iat + this.ttlSeconds }),
+      tokenType: ACCESS_TOKEN_TYPE,
+      expiresIn: this.ttlSeconds,
+      user,
+    };
+  }
+}
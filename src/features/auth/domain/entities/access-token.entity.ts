@@ -0,0 +1,22 @@
+import type { User, UserId } from '@/features/users';
+
+export const ACCESS_TOKEN_TYPE = 'Bearer';
+
+/**
+ * Claims carried by an access token. Only the subject is trusted from the
+ * token; the role is looked up on every request so changes apply immediately.
+ */
+export interface AccessTokenClaims {
+  sub: UserId;
+  // Issued-at and expiry, in seconds since the epoch
+  iat: number;
+  exp: number;
+}
+
+export interface IssuedAccessToken {
+  accessToken: string;
+  tokenType: typeof ACCESS_TOKEN_TYPE;
+  // Lifetime in seconds
+  expiresIn: number;
+  user: User;
+}
@@ -0,0 +1,7 @@
+import type { AccessTokenClaims } from '../entities/access-token.entity';
+
+export interface AccessTokenService {
+  sign(claims: AccessTokenClaims): string;
+  // Returns null for malformed, tampered or expired tokens
+  verify(token: string, now?: Date): AccessTokenClaims | null;
+}
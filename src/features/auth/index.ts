@@ -0,0 +1,35 @@
+// Domain
+export * from './domain/entities/access-token.entity';
+export type { AccessTokenService } from './domain/services/access-token.service';
+
+// Application
+export * from './application/schemas/sign-in.schema';
+export { AuthenticateUseCase } from './application/use-cases/authenticate.use-case';
+export { IssueAccessTokenUseCase } from './application/use-cases/issue-access-token.use-case';
+
+// Infrastructure
+export { HmacAccessTokenService } from './infrastructure/services/hmac-access-token.service';
+export {
+  getAccessTokenService,
+  getAccessTokenTtl,
+  isDevSignInEnabled,
+} from './infrastructure/config/auth';
+export {
+  authenticateRequest,
+  type AuthenticationResult,
+  bearerChallenge,
+  parseBearerToken,
+} from './infrastructure/http/authenticate-request';
+export {
+  authenticateSession,
+  endSession,
+  SESSION_COOKIE,
+  startSession,
+} from './infrastructure/http/session-cookie';
+export { authOpenApi } from './infrastructure/openapi/auth.openapi';
+
+// Presentation
+export { SignInForm } from './presentation/components/sign-in-form';
+export { SignInPanel } from './presentation/components/sign-in-panel';
+export type * from './presentation/forms/sign-in-form-state';
+export { type AuthSession, useAccessToken } from './presentation/hooks/use-access-token';
@@ -0,0 +1,33 @@
+import type { AccessTokenService } from '../../domain/services/access-token.service';
+import { HmacAccessTokenService } from '../services/hmac-access-token.service';
+
+const DEFAULT_TOKEN_TTL_SECONDS = 60 * 60;
+
+// Only used outside production so the example works without any setup
+const DEVELOPMENT_SECRET = 'development-only-auth-secret-change-me';
+
+const isProduction = () => process.env.NODE_ENV === 'production';
+
+const getAuthSecret = () => {
+  const secret = process.env.AUTH_SECRET;
+
+  if (secret) return secret;
+  if (isProduction()) throw new Error('AUTH_SECRET must be set in production');
+
+  return DEVELOPMENT_SECRET;
+};
+
+export const getAccessTokenTtl = () => {
+  const ttl = Number(process.env.AUTH_TOKEN_TTL ?? DEFAULT_TOKEN_TTL_SECONDS);
+  return Number.isInteger(ttl) && ttl > 0 ? ttl : DEFAULT_TOKEN_TTL_SECONDS;
+};
+
+// Signing in by email alone is a development convenience; production needs an explicit opt-in
+export const isDevSignInEnabled = () => !isProduction() || process.env.AUTH_DEV_SIGN_IN === 'true';
+
+let accessTokenService: AccessTokenService | undefined;
+
+export const getAccessTokenService = (): AccessTokenService => {
+  accessTokenService ??= new HmacAccessTokenService(getAuthSecret());
+  return accessTokenService;
+};
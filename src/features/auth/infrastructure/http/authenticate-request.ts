@@ -0,0 +1,56 @@
+import { type Actor, getUserRepository } from '@/features/users';
+
+import { unauthorizedProblem } from '@/shared/http/problem-details';
+
+import { AuthenticateUseCase } from '../../application/use-cases/authenticate.use-case';
+import { getAccessTokenService } from '../config/auth';
+
+const REALM = 'users';
+
+// WWW-Authenticate value for 401 responses (RFC 6750)
+export const bearerChallenge = (error?: 'invalid_token') =>
+  error ? `Bearer realm="${REALM}", error="${error}"` : `Bearer realm="${REALM}"`;
+
+export type AuthenticationResult =
+  | { actor: Actor; response?: never }
+  | { actor?: never; response: Response };
+
+export const parseBearerToken = (authorization: string | null) => {
+  const match = authorization?.match(/^Bearer\s+(\S+)\s*$/i);
+  return match ? match[1] : null;
+};
+
+/**
+ * Authenticates the `Authorization: Bearer <token>` header of a request.
+ * Failures come back as a ready-made 401 problem response.
+ */
+export const authenticateRequest = async (request: Request): Promise<AuthenticationResult> => {
+  const instance = new URL(request.url).pathname;
+  const token = parseBearerToken(request.headers.get('Authorization'));
+
+  if (!token) {
+    return {
+      response: unauthorizedProblem(
+        { code: 'token_required', message: 'A bearer token is required' },
+        bearerChallenge(),
+        instance
+      ),
+    };
+  }
+
+  const actor = await new AuthenticateUseCase(getUserRepository(), getAccessTokenService()).execute(
+    token
+  );
+
+  if (!actor) {
+    return {
+      response: unauthorizedProblem(
+        { code: 'token_invalid', message: 'The access token is invalid or has expired' },
+        bearerChallenge('invalid_token'),
+        instance
+      ),
+    };
+  }
+
+  return { actor };
+};
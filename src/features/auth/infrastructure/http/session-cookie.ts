@@ -0,0 +1,38 @@
+import { cookies } from 'next/headers';
+
+import { type Actor, getUserRepository } from '@/features/users';
+
+import { AuthenticateUseCase } from '../../application/use-cases/authenticate.use-case';
+import type { IssuedAccessToken } from '../../domain/entities/access-token.entity';
+import { getAccessTokenService } from '../config/auth';
+
+// Holds an access token for server-rendered pages and Server Actions, which
+// cannot send an `Authorization` header
+export const SESSION_COOKIE = 'session';
+
+/**
+ * Resolves the actor of the session cookie, or null if there is none or its
+ * token is no longer valid.
+ */
+export const authenticateSession = async (): Promise<Actor | null> => {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+
+  if (!token) return null;
+
+  return new AuthenticateUseCase(getUserRepository(), getAccessTokenService()).execute(token);
+};
+
+// Only usable where cookies may be set: Server Actions and route handlers
+export const startSession = async ({ accessToken, expiresIn }: IssuedAccessToken) => {
+  (await cookies()).set(SESSION_COOKIE, accessToken, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: expiresIn,
+  });
+};
+
+export const endSession = async () => {
+  (await cookies()).delete(SESSION_COOKIE);
+};
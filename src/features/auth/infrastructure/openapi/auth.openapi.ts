@@ -0,0 +1,72 @@
+import { problemResponseObject } from '@/shared/http/problem-details.openapi';
+import { componentRef } from '@/shared/openapi/build-openapi-document';
+import type { OpenApiFragment } from '@/shared/openapi/openapi.types';
+import { toJsonSchema } from '@/shared/validation/schema';
+
+import { signInSchema } from '../../application/schemas/sign-in.schema';
+import { ACCESS_TOKEN_TYPE } from '../../domain/entities/access-token.entity';
+
+export const authOpenApi: OpenApiFragment = {
+  tags: [{ name: 'Auth', description: 'Sign in and obtain bearer tokens' }],
+  paths: {
+    '/api/auth/token': {
+      post: {
+        operationId: 'issueAccessToken',
+        summary: 'Sign in by email',
+        description:
+          'Issues a bearer token for an existing user. Development sign-in: no password is checked, and it is disabled in production unless `AUTH_DEV_SIGN_IN=true`.',
+        tags: ['Auth'],
+        // Public: this is how a token is obtained
+        security: [],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: toJsonSchema(signInSchema),
+              example: { email: 'alice@example.com' },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Token issued',
+            content: { 'application/json': { schema: componentRef('schemas', 'AccessToken') } },
+          },
+          '400': componentRef('responses', 'InvalidBody'),
+          '401': componentRef('responses', 'Unauthorized'),
+          '403': problemResponseObject('Email sign-in is disabled in this environment'),
+          '422': componentRef('responses', 'ValidationFailed'),
+          '429': componentRef('responses', 'TooManyRequests'),
+        },
+      },
+    },
+  },
+  components: {
+    securitySchemes: {
+      bearerAuth: {
+        type: 'http',
+        scheme: 'bearer',
+        bearerFormat: 'JWT',
+        description: 'Token from `POST /api/auth/token`',
+      },
+    },
+    schemas: {
+      AccessToken: {
+        type: 'object',
+        properties: {
+          accessToken: { type: 'string' },
+          tokenType: { type: 'string', const: ACCESS_TOKEN_TYPE },
+          expiresIn: { type: 'integer', description: 'Lifetime in seconds' },
+          user: componentRef('schemas', 'User'),
+        },
+        required: ['accessToken', 'tokenType', 'expiresIn', 'user'],
+      },
+    },
+    responses: {
+      Unauthorized: problemResponseObject('Missing, invalid or expired bearer token', {
+        'WWW-Authenticate': { schema: { type: 'string' }, description: 'Bearer challenge' },
+      }),
+      Forbidden: problemResponseObject('The signed-in user lacks the required permission'),
+    },
+  },
+};
@@ -0,0 +1,63 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+import type { AccessTokenClaims } from '../../domain/entities/access-token.entity';
+import type { AccessTokenService } from '../../domain/services/access-token.service';
+
+const HEADER = { alg: 'HS256', typ: 'JWT' } as const;
+
+const encodeSegment = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const decodeSegment = (segment: string): unknown =>
+  JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+
+const isClaims = (value: unknown): value is AccessTokenClaims => {
+  const claims = value as Partial<AccessTokenClaims> | null;
+  return (
+    typeof claims === 'object' &&
+    claims !== null &&
+    Number.isInteger(claims.sub) &&
+    typeof claims.iat === 'number' &&
+    typeof claims.exp === 'number'
+  );
+};
+
+/**
+ * Signs compact JWTs (HS256) with a local secret. Only tokens issued by this
+ * service are accepted: the header must match exactly, so `alg: none` and
+ * algorithm switching are rejected.
+ */
+export class HmacAccessTokenService implements AccessTokenService {
+  private readonly encodedHeader = encodeSegment(HEADER);
+
+  constructor(private readonly secret: string) {}
+
+  sign(claims: AccessTokenClaims): string {
+    const unsigned = `${this.encodedHeader}.${encodeSegment(claims)}`;
+    return `${unsigned}.${this.signature(unsigned)}`;
+  }
+
+  verify(token: string, now = new Date()): AccessTokenClaims | null {
+    const [header, payload, signature, ...rest] = token.split('.');
+
+    if (header !== this.encodedHeader || !payload || !signature || rest.length > 0) return null;
+
+    const expected = Buffer.from(this.signature(`${header}.${payload}`));
+    const actual = Buffer.from(signature);
+
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+    try {
+      const claims = decodeSegment(payload);
+
+      if (!isClaims(claims) || claims.exp * 1000 <= now.getTime()) return null;
+
+      return claims;
+    } catch {
+      return null;
+    }
+  }
+
+  private signature(unsigned: string) {
+    return createHmac('sha256', this.secret).update(unsigned).digest('base64url');
+  }
+}
@@ -0,0 +1,81 @@
+'use client';
+
+import { useActionState } from 'react';
+
+import { useTranslations } from 'next-intl';
+
+import { FormSubmitButton } from '@/features/users/presentation/components/form-submit-button';
+
+import type { SignInFormAction } from '../forms/sign-in-form-state';
+import { QUICK_IDENTITIES } from './sign-in-panel';
+
+interface SignInFormProps {
+  // Reads `identity` (a quick identity button) or else `email`
+  action: SignInFormAction;
+}
+
+const quickButtonClass =
+  'rounded-lg bg-white px-4 py-2 text-sm font-medium text-gray-800 hover:bg-gray-200 disabled:opacity-50 dark:bg-gray-700 dark:text-gray-100 dark:hover:bg-gray-600';
+
+/**
+ * Sign-in form for a Server Action that starts a cookie session; works
+ * without JavaScript.
+ */
+export const SignInForm: React.FC<SignInFormProps> = ({ action }) => {
+  const t = useTranslations('SignIn');
+  const [state, formAction] = useActionState(action, {});
+
+  return (
+    <div className="mb-8 rounded-lg bg-gray-100 p-6 dark:bg-gray-800">
+      <h2 className="text-foreground mb-4 text-2xl font-semibold">{t('title')}</h2>
+      <form action={formAction}>
+        <div className="mb-4 flex flex-wrap gap-2">
+          {QUICK_IDENTITIES.map((identity) => (
+            <FormSubmitButton
+              key={identity.email}
+              name="identity"
+              value={identity.email}
+              formNoValidate
+              pendingLabel={identity.label}
+              className={quickButtonClass}
+            >
+              {identity.label}
+            </FormSubmitButton>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          {/* eslint-disable-next-line jsx-a11y/label-has-associated-control */}
+          <label htmlFor="session-email" className="sr-only">
+            {t('email')}
+          </label>
+          <input
+            id="session-email"
+            name="email"
+            type="email"
+            defaultValue={state.email}
+            placeholder={t('emailPlaceholder')}
+            aria-invalid={state.error ? true : undefined}
+            aria-describedby={state.error ? 'session-error' : undefined}
+            className="text-foreground flex-1 rounded-lg border border-gray-300 bg-white px-4 py-2 dark:border-gray-600 dark:bg-gray-700"
+            required
+          />
+          <FormSubmitButton
+            pendingLabel={t('submitting')}
+            className="rounded-lg bg-indigo-600 px-6 py-2 font-medium text-white hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {t('submit')}
+          </FormSubmitButton>
+        </div>
+        {state.error && (
+          <p
+            id="session-error"
+            role="alert"
+            className="mt-2 text-sm text-red-600 dark:text-red-400"
+          >
+            {state.error}
+          </p>
+        )}
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+'use client';
+
+import { useState } from 'react';
+
+import { useTranslations } from 'next-intl';
+
+import type { AuthSession } from '../hooks/use-access-token';
+
+// Seed users, one per role, for quick switching
+export const QUICK_IDENTITIES = [
+  { email: 'alice@example.com', label: 'Alice (Admin)' },
+  { email: 'bob@example.com', label: 'Bob (User)' },
+] as const;
+
+const renderStrong = (chunks: React.ReactNode) => <span className="font-semibold">{chunks}</span>;
+
+interface SignInPanelProps {
+  session: AuthSession | null;
+  disabled?: boolean;
+  onSignIn: (email: string) => void;
+  onSignOut: () => void;
+}
+
+export const SignInPanel: React.FC<SignInPanelProps> = ({
+  session,
+  disabled,
+  onSignIn,
+  onSignOut,
+}) => {
+  const t = useTranslations('SignIn');
+  const [email, setEmail] = useState('');
+
+  if (session) {
+    return (
+      <div className="mb-8 flex items-center justify-between rounded-lg bg-gray-100 p-4 dark:bg-gray-800">
+        <p className="text-foreground">
+          {t.rich('signedInAs', {
+            name: session.user.name,
+            role: session.user.role,
+            strong: renderStrong,
+          })}
+        </p>
+        <button
+          type="button"
+          onClick={onSignOut}
+          className="rounded-lg bg-gray-800 px-4 py-2 text-sm font-medium text-white hover:bg-gray-900 dark:bg-gray-600 dark:hover:bg-gray-500"
+        >
+          {t('signOut')}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-8 rounded-lg bg-gray-100 p-6 dark:bg-gray-800">
+      <h2 className="text-foreground mb-4 text-2xl font-semibold">{t('title')}</h2>
+      <div className="mb-4 flex flex-wrap gap-2">
+        {QUICK_IDENTITIES.map((identity) => (
+          <button
+            key={identity.email}
+            type="button"
+            onClick={() => onSignIn(identity.email)}
+            disabled={disabled}
+            className="rounded-lg bg-white px-4 py-2 text-sm font-medium text-gray-800 hover:bg-gray-200 disabled:opacity-50 dark:bg-gray-700 dark:text-gray-100 dark:hover:bg-gray-600"
+          >
+            {identity.label}
+          </button>
+        ))}
+      </div>
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          onSignIn(email.trim());
+        }}
+        className="flex gap-2"
+      >
+        {/* eslint-disable-next-line jsx-a11y/label-has-associated-control */}
+        <label htmlFor="sign-in-email" className="sr-only">
+          {t('email')}
+        </label>
+        <input
+          id="sign-in-email"
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder={t('emailPlaceholder')}
+          className="text-foreground flex-1 rounded-lg border border-gray-300 bg-white px-4 py-2 dark:border-gray-600 dark:bg-gray-700"
+          required
+        />
+        <button
+          type="submit"
+          disabled={disabled}
+          className="rounded-lg bg-indigo-600 px-6 py-2 font-medium text-white hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {t('submit')}
+        </button>
+      </form>
+    </div>
+  );
+};
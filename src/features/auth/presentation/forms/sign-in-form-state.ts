@@ -0,0 +1,10 @@
+export interface SignInFormState {
+  error?: string;
+  // Echoed back so a failed sign-in keeps the input, also without JavaScript
+  email?: string;
+}
+
+export type SignInFormAction = (
+  state: SignInFormState,
+  formData: FormData
+) => Promise<SignInFormState>;
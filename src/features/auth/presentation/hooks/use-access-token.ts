@@ -0,0 +1,67 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+
+import type { IssuedAccessToken } from '../../domain/entities/access-token.entity';
+
+const STORAGE_KEY = 'accessToken';
+
+export interface AuthSession {
+  accessToken: string;
+  user: IssuedAccessToken['user'];
+  // Epoch milliseconds
+  expiresAt: number;
+}
+
+const readStoredSession = (): AuthSession | null => {
+  try {
+    const session = JSON.parse(sessionStorage.getItem(STORAGE_KEY) ?? 'null') as AuthSession | null;
+    return session && session.expiresAt > Date.now() ? session : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Keeps the signed-in identity for this browser tab (sessionStorage) and
+ * exposes the `Authorization` header to send with API requests.
+ */
+export const useAccessToken = () => {
+  const [session, setSession] = useState<AuthSession | null>(null);
+
+  useEffect(() => {
+    setSession(readStoredSession());
+  }, []);
+
+  const signIn = useCallback(async (email: string) => {
+    const response = await fetch('/api/auth/token', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email }),
+    });
+
+    if (!response.ok) return false;
+
+    const issued = (await response.json()) as IssuedAccessToken;
+    const next: AuthSession = {
+      accessToken: issued.accessToken,
+      user: issued.user,
+      expiresAt: Date.now() + issued.expiresIn * 1000,
+    };
+
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    setSession(next);
+    return true;
+  }, []);
+
+  const signOut = useCallback(() => {
+    sessionStorage.removeItem(STORAGE_KEY);
+    setSession(null);
+  }, []);
+
+  const authHeaders: Record<string, string> = session
+    ? { Authorization: `Bearer ${session.accessToken}` }
+    : {};
+
+  return { session, signIn, signOut, authHeaders };
+};
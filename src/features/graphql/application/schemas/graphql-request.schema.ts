@@ -0,0 +1,97 @@
+import { ValidationError, type ValidationIssue } from '@/shared/validation/schema';
+
+// A GraphQL-over-HTTP request body
+export interface GraphQLRequest {
+  query: string;
+  variables?: Record<string, unknown>;
+  operationName?: string;
+}
+
+export const MAX_GRAPHQL_BATCH_SIZE = 10;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const parseRequest = (
+  value: unknown,
+  prefix: string,
+  issues: ValidationIssue[]
+): GraphQLRequest => {
+  const field = (name: string) => `${prefix}${name}`;
+
+  if (!isPlainObject(value)) {
+    issues.push({
+      field: prefix.replace(/\.$/, '') || 'body',
+      code: 'invalid_type',
+      message: `${prefix.replace(/\.$/, '') || 'body'} must be an object`,
+      params: { expected: 'object' },
+    });
+    return { query: '' };
+  }
+
+  const { query, variables, operationName } = value;
+
+  if (typeof query !== 'string' || !query.trim()) {
+    issues.push({
+      field: field('query'),
+      code: 'required',
+      message: `${field('query')} is required`,
+    });
+  }
+  if (variables !== undefined && variables !== null && !isPlainObject(variables)) {
+    issues.push({
+      field: field('variables'),
+      code: 'invalid_type',
+      message: `${field('variables')} must be an object`,
+      params: { expected: 'object' },
+    });
+  }
+  if (operationName !== undefined && operationName !== null && typeof operationName !== 'string') {
+    issues.push({
+      field: field('operationName'),
+      code: 'invalid_type',
+      message: `${field('operationName')} must be a string`,
+      params: { expected: 'string' },
+    });
+  }
+
+  return {
+    query: String(query ?? ''),
+    ...(isPlainObject(variables) && { variables }),
+    ...(typeof operationName === 'string' && operationName && { operationName }),
+  };
+};
+
+/**
+ * Parses a `POST /api/graphql` body: one request, or an array of up to
+ * `MAX_GRAPHQL_BATCH_SIZE` requests answered with an array of results.
+ *
+ * @throws {ValidationError} If the body is not a valid request or batch
+ */
+export const parseGraphQLRequests = (
+  body: unknown
+): { requests: GraphQLRequest[]; batched: boolean } => {
+  const issues: ValidationIssue[] = [];
+  const batched = Array.isArray(body);
+
+  if (batched && (body.length === 0 || body.length > MAX_GRAPHQL_BATCH_SIZE)) {
+    throw new ValidationError([
+      {
+        field: 'body',
+        code: body.length === 0 ? 'too_short' : 'too_long',
+        message: `A batch must hold between 1 and ${MAX_GRAPHQL_BATCH_SIZE} requests`,
+        params: { min: 1, max: MAX_GRAPHQL_BATCH_SIZE, unit: 'items' },
+      },
+    ]);
+  }
+
+  const requests = batched
+    ? body.map((item, i) => parseRequest(item, `[${i}].`, issues))
+    : [parseRequest(body, '', issues)];
+
+  if (issues.length > 0) {
+    throw new ValidationError(issues);
+  }
+
+  return { requests, batched };
+};
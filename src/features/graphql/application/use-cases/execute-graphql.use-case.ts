@@ -0,0 +1,175 @@
+import {
+  type DocumentNode,
+  execute,
+  type FormattedExecutionResult,
+  getOperationAST,
+  getVariableValues,
+  GraphQLError,
+  type GraphQLFormattedError,
+  type GraphQLSchema,
+  NoSchemaIntrospectionCustomRule,
+  parse,
+  specifiedRules,
+  validate,
+} from 'graphql';
+
+import type { Actor } from '@/features/users';
+
+import { measureGraphQLOperation } from '../../domain/services/measure-graphql-operation';
+import type { GraphQLRequest } from '../schemas/graphql-request.schema';
+
+// What every resolver receives
+export interface GraphQLContext {
+  actor: Actor;
+}
+
+export interface GraphQLLimits {
+  maxQueryLength: number;
+  maxDepth: number;
+  maxComplexity: number;
+}
+
+export type GraphQLResult = FormattedExecutionResult;
+
+export type ResponsePath = readonly (string | number)[];
+
+// Introspection is not served; the explorer shows the SDL instead
+const VALIDATION_RULES = [...specifiedRules, NoSchemaIntrospectionCustomRule];
+
+const withCode = (error: GraphQLError, code: string) =>
+  new GraphQLError(error.message, {
+    nodes: error.nodes,
+    source: error.source,
+    positions: error.positions,
+    path: error.path,
+    originalError: error.originalError,
+    extensions: { ...error.extensions, code },
+  });
+
+const failed = (...errors: GraphQLError[]): GraphQLResult => ({
+  errors: errors.map((error) => error.toJSON()),
+});
+
+const limitError = (message: string, code: string, extensions: Record<string, unknown>) =>
+  new GraphQLError(message, { extensions: { code, ...extensions } });
+
+export class ExecuteGraphQLUseCase {
+  constructor(
+    private readonly schema: GraphQLSchema,
+    private readonly limits: GraphQLLimits,
+    private readonly onUnexpectedError?: (error: unknown, path: ResponsePath) => void
+  ) {}
+
+  /**
+   * Parses, validates and runs one request for `actor`. Documents over the
+   * length, depth or complexity limits are rejected before anything is
+   * resolved. Request errors come back as a result without `data`.
+   */
+  async execute(actor: Actor, request: GraphQLRequest): Promise<GraphQLResult> {
+    const { maxQueryLength, maxDepth, maxComplexity } = this.limits;
+
+    if (request.query.length > maxQueryLength) {
+      return failed(
+        limitError(
+          `The query is ${request.query.length} characters long; the limit is ${maxQueryLength}.`,
+          'QUERY_TOO_LARGE',
+          { length: request.query.length, maxQueryLength }
+        )
+      );
+    }
+
+    let document: DocumentNode;
+
+    try {
+      document = parse(request.query);
+    } catch (error) {
+      if (!(error instanceof GraphQLError)) throw error;
+      return failed(withCode(error, 'GRAPHQL_PARSE_FAILED'));
+    }
+
+    const validationErrors = validate(this.schema, document, VALIDATION_RULES);
+
+    if (validationErrors.length > 0) {
+      return failed(
+        ...validationErrors.map((error) => withCode(error, 'GRAPHQL_VALIDATION_FAILED'))
+      );
+    }
+
+    const operation = getOperationAST(document, request.operationName);
+
+    if (!operation) {
+      return failed(
+        new GraphQLError(
+          request.operationName
+            ? `Unknown operation named "${request.operationName}".`
+            : 'Must provide operation name if query contains multiple operations.',
+          { extensions: { code: 'OPERATION_RESOLUTION_FAILURE' } }
+        )
+      );
+    }
+
+    const variables = getVariableValues(
+      this.schema,
+      operation.variableDefinitions ?? [],
+      request.variables ?? {}
+    );
+
+    if (variables.errors) {
+      return failed(...variables.errors.map((error) => withCode(error, 'BAD_USER_INPUT')));
+    }
+
+    const { depth, complexity } = measureGraphQLOperation(
+      this.schema,
+      document,
+      operation,
+      variables.coerced
+    );
+
+    if (depth > maxDepth) {
+      return failed(
+        limitError(
+          `The query is ${depth} levels deep; the limit is ${maxDepth}.`,
+          'QUERY_TOO_DEEP',
+          { depth, maxDepth }
+        )
+      );
+    }
+    if (complexity > maxComplexity) {
+      return failed(
+        limitError(
+          `The query may resolve ${complexity} fields; the limit is ${maxComplexity}.`,
+          'QUERY_TOO_COMPLEX',
+          { complexity, maxComplexity }
+        )
+      );
+    }
+
+    const result = await execute({
+      schema: this.schema,
+      document,
+      operationName: request.operationName,
+      variableValues: request.variables,
+      contextValue: { actor } satisfies GraphQLContext,
+    });
+
+    return {
+      data: result.data,
+      ...(result.errors && { errors: result.errors.map((error) => this.format(error)) }),
+    };
+  }
+
+  // Resolvers choose what clients see by throwing a `GraphQLError`; anything else is logged
+  private format(error: GraphQLError): GraphQLFormattedError {
+    const { originalError } = error;
+
+    if (!originalError || originalError instanceof GraphQLError) return error.toJSON();
+
+    this.onUnexpectedError?.(originalError, error.path ?? []);
+    return {
+      message: 'Unexpected error.',
+      locations: error.locations,
+      path: error.path,
+      extensions: { code: 'INTERNAL_SERVER_ERROR' },
+    };
+  }
+}
@@ -0,0 +1,114 @@
+import {
+  type DocumentNode,
+  type FragmentDefinitionNode,
+  getArgumentValues,
+  getNamedType,
+  getNullableType,
+  type GraphQLObjectType,
+  type GraphQLSchema,
+  isListType,
+  isObjectType,
+  Kind,
+  type OperationDefinitionNode,
+  type SelectionSetNode,
+} from 'graphql';
+
+declare module 'graphql' {
+  // Type parameters must match the declaration being merged
+  // eslint-disable-next-line @typescript-eslint/naming-convention, @typescript-eslint/no-explicit-any
+  interface GraphQLFieldExtensions<_TSource, _TContext, _TArgs = any> {
+    // How often the selection below is resolved, for the complexity limit.
+    // List fields default to `DEFAULT_LIST_SIZE`, other fields to 1.
+    multiplier?: (args: Record<string, unknown>) => number;
+  }
+}
+
+// Assumed length of a list field that does not say how long it is
+export const DEFAULT_LIST_SIZE = 10;
+
+export interface OperationCost {
+  // Levels of nested fields; `{ users { data { id } } }` has depth 3
+  depth: number;
+  // Fields that may be resolved, counting list items and fragment spreads
+  complexity: number;
+}
+
+const NO_COST: OperationCost = { depth: 0, complexity: 0 };
+
+const combine = (a: OperationCost, b: OperationCost): OperationCost => ({
+  depth: Math.max(a.depth, b.depth),
+  complexity: a.complexity + b.complexity,
+});
+
+/**
+ * Worst-case size of a validated operation, for depth and complexity limits
+ * checked before anything is resolved. `variables` are the coerced values;
+ * `@include`/`@skip` are ignored.
+ */
+export const measureGraphQLOperation = (
+  schema: GraphQLSchema,
+  document: DocumentNode,
+  operation: OperationDefinitionNode,
+  variables: Record<string, unknown>
+): OperationCost => {
+  const fragments = new Map(
+    document.definitions
+      .filter((definition) => definition.kind === Kind.FRAGMENT_DEFINITION)
+      .map((fragment: FragmentDefinitionNode) => [fragment.name.value, fragment])
+  );
+  // Fragments are measured once, so repeated spreads cost no extra time
+  const fragmentCosts = new Map<string, OperationCost>();
+
+  const typeOf = (name: string | undefined, fallback: GraphQLObjectType) => {
+    const type = name ? schema.getType(name) : fallback;
+    return isObjectType(type) ? type : fallback;
+  };
+
+  const measure = (parent: GraphQLObjectType, selectionSet: SelectionSetNode): OperationCost =>
+    selectionSet.selections.reduce<OperationCost>((total, selection) => {
+      if (selection.kind === Kind.INLINE_FRAGMENT) {
+        const type = typeOf(selection.typeCondition?.name.value, parent);
+        return combine(total, measure(type, selection.selectionSet));
+      }
+      if (selection.kind === Kind.FRAGMENT_SPREAD) {
+        const name = selection.name.value;
+        const fragment = fragments.get(name);
+
+        if (!fragment) return total;
+        if (!fragmentCosts.has(name)) {
+          const type = typeOf(fragment.typeCondition.name.value, parent);
+          fragmentCosts.set(name, measure(type, fragment.selectionSet));
+        }
+        return combine(total, fragmentCosts.get(name) ?? NO_COST);
+      }
+
+      const field = parent.getFields()[selection.name.value];
+
+      // `__typename`
+      if (!field) return combine(total, { depth: 1, complexity: 1 });
+
+      const child = getNamedType(field.type);
+      const below =
+        isObjectType(child) && selection.selectionSet
+          ? measure(child, selection.selectionSet)
+          : NO_COST;
+      let args: Record<string, unknown> = {};
+
+      try {
+        args = getArgumentValues(field, selection, variables);
+      } catch {
+        // Invalid arguments fail when the field is resolved; measure with defaults
+      }
+
+      const multiplier =
+        field.extensions.multiplier?.(args) ??
+        (isListType(getNullableType(field.type)) ? DEFAULT_LIST_SIZE : 1);
+      return combine(total, {
+        depth: below.depth + 1,
+        complexity: 1 + multiplier * below.complexity,
+      });
+    }, NO_COST);
+
+  const root = schema.getRootType(operation.operation);
+  return root ? measure(root, operation.selectionSet) : NO_COST;
+};
@@ -0,0 +1,29 @@
+// Domain
+export {
+  DEFAULT_LIST_SIZE,
+  measureGraphQLOperation,
+  type OperationCost,
+} from './domain/services/measure-graphql-operation';
+
+// Application
+export * from './application/schemas/graphql-request.schema';
+export {
+  ExecuteGraphQLUseCase,
+  type GraphQLContext,
+  type GraphQLLimits,
+  type GraphQLResult,
+  type ResponsePath,
+} from './application/use-cases/execute-graphql.use-case';
+
+// Infrastructure
+export { buildGraphQLSchema, type GraphQLFragment } from './infrastructure/schema/graphql-fragment';
+export { usersGraphQL } from './infrastructure/schema/users.graphql';
+export {
+  getGraphQLLimits,
+  getGraphQLSchema,
+  isGraphQLExplorerEnabled,
+} from './infrastructure/config/graphql';
+export { graphqlOpenApi } from './infrastructure/openapi/graphql.openapi';
+
+// Presentation
+export { GraphQLExplorer } from './presentation/components/graphql-explorer';
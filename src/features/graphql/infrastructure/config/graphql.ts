@@ -0,0 +1,35 @@
+import type { GraphQLSchema } from 'graphql';
+
+import type { GraphQLLimits } from '../../application/use-cases/execute-graphql.use-case';
+import { buildGraphQLSchema } from '../schema/graphql-fragment';
+import { usersGraphQL } from '../schema/users.graphql';
+
+const DEFAULT_MAX_QUERY_LENGTH = 10_000;
+const DEFAULT_MAX_DEPTH = 6;
+const DEFAULT_MAX_COMPLEXITY = 1_000;
+
+const positiveInteger = (value: string | undefined, fallback: number) => {
+  const number = Number(value ?? fallback);
+  return Number.isInteger(number) && number > 0 ? number : fallback;
+};
+
+// `GRAPHQL_MAX_QUERY_LENGTH` (characters), `GRAPHQL_MAX_DEPTH` and `GRAPHQL_MAX_COMPLEXITY`
+export const getGraphQLLimits = (): GraphQLLimits => ({
+  maxQueryLength: positiveInteger(process.env.GRAPHQL_MAX_QUERY_LENGTH, DEFAULT_MAX_QUERY_LENGTH),
+  maxDepth: positiveInteger(process.env.GRAPHQL_MAX_DEPTH, DEFAULT_MAX_DEPTH),
+  maxComplexity: positiveInteger(process.env.GRAPHQL_MAX_COMPLEXITY, DEFAULT_MAX_COMPLEXITY),
+});
+
+// The explorer is a development tool; production needs an explicit opt-in
+export const isGraphQLExplorerEnabled = () =>
+  process.env.NODE_ENV !== 'production' || process.env.GRAPHQL_EXPLORER === 'true';
+
+let graphQLSchema: GraphQLSchema | undefined;
+
+/**
+ * The schema of `/api/graphql`, assembled from one fragment per feature.
+ */
+export const getGraphQLSchema = (): GraphQLSchema => {
+  graphQLSchema ??= buildGraphQLSchema([usersGraphQL]);
+  return graphQLSchema;
+};
@@ -0,0 +1,109 @@
+import { componentRef } from '@/shared/openapi/build-openapi-document';
+import type { JsonSchema, OpenApiFragment } from '@/shared/openapi/openapi.types';
+
+import { MAX_GRAPHQL_BATCH_SIZE } from '../../application/schemas/graphql-request.schema';
+
+const schemaRef = (name: string) => componentRef('schemas', name);
+const responseRef = (name: string) => componentRef('responses', name);
+
+const batchOf = (schema: JsonSchema): JsonSchema => ({
+  type: 'array',
+  items: schema,
+  minItems: 1,
+  maxItems: MAX_GRAPHQL_BATCH_SIZE,
+});
+
+export const graphqlOpenApi: OpenApiFragment = {
+  tags: [{ name: 'GraphQL', description: 'The users API as a GraphQL schema' }],
+  paths: {
+    '/api/graphql': {
+      post: {
+        operationId: 'executeGraphQL',
+        summary: 'Run a GraphQL query or mutation',
+        description: `Send one request, or an array of up to ${MAX_GRAPHQL_BATCH_SIZE} to get an array of results in the same order. Operations over the depth or complexity limit fail with \`QUERY_TOO_DEEP\` or \`QUERY_TOO_COMPLEX\` before anything runs. Errors are reported in \`errors\` with a 200 status; \`extensions.code\` is \`BAD_USER_INPUT\`, \`FORBIDDEN\` or \`CONFLICT\` where the REST routes answer 422, 403 or 412.`,
+        tags: ['GraphQL'],
+        parameters: [componentRef('parameters', 'IdempotencyKey')],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                oneOf: [schemaRef('GraphQLRequest'), batchOf(schemaRef('GraphQLRequest'))],
+              },
+              example: {
+                query:
+                  'query Admins($limit: Int) { users(role: [Admin], limit: $limit) { data { id name } total } }',
+                variables: { limit: 5 },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'The result, or one per request of a batch',
+            content: {
+              'application/json': {
+                schema: {
+                  oneOf: [schemaRef('GraphQLResult'), batchOf(schemaRef('GraphQLResult'))],
+                },
+              },
+            },
+          },
+          '400': responseRef('InvalidBody'),
+          '401': responseRef('Unauthorized'),
+          '409': responseRef('IdempotencyConflict'),
+          '422': responseRef('ValidationFailed'),
+          '429': responseRef('TooManyRequests'),
+        },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      GraphQLRequest: {
+        type: 'object',
+        properties: {
+          query: { type: 'string' },
+          variables: { type: 'object', additionalProperties: true },
+          operationName: { type: 'string', description: 'Required if `query` has several' },
+        },
+        required: ['query'],
+      },
+      GraphQLResult: {
+        type: 'object',
+        properties: {
+          data: {
+            description: 'Absent if the request failed before execution',
+            oneOf: [{ type: 'object', additionalProperties: true }, { type: 'null' }],
+          },
+          errors: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                message: { type: 'string' },
+                locations: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: { line: { type: 'integer' }, column: { type: 'integer' } },
+                  },
+                },
+                path: {
+                  type: 'array',
+                  items: { oneOf: [{ type: 'string' }, { type: 'integer' }] },
+                },
+                extensions: {
+                  type: 'object',
+                  properties: { code: { type: 'string' } },
+                  additionalProperties: true,
+                },
+              },
+              required: ['message'],
+            },
+          },
+        },
+      },
+    },
+  },
+};
@@ -0,0 +1,50 @@
+import {
+  assertValidSchema,
+  type GraphQLFieldConfigMap,
+  type GraphQLNamedType,
+  GraphQLObjectType,
+  GraphQLSchema,
+} from 'graphql';
+
+// What a feature contributes to the schema
+export interface GraphQLFragment<TContext> {
+  // Types only reachable through the fields below need not be listed
+  types?: GraphQLNamedType[];
+  query?: GraphQLFieldConfigMap<unknown, TContext>;
+  mutation?: GraphQLFieldConfigMap<unknown, TContext>;
+}
+
+const mergeFields = <TContext>(
+  operation: 'Query' | 'Mutation',
+  fragments: GraphQLFragment<TContext>[]
+): GraphQLFieldConfigMap<unknown, TContext> =>
+  fragments.reduce<GraphQLFieldConfigMap<unknown, TContext>>((fields, fragment) => {
+    const added = (operation === 'Query' ? fragment.query : fragment.mutation) ?? {};
+    const duplicate = Object.keys(added).find((name) => name in fields);
+
+    if (duplicate) throw new Error(`GraphQL field ${operation}.${duplicate} is defined twice`);
+
+    return { ...fields, ...added };
+  }, {});
+
+/**
+ * Merges feature fragments into one schema with `Query` and (when any
+ * fragment has mutations) `Mutation` root types. Duplicate fields and an
+ * invalid schema are programming errors and throw.
+ */
+export const buildGraphQLSchema = <TContext>(
+  fragments: GraphQLFragment<TContext>[]
+): GraphQLSchema => {
+  const mutationFields = mergeFields('Mutation', fragments);
+  const schema = new GraphQLSchema({
+    query: new GraphQLObjectType({ name: 'Query', fields: mergeFields('Query', fragments) }),
+    mutation:
+      Object.keys(mutationFields).length > 0
+        ? new GraphQLObjectType({ name: 'Mutation', fields: mutationFields })
+        : undefined,
+    types: fragments.flatMap((fragment) => fragment.types ?? []),
+  });
+
+  assertValidSchema(schema);
+  return schema;
+};
@@ -0,0 +1,299 @@
+import {
+  GraphQLBoolean,
+  GraphQLEnumType,
+  GraphQLError,
+  GraphQLInputObjectType,
+  GraphQLInt,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLObjectType,
+  GraphQLString,
+} from 'graphql';
+
+import {
+  type CreateUserCommand,
+  createUserSchema,
+  CreateUserUseCase,
+  DEFAULT_PAGE_SIZE,
+  DeleteUserUseCase,
+  GetUserHistoryUseCase,
+  getUserRepository,
+  GetUserUseCase,
+  ListUsersUseCase,
+  parseListUsersQuery,
+  RestoreUserUseCase,
+  type UpdateUserCommand,
+  UpdateUserUseCase,
+  type User,
+  USER_AUDIT_ACTIONS,
+  USER_ROLES,
+  USER_SORT_FIELDS,
+  UserAccessDeniedError,
+  type UserAuditEntry,
+  type UserId,
+  type UserPage,
+  type UserRole,
+  type UserSort,
+  UserVersionConflictError,
+} from '@/features/users';
+
+import { ValidationError } from '@/shared/validation/schema';
+
+import type { GraphQLContext } from '../../application/use-cases/execute-graphql.use-case';
+import type { GraphQLFragment } from './graphql-fragment';
+
+interface ListUsersArgs {
+  q?: string | null;
+  role?: UserRole[] | null;
+  deleted?: boolean;
+  sort?: UserSort[] | null;
+  limit: number;
+  cursor?: string | null;
+}
+
+interface WriteArgs {
+  id: UserId;
+  expectedVersion?: number | null;
+}
+
+// The same errors the REST routes turn into problem details
+const toGraphQLError = (error: unknown) => {
+  if (error instanceof ValidationError) {
+    return new GraphQLError(error.message, {
+      extensions: { code: 'BAD_USER_INPUT', errors: error.issues },
+    });
+  }
+  if (error instanceof UserAccessDeniedError) {
+    return new GraphQLError(error.message, { extensions: { code: 'FORBIDDEN' } });
+  }
+  if (error instanceof UserVersionConflictError) {
+    return new GraphQLError(error.message, {
+      extensions: { code: 'CONFLICT', currentVersion: error.actualVersion },
+    });
+  }
+  return error;
+};
+
+const resolving = async <T>(run: () => T | Promise<T>): Promise<T> => {
+  try {
+    return await run();
+  } catch (error) {
+    throw toGraphQLError(error);
+  }
+};
+
+const writeOptions = ({ expectedVersion }: WriteArgs) =>
+  typeof expectedVersion === 'number' ? { expectedVersion } : {};
+
+// Validated exactly like `GET /api/users` query parameters
+const toListUsersQuery = ({ q, role, deleted, sort, limit, cursor }: ListUsersArgs) => {
+  const params = new URLSearchParams({ limit: String(limit) });
+
+  if (q) params.set('q', q);
+  role?.forEach((value) => params.append('role', value));
+  if (deleted) params.set('deleted', 'true');
+  if (sort?.length) {
+    params.set(
+      'sort',
+      sort.map(({ field, direction }) => `${direction === 'desc' ? '-' : ''}${field}`).join(',')
+    );
+  }
+  if (cursor) params.set('cursor', cursor);
+
+  return parseListUsersQuery(params);
+};
+
+const enumOf = (name: string, values: readonly string[]) =>
+  new GraphQLEnumType({
+    name,
+    values: Object.fromEntries(values.map((value) => [value, { value }])),
+  });
+
+const Role = enumOf('Role', USER_ROLES);
+const UserSortField = enumOf('UserSortField', USER_SORT_FIELDS);
+const SortDirection = enumOf('SortDirection', ['asc', 'desc']);
+const UserAuditAction = enumOf('UserAuditAction', USER_AUDIT_ACTIONS);
+
+const UserFieldChange = new GraphQLObjectType({
+  name: 'UserFieldChange',
+  fields: {
+    field: { type: new GraphQLNonNull(GraphQLString) },
+    from: { type: GraphQLString },
+    to: { type: GraphQLString },
+  },
+});
+
+const UserAuditEntryType = new GraphQLObjectType<UserAuditEntry, GraphQLContext>({
+  name: 'UserAuditEntry',
+  fields: {
+    action: { type: new GraphQLNonNull(UserAuditAction) },
+    actorId: { type: GraphQLInt, description: 'Null for changes not made by a signed-in user' },
+    occurredAt: { type: new GraphQLNonNull(GraphQLString) },
+    version: {
+      type: new GraphQLNonNull(GraphQLInt),
+      description: "The user's version after the change",
+    },
+    changes: { type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(UserFieldChange))) },
+  },
+});
+
+const UserType = new GraphQLObjectType<User, GraphQLContext>({
+  name: 'User',
+  fields: {
+    id: { type: new GraphQLNonNull(GraphQLInt) },
+    name: { type: new GraphQLNonNull(GraphQLString) },
+    email: { type: new GraphQLNonNull(GraphQLString) },
+    role: { type: new GraphQLNonNull(Role) },
+    version: { type: new GraphQLNonNull(GraphQLInt), description: 'Incremented on every write' },
+    deletedAt: { type: GraphQLString, description: 'ISO timestamp of the soft delete' },
+    history: {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(UserAuditEntryType))),
+      description: 'Changes to the user, oldest first',
+      resolve: (user, args, { actor }) =>
+        resolving(
+          async () =>
+            (await new GetUserHistoryUseCase(getUserRepository()).execute(actor, user.id)) ?? []
+        ),
+    },
+  },
+});
+
+const UserPageType = new GraphQLObjectType<UserPage, GraphQLContext>({
+  name: 'UserPage',
+  fields: {
+    // Counted once per user by the `users(limit:)` complexity
+    data: {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(UserType))),
+      extensions: { multiplier: () => 1 },
+    },
+    total: {
+      type: new GraphQLNonNull(GraphQLInt),
+      description: 'Users matching the filters, on all pages',
+    },
+    nextCursor: { type: GraphQLString, description: 'Pass as `cursor` for the next page' },
+  },
+});
+
+const UserSortInput = new GraphQLInputObjectType({
+  name: 'UserSort',
+  fields: {
+    field: { type: new GraphQLNonNull(UserSortField) },
+    direction: { type: SortDirection, defaultValue: 'asc' },
+  },
+});
+
+const CreateUserInput = new GraphQLInputObjectType({
+  name: 'CreateUserInput',
+  fields: {
+    name: {
+      type: new GraphQLNonNull(GraphQLString),
+      description: createUserSchema.fields.name.description,
+    },
+    email: {
+      type: new GraphQLNonNull(GraphQLString),
+      description: createUserSchema.fields.email.description,
+    },
+    role: { type: Role, description: createUserSchema.fields.role.description },
+  },
+});
+
+const UpdateUserInput = new GraphQLInputObjectType({
+  name: 'UpdateUserInput',
+  description: 'Only the given fields are changed',
+  fields: {
+    name: { type: GraphQLString },
+    email: { type: GraphQLString },
+    role: { type: Role },
+  },
+});
+
+const expectedVersion = {
+  type: GraphQLInt,
+  description: 'Fails with CONFLICT if stale',
+};
+
+/**
+ * Users in the GraphQL API. Resolvers run the same use-cases, and so the same
+ * validation and access rules, as the REST routes.
+ */
+export const usersGraphQL: GraphQLFragment<GraphQLContext> = {
+  query: {
+    me: {
+      type: UserType,
+      description: 'The signed-in user',
+      resolve: (parent, args, { actor }) =>
+        resolving(() => new GetUserUseCase(getUserRepository()).execute(actor, actor.id)),
+    },
+    user: {
+      type: UserType,
+      args: { id: { type: new GraphQLNonNull(GraphQLInt) } },
+      resolve: (parent, { id }: { id: UserId }, { actor }) =>
+        resolving(() => new GetUserUseCase(getUserRepository()).execute(actor, id)),
+    },
+    users: {
+      type: new GraphQLNonNull(UserPageType),
+      description: 'Searches, filters, sorts and pages users like `GET /api/users`',
+      args: {
+        q: { type: GraphQLString, description: 'Matches name or email' },
+        role: { type: new GraphQLList(new GraphQLNonNull(Role)) },
+        deleted: {
+          type: GraphQLBoolean,
+          defaultValue: false,
+          description: 'Only soft-deleted users',
+        },
+        sort: { type: new GraphQLList(new GraphQLNonNull(UserSortInput)) },
+        limit: { type: GraphQLInt, defaultValue: DEFAULT_PAGE_SIZE },
+        cursor: { type: GraphQLString, description: '`nextCursor` of the previous page' },
+      },
+      resolve: (parent, args: ListUsersArgs, { actor }) =>
+        resolving(() =>
+          new ListUsersUseCase(getUserRepository()).execute(actor, toListUsersQuery(args))
+        ),
+      extensions: {
+        multiplier: ({ limit }) => (typeof limit === 'number' ? limit : DEFAULT_PAGE_SIZE),
+      },
+    },
+  },
+  mutation: {
+    createUser: {
+      type: new GraphQLNonNull(UserType),
+      args: { input: { type: new GraphQLNonNull(CreateUserInput) } },
+      resolve: (parent, { input }: { input: CreateUserCommand }, { actor }) =>
+        resolving(() => new CreateUserUseCase(getUserRepository()).execute(actor, input)),
+    },
+    updateUser: {
+      type: UserType,
+      description: 'Null if the user does not exist',
+      args: {
+        id: { type: new GraphQLNonNull(GraphQLInt) },
+        input: { type: new GraphQLNonNull(UpdateUserInput) },
+        expectedVersion,
+      },
+      resolve: (parent, args: WriteArgs & { input: UpdateUserCommand }, { actor }) =>
+        resolving(() =>
+          new UpdateUserUseCase(getUserRepository()).execute(
+            actor,
+            args.id,
+            args.input,
+            writeOptions(args)
+          )
+        ),
+    },
+    deleteUser: {
+      type: new GraphQLNonNull(GraphQLBoolean),
+      description: 'Soft-deletes a user; false if the user does not exist',
+      args: { id: { type: new GraphQLNonNull(GraphQLInt) }, expectedVersion },
+      resolve: (parent, args: WriteArgs, { actor }) =>
+        resolving(() =>
+          new DeleteUserUseCase(getUserRepository()).execute(actor, args.id, writeOptions(args))
+        ),
+    },
+    restoreUser: {
+      type: UserType,
+      description: 'Undoes a soft delete; null if the user does not exist',
+      args: { id: { type: new GraphQLNonNull(GraphQLInt) } },
+      resolve: (parent, { id }: { id: UserId }, { actor }) =>
+        resolving(() => new RestoreUserUseCase(getUserRepository()).execute(actor, id)),
+    },
+  },
+};
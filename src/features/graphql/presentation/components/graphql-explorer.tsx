@@ -0,0 +1,171 @@
+'use client';
+
+import { useState } from 'react';
+
+import { useTranslations } from 'next-intl';
+
+import { SignInPanel } from '@/features/auth/presentation/components/sign-in-panel';
+import { useAccessToken } from '@/features/auth/presentation/hooks/use-access-token';
+
+interface GraphQLExplorerProps {
+  // The schema in SDL, shown next to the editor
+  schema: string;
+}
+
+const EXAMPLE_QUERY = `query Users($limit: Int) {
+  users(limit: $limit, sort: [{ field: name }]) {
+    total
+    nextCursor
+    data {
+      id
+      name
+      email
+      role
+    }
+  }
+}
+`;
+
+const textareaClass =
+  'text-foreground w-full rounded-lg border border-gray-300 bg-white px-3 py-2 font-mono text-sm dark:border-gray-600 dark:bg-gray-700';
+
+/**
+ * Sends GraphQL requests to `/api/graphql` with the token of the signed-in
+ * identity. Development only.
+ */
+export const GraphQLExplorer: React.FC<GraphQLExplorerProps> = ({ schema }) => {
+  const t = useTranslations('GraphQLExplorer');
+  const { session, signIn, signOut } = useAccessToken();
+  const [signInError, setSignInError] = useState('');
+  const [query, setQuery] = useState(EXAMPLE_QUERY);
+  const [variables, setVariables] = useState('{\n  "limit": 5\n}');
+  const [result, setResult] = useState('');
+  const [error, setError] = useState('');
+  const [running, setRunning] = useState(false);
+
+  const run = async () => {
+    let parsedVariables: unknown;
+
+    setError('');
+    try {
+      parsedVariables = variables.trim() ? JSON.parse(variables) : undefined;
+    } catch {
+      setError(t('invalidVariables'));
+      return;
+    }
+
+    setRunning(true);
+    try {
+      const response = await fetch('/api/graphql', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(session && { Authorization: `Bearer ${session.accessToken}` }),
+        },
+        body: JSON.stringify({ query, variables: parsedVariables }),
+      });
+
+      setResult(JSON.stringify(await response.json(), null, 2));
+    } catch (err) {
+      setError(t('requestFailed'));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        {signInError && (
+          <p className="mb-4 rounded-lg bg-red-100 p-4 text-red-700 dark:bg-red-900/20 dark:text-red-400">
+            {signInError}
+          </p>
+        )}
+        <SignInPanel
+          session={session}
+          onSignIn={(email) => {
+            setSignInError('');
+            signIn(email)
+              .then((signedIn) => {
+                if (!signedIn) setSignInError(t('signInFailed', { email }));
+              })
+              .catch((err) => {
+                console.error('Error signing in:', err);
+              });
+          }}
+          onSignOut={signOut}
+        />
+      </div>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          run().catch((err) => {
+            console.error('Error running query:', err);
+          });
+        }}
+        className="grid gap-4 lg:grid-cols-2"
+      >
+        <div className="space-y-3">
+          <div>
+            {/* eslint-disable-next-line jsx-a11y/label-has-associated-control */}
+            <label htmlFor="graphql-query" className="text-foreground mb-1 block text-sm">
+              {t('query')}
+            </label>
+            <textarea
+              id="graphql-query"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              // Ctrl/Cmd+Enter runs the query
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+                  e.preventDefault();
+                  e.currentTarget.form?.requestSubmit();
+                }
+              }}
+              rows={16}
+              spellCheck={false}
+              className={textareaClass}
+            />
+          </div>
+          <div>
+            {/* eslint-disable-next-line jsx-a11y/label-has-associated-control */}
+            <label htmlFor="graphql-variables" className="text-foreground mb-1 block text-sm">
+              {t('variables')}
+            </label>
+            <textarea
+              id="graphql-variables"
+              value={variables}
+              onChange={(e) => setVariables(e.target.value)}
+              rows={4}
+              spellCheck={false}
+              className={textareaClass}
+            />
+          </div>
+          {!session && (
+            <p className="text-sm text-amber-700 dark:text-amber-400">{t('signInHint')}</p>
+          )}
+          <button
+            type="submit"
+            disabled={running}
+            className="rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {running ? t('running') : t('run')}
+          </button>
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+        </div>
+        <div aria-live="polite">
+          <p className="text-foreground mb-1 text-sm">{t('result')}</p>
+          <pre className="max-h-[32rem] min-h-64 overflow-auto rounded-lg bg-white p-3 text-xs dark:bg-gray-900">
+            {result}
+          </pre>
+        </div>
+      </form>
+
+      <details className="rounded-lg bg-gray-100 p-4 dark:bg-gray-800">
+        <summary className="text-foreground cursor-pointer font-semibold">{t('schema')}</summary>
+        <pre className="mt-3 overflow-x-auto text-xs">{schema}</pre>
+      </details>
+    </div>
+  );
+};
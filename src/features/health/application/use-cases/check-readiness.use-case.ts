@@ -0,0 +1,47 @@
+import type {
+  HealthCheck,
+  HealthCheckResult,
+  HealthReport,
+} from '../../domain/entities/health-check.entity';
+
+const withTimeout = (promise: Promise<void>, timeoutMs: number) => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((resolve, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs} ms`)), timeoutMs);
+  });
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+};
+
+export class CheckReadinessUseCase {
+  constructor(
+    private readonly checks: readonly HealthCheck[],
+    private readonly timeoutMs: number
+  ) {}
+
+  /**
+   * Runs every check concurrently; the app is ready only if all of them pass
+   * within the timeout. Never rejects: failures are reported per check.
+   */
+  async execute(): Promise<HealthReport> {
+    const checks = await Promise.all(
+      this.checks.map(async ({ name, run }): Promise<HealthCheckResult> => {
+        const started = performance.now();
+        const durationMs = () => Math.round(performance.now() - started);
+
+        try {
+          await withTimeout(run(), this.timeoutMs);
+          return { name, status: 'pass', durationMs: durationMs() };
+        } catch (error) {
+          const output = error instanceof Error ? error.message : String(error);
+          return { name, status: 'fail', durationMs: durationMs(), output };
+        }
+      })
+    );
+
+    return {
+      status: checks.every((check) => check.status === 'pass') ? 'pass' : 'fail',
+      checks,
+    };
+  }
+}
@@ -0,0 +1,23 @@
+export const HEALTH_CONTENT_TYPE = 'application/health+json';
+
+// `pass`/`fail` as in the IETF "Health Check Response Format for HTTP APIs" draft
+export type HealthStatus = 'pass' | 'fail';
+
+// A dependency the app needs to serve requests; rejects when it is unusable
+export interface HealthCheck {
+  name: string;
+  run: () => Promise<void>;
+}
+
+export interface HealthCheckResult {
+  name: string;
+  status: HealthStatus;
+  durationMs: number;
+  // Why the check failed
+  output?: string;
+}
+
+export interface HealthReport {
+  status: HealthStatus;
+  checks: HealthCheckResult[];
+}
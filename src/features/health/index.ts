@@ -0,0 +1,9 @@
+// Domain
+export * from './domain/entities/health-check.entity';
+
+// Application
+export { CheckReadinessUseCase } from './application/use-cases/check-readiness.use-case';
+
+// Infrastructure
+export { getReadinessChecks, READINESS_TIMEOUT_MS } from './infrastructure/config/readiness-checks';
+export { healthOpenApi } from './infrastructure/openapi/health.openapi';
@@ -0,0 +1,29 @@
+import { loadMessages, SUPPORTED_LOCALES } from '@/features/i18n';
+import { getUserRepository } from '@/features/users';
+
+import type { HealthCheck } from '../../domain/entities/health-check.entity';
+
+export const READINESS_TIMEOUT_MS = 3_000;
+
+export const getReadinessChecks = (): HealthCheck[] => [
+  {
+    name: 'users:repository',
+    run: async () => {
+      await getUserRepository().findAll();
+    },
+  },
+  {
+    name: 'i18n:messages',
+    run: async () => {
+      await Promise.all(
+        SUPPORTED_LOCALES.map(async ({ code }) => {
+          const messages = await loadMessages(code);
+
+          if (Object.keys(messages).length === 0) {
+            throw new Error(`The "${code}" message catalog is empty`);
+          }
+        })
+      );
+    },
+  },
+];
@@ -0,0 +1,92 @@
+import { PROMETHEUS_CONTENT_TYPE } from '@/features/observability';
+
+import { problemResponseObject } from '@/shared/http/problem-details.openapi';
+import { componentRef } from '@/shared/openapi/build-openapi-document';
+import type { OpenApiFragment } from '@/shared/openapi/openapi.types';
+
+import { HEALTH_CONTENT_TYPE } from '../../domain/entities/health-check.entity';
+
+const healthResponse = (description: string) => ({
+  description,
+  content: { [HEALTH_CONTENT_TYPE]: { schema: componentRef('schemas', 'HealthReport') } },
+});
+
+export const healthOpenApi: OpenApiFragment = {
+  tags: [
+    { name: 'Operations', description: 'Probes for load balancers and metrics for monitoring' },
+  ],
+  paths: {
+    '/api/health': {
+      get: {
+        operationId: 'checkHealth',
+        summary: 'Liveness probe',
+        description: 'Answers as long as the server is running; checks no dependencies.',
+        tags: ['Operations'],
+        security: [],
+        responses: { '200': healthResponse('The server is running') },
+      },
+    },
+    '/api/ready': {
+      get: {
+        operationId: 'checkReadiness',
+        summary: 'Readiness probe',
+        description:
+          'Checks that the users repository and the message catalogs load. Take the instance out of rotation while it answers 503.',
+        tags: ['Operations'],
+        security: [],
+        responses: {
+          '200': healthResponse('Ready to serve requests'),
+          '503': healthResponse('At least one check failed (see `checks`)'),
+        },
+      },
+    },
+    '/api/metrics': {
+      get: {
+        operationId: 'getMetrics',
+        summary: 'Prometheus metrics',
+        description:
+          'Request counts and latency per route and status, requests in flight, and users by role. Requires the metrics token when `METRICS_TOKEN` is set.',
+        tags: ['Operations'],
+        security: [{ metricsToken: [] }],
+        responses: {
+          '200': {
+            description: 'Metrics in the Prometheus text format',
+            content: { [PROMETHEUS_CONTENT_TYPE]: { schema: { type: 'string' } } },
+          },
+          '401': problemResponseObject('Missing or wrong metrics token'),
+        },
+      },
+    },
+  },
+  components: {
+    securitySchemes: {
+      metricsToken: {
+        type: 'http',
+        scheme: 'bearer',
+        description: 'The value of `METRICS_TOKEN`',
+      },
+    },
+    schemas: {
+      HealthReport: {
+        type: 'object',
+        properties: {
+          status: { type: 'string', enum: ['pass', 'fail'] },
+          checks: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                name: { type: 'string' },
+                status: { type: 'string', enum: ['pass', 'fail'] },
+                durationMs: { type: 'integer' },
+                output: { type: 'string', description: 'Why the check failed' },
+              },
+              required: ['name', 'status', 'durationMs'],
+            },
+          },
+        },
+        required: ['status'],
+      },
+    },
+  },
+};
@@ -9,6 +9,8 @@ export class SwitchLocaleUseCase {
       throw new Error(`Invalid locale: ${String(locale)}`);
     }
 
+    // Saved first, so the next visit without a locale in the URL uses it too
+    this.localeRepository.savePreferredLocale(locale);
     this.localeRepository.setLocale(locale);
   }
 }
@@ -54,8 +54,10 @@
 //   },
 // ];
 
-export type LocaleCode = 'en' | 'th';
+export type LocaleCode = 'en' | 'th' | 'ar';
 export type TextDirection = 'ltr' | 'rtl';
+// Calendar used for dates; Thai can count years in the Buddhist Era (พ.ศ.)
+export type Calendar = 'gregory' | 'buddhist';
 
 export interface Locale {
   code: LocaleCode;
@@ -63,6 +65,7 @@ export interface Locale {
   nativeName: string;
   flag: string;
   direction: TextDirection;
+  calendar: Calendar;
 }
 
 export const SUPPORTED_LOCALES: readonly Locale[] = [
@@ -72,6 +75,7 @@ export const SUPPORTED_LOCALES: readonly Locale[] = [
     nativeName: 'English',
     flag: '/flags/us.svg',
     direction: 'ltr',
+    calendar: 'gregory',
   },
   {
     code: 'th',
@@ -79,6 +83,15 @@ export const SUPPORTED_LOCALES: readonly Locale[] = [
     nativeName: 'ไทย',
     flag: '/flags/th.svg',
     direction: 'ltr',
+    calendar: 'buddhist',
+  },
+  {
+    code: 'ar',
+    name: 'Arabic',
+    nativeName: 'العربية',
+    flag: '/flags/sa.svg',
+    direction: 'rtl',
+    calendar: 'gregory',
   },
 ];
 
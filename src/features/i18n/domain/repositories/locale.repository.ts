@@ -3,5 +3,8 @@ import type { LocaleCode } from '../entities/locale.entity';
 export interface LocaleRepository {
   getCurrentLocale(): LocaleCode;
   setLocale(locale: LocaleCode): void;
+  // The locale the user chose last, if any
+  getPreferredLocale(): LocaleCode | undefined;
+  savePreferredLocale(locale: LocaleCode): void;
   isValidLocale(locale: string): locale is LocaleCode;
 }
@@ -0,0 +1,45 @@
+import { DEFAULT_LOCALE, type LocaleCode, SUPPORTED_LOCALES } from '../entities/locale.entity';
+
+export const isLocaleCode = (value: unknown): value is LocaleCode =>
+  SUPPORTED_LOCALES.some((locale) => locale.code === value);
+
+// `th-TH` falls back to `th`; tags are case-insensitive
+const supportedLocaleOf = (tag: string) => {
+  const [language] = tag.toLowerCase().split('-');
+  return SUPPORTED_LOCALES.find(({ code }) => code === tag.toLowerCase() || code === language)
+    ?.code;
+};
+
+/**
+ * The supported locale a list of language ranges prefers most, such as an
+ * `Accept-Language` header (`th-TH,th;q=0.9,en;q=0.8`). Ranges are tried by
+ * quality, then in the order given; `undefined` if none is supported.
+ */
+export const negotiateLocale = (ranges: string | null | undefined): LocaleCode | undefined =>
+  (ranges ?? '')
+    .split(',')
+    .map((range, index) => {
+      const [tag, ...parameters] = range.split(';').map((part) => part.trim());
+      const quality = parameters.find((parameter) => parameter.startsWith('q='));
+      return { tag, quality: quality ? Number(quality.slice(2)) : 1, index };
+    })
+    .filter(({ tag, quality }) => tag && tag !== '*' && quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index)
+    .map(({ tag }) => supportedLocaleOf(tag))
+    .find((locale) => locale !== undefined);
+
+export interface LocaleSources {
+  // The locale segment of the URL
+  url?: string | null;
+  // The locale the user chose before
+  preference?: string | null;
+  acceptLanguage?: string | null;
+}
+
+/**
+ * The locale to use: the one in the URL, else the saved preference, else the
+ * best supported match for `Accept-Language`, else the default locale.
+ * Unsupported values are skipped.
+ */
+export const resolveLocale = ({ url, preference, acceptLanguage }: LocaleSources): LocaleCode =>
+  [url, preference].find(isLocaleCode) ?? negotiateLocale(acceptLanguage) ?? DEFAULT_LOCALE;
@@ -1,6 +1,7 @@
 // Domain
 export * from './domain/entities/locale.entity';
 export type { LocaleRepository } from './domain/repositories/locale.repository';
+export * from './domain/services/negotiate-locale';
 
 // Application
 export { GetCurrentLocaleUseCase } from './application/use-cases/get-current-locale.use-case';
@@ -9,7 +10,22 @@ export { SwitchLocaleUseCase } from './application/use-cases/switch-locale.use-c
 // Infrastructure
 export { NextLocaleRepository } from './infrastructure/repositories/next-locale.repository';
 export { routing } from './infrastructure/config/routing';
+export { loadMessages, type Messages } from './infrastructure/config/messages';
+export { type AppFormats, createFormats } from './infrastructure/config/formats';
+export {
+  createFormatPresets,
+  type CurrencyCode,
+  type FormatPresets,
+} from './infrastructure/formatting/format-presets';
+export { getFormatPresets } from './infrastructure/formatting/get-format-presets';
+export {
+  API_LOCALE_PARAM,
+  type ApiErrorLocalizer,
+  getApiErrorLocalizer,
+  resolveApiLocale,
+} from './infrastructure/http/api-error-localizer';
 
 // Presentation
 export { LocaleSwitcher } from './presentation/components/locale-switcher';
 export { useLocaleSwitcher } from './presentation/hooks/use-locale-switcher';
+export { useFormatPresets } from './presentation/hooks/use-format-presets';
@@ -0,0 +1,31 @@
+import type { Formats } from 'next-intl';
+
+import type { Locale } from '../../domain/entities/locale.entity';
+
+/**
+ * Named formats of `locale`, for `format.dateTime(date, 'shortDate')`,
+ * `format.number(amount, 'thb')` and messages such as `{date, date, shortDate}`.
+ * Dates are shown in the calendar the locale prefers.
+ */
+export const createFormats = ({ calendar }: Locale) =>
+  ({
+    dateTime: {
+      shortDate: { day: 'numeric', month: 'short', year: 'numeric', calendar },
+      shortDateTime: {
+        day: 'numeric',
+        month: 'short',
+        year: 'numeric',
+        hour: 'numeric',
+        minute: '2-digit',
+        calendar,
+      },
+    },
+    number: {
+      thb: { style: 'currency', currency: 'THB' },
+      usd: { style: 'currency', currency: 'USD' },
+      percent: { style: 'percent', maximumFractionDigits: 1 },
+      compact: { notation: 'compact', maximumFractionDigits: 1 },
+    },
+  }) satisfies Formats;
+
+export type AppFormats = ReturnType<typeof createFormats>;
@@ -0,0 +1,11 @@
+import type { LocaleCode } from '../../domain/entities/locale.entity';
+
+export type Messages = Record<string, unknown>;
+
+// The message catalog of `locale`, from `messages/<locale>.json`
+export const loadMessages = async (locale: LocaleCode): Promise<Messages> => {
+  const messagesModule = (await import(`../../../../../messages/${locale}.json`)) as {
+    default: Messages;
+  };
+  return messagesModule.default;
+};
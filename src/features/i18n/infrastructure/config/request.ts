@@ -1,25 +1,23 @@
 import { getRequestConfig } from 'next-intl/server';
 
-import { type LocaleCode, SUPPORTED_LOCALES } from '../../domain/entities/locale.entity';
+import { SUPPORTED_LOCALES } from '../../domain/entities/locale.entity';
+import { createFormats } from './formats';
+import { loadMessages } from './messages';
 import { routing } from './routing';
 
-type Messages = Record<string, unknown>;
-
 export default getRequestConfig(async ({ requestLocale }) => {
-  let locale = await requestLocale;
-
-  const isValidLocale = SUPPORTED_LOCALES.some((l) => l.code === locale);
+  const requested = await requestLocale;
 
-  if (!locale || !isValidLocale) {
-    locale = routing.defaultLocale;
-  }
-
-  const messagesModule = (await import(`../../../../../messages/${locale}.json`)) as {
-    default: Messages;
-  };
+  const locale =
+    SUPPORTED_LOCALES.find((l) => l.code === requested) ??
+    SUPPORTED_LOCALES.find((l) => l.code === routing.defaultLocale) ??
+    SUPPORTED_LOCALES[0];
 
   return {
-    locale: locale as LocaleCode,
-    messages: messagesModule.default,
+    locale: locale.code,
+    messages: await loadMessages(locale.code),
+    formats: createFormats(locale),
+    // The same on the server and in the browser, so rendered dates match when hydrating
+    timeZone: process.env.TIME_ZONE ?? 'UTC',
   };
 });
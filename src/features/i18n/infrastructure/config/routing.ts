@@ -3,9 +3,35 @@ import { defineRouting } from 'next-intl/routing';
 
 import { DEFAULT_LOCALE, SUPPORTED_LOCALES } from '../../domain/entities/locale.entity';
 
+// Holds the locale the user picked in the locale switcher
+export const LOCALE_COOKIE = 'NEXT_LOCALE';
+export const LOCALE_COOKIE_MAX_AGE_SECONDS = 365 * 24 * 60 * 60;
+
 export const routing = defineRouting({
   locales: SUPPORTED_LOCALES.map((locale) => locale.code),
   defaultLocale: DEFAULT_LOCALE,
+  // The middleware negotiates the locale itself, and only an explicit choice is saved
+  localeDetection: false,
+  localeCookie: false,
+  // Internal route (the folder under `app/[locale]`) to its URL in each locale
+  pathnames: {
+    '/': '/',
+    '/api-docs': { en: '/api-docs', th: '/เอกสาร-api', ar: '/توثيق-api' },
+    '/api-example': { en: '/api-example', th: '/ตัวอย่าง-api', ar: '/مثال-api' },
+    '/graphql-explorer': {
+      en: '/graphql-explorer',
+      th: '/สำรวจ-graphql',
+      ar: '/مستكشف-graphql',
+    },
+    '/push': { en: '/push', th: '/พุช', ar: '/دفع' },
+    '/user-management': {
+      en: '/user-management',
+      th: '/จัดการผู้ใช้',
+      ar: '/إدارة-المستخدمين',
+    },
+  },
 });
 
-export const { Link, redirect, usePathname, useRouter } = createNavigation(routing);
+export type AppPathname = keyof typeof routing.pathnames;
+
+export const { Link, getPathname, redirect, usePathname, useRouter } = createNavigation(routing);
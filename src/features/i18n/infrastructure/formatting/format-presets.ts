@@ -0,0 +1,40 @@
+import type { useFormatter } from 'next-intl';
+
+type Formatter = ReturnType<typeof useFormatter>;
+
+export type CurrencyCode = 'THB' | 'USD';
+
+export interface FormatPresets {
+  // "18 Oct 2026"; "18 ต.ค. 2569" in Thai
+  shortDate: (value: Date | number | string) => string;
+  shortDateTime: (value: Date | number | string) => string;
+  // "3 days ago", relative to `now` or the configured current time
+  relativeTime: (value: Date | number | string, now?: Date | number) => string;
+  currency: (amount: number, currency: CurrencyCode) => string;
+  // 0.125 → "12.5%"
+  percent: (ratio: number) => string;
+  // 1234567 → "1.2M"
+  compact: (value: number) => string;
+}
+
+const CURRENCY_FORMATS = { THB: 'thb', USD: 'usd' } as const;
+
+// ISO timestamps, as stored and sent by the API, are accepted as they are
+const toDate = (value: Date | number | string) =>
+  typeof value === 'string' ? new Date(value) : value;
+
+/**
+ * The named formats of `config/formats.ts` on top of a next-intl formatter,
+ * from `useFormatter()` or `getFormatter()`.
+ */
+export const createFormatPresets = (format: Formatter): FormatPresets => ({
+  shortDate: (value) => format.dateTime(toDate(value), 'shortDate'),
+  shortDateTime: (value) => format.dateTime(toDate(value), 'shortDateTime'),
+  relativeTime: (value, now) =>
+    now === undefined
+      ? format.relativeTime(toDate(value))
+      : format.relativeTime(toDate(value), now),
+  currency: (amount, currency) => format.number(amount, CURRENCY_FORMATS[currency]),
+  percent: (ratio) => format.number(ratio, 'percent'),
+  compact: (value) => format.number(value, 'compact'),
+});
@@ -0,0 +1,11 @@
+import { getFormatter } from 'next-intl/server';
+
+import type { LocaleCode } from '../../domain/entities/locale.entity';
+import { createFormatPresets, type FormatPresets } from './format-presets';
+
+/**
+ * Format presets for async Server Components, Server Actions and route
+ * handlers; the locale of the request unless `locale` is given.
+ */
+export const getFormatPresets = async (locale?: LocaleCode): Promise<FormatPresets> =>
+  createFormatPresets(await getFormatter(locale && { locale }));
@@ -0,0 +1,104 @@
+import type { NextRequest } from 'next/server';
+
+import { createTranslator } from 'next-intl';
+
+import {
+  PROBLEM_TYPES,
+  type ProblemDetails,
+  type ProblemReason,
+  type ProblemType,
+} from '@/shared/http/problem-details';
+import type { ValidationIssue } from '@/shared/validation/schema';
+
+import type { LocaleCode } from '../../domain/entities/locale.entity';
+import { negotiateLocale, resolveLocale } from '../../domain/services/negotiate-locale';
+import { loadMessages } from '../config/messages';
+import { LOCALE_COOKIE } from '../config/routing';
+
+// `?locale=th` takes precedence over the saved preference and `Accept-Language`
+export const API_LOCALE_PARAM = 'locale';
+
+/**
+ * Translates what the API reports in English (problem titles and details,
+ * validation issues) with the `ApiErrors` catalog of one locale. Codes,
+ * params and field names are left as they are.
+ */
+export interface ApiErrorLocalizer {
+  locale: LocaleCode;
+  message: (reason: ProblemReason) => string;
+  issue: (issue: ValidationIssue) => ValidationIssue;
+  problem: (problem: ProblemDetails) => ProblemDetails;
+}
+
+const problemTypeOf = (type: string) =>
+  (Object.keys(PROBLEM_TYPES) as ProblemType[]).find((name) => PROBLEM_TYPES[name] === type);
+
+export const resolveApiLocale = (request: NextRequest): LocaleCode =>
+  resolveLocale({
+    url: negotiateLocale(request.nextUrl.searchParams.get(API_LOCALE_PARAM)),
+    preference: request.cookies.get(LOCALE_COOKIE)?.value,
+    acceptLanguage: request.headers.get('Accept-Language'),
+  });
+
+const createApiErrorLocalizer = async (locale: LocaleCode): Promise<ApiErrorLocalizer> => {
+  let failed = false;
+  const t = createTranslator({
+    locale,
+    // Keys are built from error codes at runtime; typed flat so any dotted key is accepted
+    messages: (await loadMessages(locale)) as { ApiErrors: Record<string, string> },
+    namespace: 'ApiErrors',
+    onError: () => {
+      failed = true;
+    },
+  });
+
+  // A message that is missing, or needs params the error does not have, keeps its English text
+  const format = (key: string, values: Record<string, string | number>, fallback: string) => {
+    failed = false;
+    const message = t(key, values);
+    return failed ? fallback : message;
+  };
+
+  const message = ({ code, message: fallback, params }: ProblemReason) =>
+    format(`details.${code}`, params ?? {}, fallback);
+
+  const issue = (validationIssue: ValidationIssue): ValidationIssue => ({
+    ...validationIssue,
+    message: format(
+      `issues.${validationIssue.code}`,
+      {
+        ...validationIssue.params,
+        field: validationIssue.field || format('requestBody', {}, 'Request body'),
+      },
+      validationIssue.message
+    ),
+  });
+
+  const problem = (problemDetails: ProblemDetails): ProblemDetails => {
+    const type = problemTypeOf(problemDetails.type);
+
+    return {
+      ...problemDetails,
+      title: type ? format(`titles.${type}`, {}, problemDetails.title) : problemDetails.title,
+      ...(problemDetails.detail !== undefined && {
+        detail: message({
+          code: problemDetails.code,
+          message: problemDetails.detail,
+          params: problemDetails.params,
+        }),
+      }),
+      ...(problemDetails.errors && { errors: problemDetails.errors.map(issue) }),
+    };
+  };
+
+  return { locale, message, issue, problem };
+};
+
+const localizers = new Map<LocaleCode, Promise<ApiErrorLocalizer>>();
+
+export const getApiErrorLocalizer = (locale: LocaleCode): Promise<ApiErrorLocalizer> => {
+  const localizer = localizers.get(locale) ?? createApiErrorLocalizer(locale);
+
+  localizers.set(locale, localizer);
+  return localizer;
+};
@@ -1,20 +1,32 @@
 'use client';
 
-import { useParams, useRouter } from 'next/navigation';
+import type { useParams } from 'next/navigation';
 
 import { type LocaleCode, SUPPORTED_LOCALES } from '../../domain/entities/locale.entity';
 import type { LocaleRepository } from '../../domain/repositories/locale.repository';
+import { resolveLocale } from '../../domain/services/negotiate-locale';
+import {
+  type AppPathname,
+  LOCALE_COOKIE,
+  LOCALE_COOKIE_MAX_AGE_SECONDS,
+  type useRouter,
+} from '../config/routing';
 
 export class NextLocaleRepository implements LocaleRepository {
   constructor(
     private readonly params: ReturnType<typeof useParams>,
-    private readonly pathname: string,
+    // The internal pathname (`/api-docs`), not the localized URL
+    private readonly pathname: AppPathname,
     private readonly router: ReturnType<typeof useRouter>
   ) {}
 
   getCurrentLocale(): LocaleCode {
-    const locale = this.params.locale as string;
-    return this.isValidLocale(locale) ? locale : 'en';
+    return resolveLocale({
+      url: this.params.locale as string | undefined,
+      preference: this.getPreferredLocale(),
+      // Not available while rendering on the server
+      acceptLanguage: typeof navigator === 'undefined' ? undefined : navigator.languages.join(','),
+    });
   }
 
   setLocale(locale: LocaleCode): void {
@@ -22,10 +34,24 @@ export class NextLocaleRepository implements LocaleRepository {
 
     if (locale === currentLocale) return;
 
-    // Replace current locale in pathname with new locale
-    const newPathname = this.pathname.replace(`/${currentLocale}`, `/${locale}`);
+    // Navigates to the page's URL in the new locale, e.g. `/th/เอกสาร-api` to `/ar/توثيق-api`
+    this.router.replace(this.pathname, { locale });
+  }
+
+  getPreferredLocale(): LocaleCode | undefined {
+    if (typeof document === 'undefined') return undefined;
+
+    const value = document.cookie
+      .split('; ')
+      .find((cookie) => cookie.startsWith(`${LOCALE_COOKIE}=`))
+      ?.slice(LOCALE_COOKIE.length + 1);
 
-    this.router.replace(newPathname);
+    return value && this.isValidLocale(value) ? value : undefined;
+  }
+
+  // eslint-disable-next-line class-methods-use-this
+  savePreferredLocale(locale: LocaleCode): void {
+    document.cookie = `${LOCALE_COOKIE}=${locale}; path=/; max-age=${LOCALE_COOKIE_MAX_AGE_SECONDS}; samesite=lax`;
   }
 
   // eslint-disable-next-line class-methods-use-this
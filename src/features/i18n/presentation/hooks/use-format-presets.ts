@@ -0,0 +1,12 @@
+import { useFormatter } from 'next-intl';
+
+import {
+  createFormatPresets,
+  type FormatPresets,
+} from '../../infrastructure/formatting/format-presets';
+
+/**
+ * Format presets of the current locale. Works in Client Components and in
+ * Server Components that are not async; use `getFormatPresets()` in those.
+ */
+export const useFormatPresets = (): FormatPresets => createFormatPresets(useFormatter());
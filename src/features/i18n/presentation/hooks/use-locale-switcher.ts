@@ -2,11 +2,12 @@
 
 import { useMemo } from 'react';
 
-import { useParams, usePathname, useRouter } from 'next/navigation';
+import { useParams } from 'next/navigation';
 
 import { GetCurrentLocaleUseCase } from '../../application/use-cases/get-current-locale.use-case';
 import { SwitchLocaleUseCase } from '../../application/use-cases/switch-locale.use-case';
 import { type LocaleCode, SUPPORTED_LOCALES } from '../../domain/entities/locale.entity';
+import { usePathname, useRouter } from '../../infrastructure/config/routing';
 import { NextLocaleRepository } from '../../infrastructure/repositories/next-locale.repository';
 
 export const useLocaleSwitcher = () => {
@@ -0,0 +1,21 @@
+import type { IdempotencyClaim } from '../../domain/entities/idempotency-record.entity';
+import type { IdempotencyStore } from '../../domain/repositories/idempotency-store.repository';
+
+export class ClaimIdempotencyKeyUseCase {
+  constructor(private readonly store: IdempotencyStore) {}
+
+  /**
+   * Claims `key` for the request identified by `fingerprint`, or reports why
+   * the request must not run. An unfinished claim lapses after `lockTtlMs` so
+   * a crashed request does not block its key for good.
+   */
+  async execute(key: string, fingerprint: string, lockTtlMs: number): Promise<IdempotencyClaim> {
+    const existing = await this.store.claim(key, { fingerprint, response: null }, lockTtlMs);
+
+    if (!existing) return { status: 'claimed' };
+    if (existing.fingerprint !== fingerprint) return { status: 'mismatch' };
+    if (!existing.response) return { status: 'in-progress' };
+
+    return { status: 'replay', response: existing.response };
+  }
+}
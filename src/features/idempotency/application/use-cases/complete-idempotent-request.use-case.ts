@@ -0,0 +1,16 @@
+import type { StoredResponse } from '../../domain/entities/idempotency-record.entity';
+import type { IdempotencyStore } from '../../domain/repositories/idempotency-store.repository';
+
+export class CompleteIdempotentRequestUseCase {
+  constructor(private readonly store: IdempotencyStore) {}
+
+  /**
+   * Keeps `response` for replays of the claimed key for `ttlMs`. Without a
+   * response (the request failed in a way worth retrying) the key is freed.
+   */
+  execute(key: string, fingerprint: string, response: StoredResponse | null, ttlMs: number) {
+    if (!response) return this.store.release(key);
+
+    return this.store.save(key, { fingerprint, response }, ttlMs);
+  }
+}
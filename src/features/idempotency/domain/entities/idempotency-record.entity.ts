@@ -0,0 +1,24 @@
+// A response as it is replayed: status, headers and the body as text
+export interface StoredResponse {
+  status: number;
+  headers: [string, string][];
+  body: string;
+}
+
+/**
+ * What is kept per idempotency key. `fingerprint` identifies the request the
+ * key was first used with; `response` is null while that request still runs.
+ */
+export interface IdempotencyRecord {
+  fingerprint: string;
+  response: StoredResponse | null;
+}
+
+export type IdempotencyClaim =
+  // The key is new: handle the request, then complete the claim
+  | { status: 'claimed' }
+  | { status: 'replay'; response: StoredResponse }
+  // The key was used with a different method, path or body
+  | { status: 'mismatch' }
+  // The first request with this key has not finished yet
+  | { status: 'in-progress' };
@@ -0,0 +1,12 @@
+import type { IdempotencyRecord } from '../entities/idempotency-record.entity';
+
+/**
+ * Keeps idempotency records until their TTL runs out. `claim` must be
+ * atomic: of several concurrent claims of one key, only one may succeed.
+ */
+export interface IdempotencyStore {
+  // Stores `record` if `key` is free and returns null; otherwise returns the stored record
+  claim(key: string, record: IdempotencyRecord, ttlMs: number): Promise<IdempotencyRecord | null>;
+  save(key: string, record: IdempotencyRecord, ttlMs: number): Promise<void>;
+  release(key: string): Promise<void>;
+}
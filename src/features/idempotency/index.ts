@@ -0,0 +1,22 @@
+// Domain
+export * from './domain/entities/idempotency-record.entity';
+export type { IdempotencyStore } from './domain/repositories/idempotency-store.repository';
+
+// Application
+export { ClaimIdempotencyKeyUseCase } from './application/use-cases/claim-idempotency-key.use-case';
+export { CompleteIdempotentRequestUseCase } from './application/use-cases/complete-idempotent-request.use-case';
+
+// Infrastructure
+export { InMemoryIdempotencyStore } from './infrastructure/stores/in-memory-idempotency.store';
+export { RedisIdempotencyStore } from './infrastructure/stores/redis-idempotency.store';
+export {
+  getIdempotencyStore,
+  getIdempotencyTtl,
+  IDEMPOTENCY_LOCK_TTL_MS,
+} from './infrastructure/config/idempotency';
+export {
+  IDEMPOTENCY_KEY_HEADER,
+  IDEMPOTENT_REPLAYED_HEADER,
+  withIdempotency,
+} from './infrastructure/http/with-idempotency';
+export { idempotencyOpenApi } from './infrastructure/openapi/idempotency.openapi';
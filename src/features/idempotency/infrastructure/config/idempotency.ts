@@ -0,0 +1,42 @@
+import { RespClient } from '@/shared/redis/resp-client';
+import { getSharedState } from '@/shared/runtime/shared-state';
+
+import type { IdempotencyStore } from '../../domain/repositories/idempotency-store.repository';
+import {
+  type IdempotencyEntries,
+  InMemoryIdempotencyStore,
+} from '../stores/in-memory-idempotency.store';
+import { RedisIdempotencyStore } from '../stores/redis-idempotency.store';
+
+export type IdempotencyStorageDriver = 'memory' | 'redis';
+
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+const DEFAULT_REDIS_URL = 'redis://localhost:6379';
+
+// How long a claim holds while its request runs
+export const IDEMPOTENCY_LOCK_TTL_MS = 60_000;
+
+// How long stored responses are replayed, in seconds (`IDEMPOTENCY_TTL`)
+export const getIdempotencyTtl = () => {
+  const ttl = Number(process.env.IDEMPOTENCY_TTL ?? DEFAULT_TTL_SECONDS);
+  return Number.isInteger(ttl) && ttl > 0 ? ttl : DEFAULT_TTL_SECONDS;
+};
+
+const createIdempotencyStore = (): IdempotencyStore => {
+  const driver = (process.env.IDEMPOTENCY_STORE ?? 'memory') as IdempotencyStorageDriver;
+
+  if (driver === 'redis') {
+    return new RedisIdempotencyStore(new RespClient(process.env.REDIS_URL ?? DEFAULT_REDIS_URL));
+  }
+
+  return new InMemoryIdempotencyStore(
+    getSharedState<IdempotencyEntries>('idempotency:entries', () => new Map())
+  );
+};
+
+let idempotencyStore: IdempotencyStore | undefined;
+
+export const getIdempotencyStore = (): IdempotencyStore => {
+  idempotencyStore ??= createIdempotencyStore();
+  return idempotencyStore;
+};
@@ -0,0 +1,155 @@
+import type { NextRequest } from 'next/server';
+
+import { createHash } from 'node:crypto';
+
+import { getAccessTokenService, parseBearerToken } from '@/features/auth';
+import { resolveApiLocale } from '@/features/i18n';
+import { getLogger } from '@/features/observability';
+
+import {
+  conflictProblem,
+  idempotencyKeyReusedProblem,
+  validationProblem,
+} from '@/shared/http/problem-details';
+
+import { ClaimIdempotencyKeyUseCase } from '../../application/use-cases/claim-idempotency-key.use-case';
+import { CompleteIdempotentRequestUseCase } from '../../application/use-cases/complete-idempotent-request.use-case';
+import type {
+  IdempotencyClaim,
+  StoredResponse,
+} from '../../domain/entities/idempotency-record.entity';
+import {
+  getIdempotencyStore,
+  getIdempotencyTtl,
+  IDEMPOTENCY_LOCK_TTL_MS,
+} from '../config/idempotency';
+
+type RouteHandler<C> = (request: NextRequest, context: C) => Promise<Response>;
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+export const IDEMPOTENT_REPLAYED_HEADER = 'Idempotent-Replayed';
+
+const MAX_KEY_LENGTH = 255;
+const VISIBLE_ASCII = /^[\x21-\x7E]+$/;
+
+// Keys belong to the signed-in user (token verified, no lookup), so callers cannot replay each other's responses
+const callerOf = (request: NextRequest) => {
+  const token = parseBearerToken(request.headers.get('Authorization'));
+  const claims = token ? getAccessTokenService().verify(token) : null;
+
+  return claims ? `user:${claims.sub}` : null;
+};
+
+// Messages in stored bodies are translated, so the locale is part of the request
+const fingerprintOf = (request: NextRequest, body: string) =>
+  createHash('sha256')
+    .update(`${request.method} ${request.nextUrl.pathname}${request.nextUrl.search}\n`)
+    .update(`${resolveApiLocale(request)}\n`)
+    .update(body)
+    .digest('base64url');
+
+// A retry may get a different answer to these, so they are not kept
+const isReplayable = (status: number) => status < 500 && status !== 401;
+
+const toResponse = ({ status, headers, body }: StoredResponse) =>
+  new Response(body, { status, headers });
+
+/**
+ * Wraps a `POST` route handler so requests carrying an `Idempotency-Key` run
+ * at most once per key and signed-in user. Repeats with the same method, URL,
+ * locale and body get the stored response (marked with
+ * `Idempotent-Replayed: true`); a different request with a used key gets 422,
+ * and a repeat while the first is still running gets 409. Server errors are
+ * not stored, so those requests can be retried. If the store is unreachable
+ * the request is handled without idempotency rather than failed.
+ */
+export const withIdempotency =
+  <C>(handler: RouteHandler<C>): RouteHandler<C> =>
+  async (request, context) => {
+    const key = request.headers.get(IDEMPOTENCY_KEY_HEADER);
+    const caller = callerOf(request);
+
+    // Anonymous requests are about to be rejected by the handler; there is nothing to remember
+    if (key === null || !caller) return handler(request, context);
+
+    const instance = request.nextUrl.pathname;
+
+    if (!VISIBLE_ASCII.test(key) || key.length > MAX_KEY_LENGTH) {
+      return validationProblem(
+        [
+          {
+            field: IDEMPOTENCY_KEY_HEADER,
+            code: 'invalid_format',
+            message: `${IDEMPOTENCY_KEY_HEADER} must be 1 to ${MAX_KEY_LENGTH} visible ASCII characters`,
+            params: { format: 'idempotency_key', max: MAX_KEY_LENGTH },
+          },
+        ],
+        instance
+      );
+    }
+
+    const store = getIdempotencyStore();
+    const storeKey = `${caller}:${key}`;
+    const fingerprint = fingerprintOf(request, await request.clone().text());
+    let claim: IdempotencyClaim;
+
+    try {
+      claim = await new ClaimIdempotencyKeyUseCase(store).execute(
+        storeKey,
+        fingerprint,
+        IDEMPOTENCY_LOCK_TTL_MS
+      );
+    } catch (error) {
+      getLogger().error('Idempotency store unavailable, handling the request without it', {
+        error,
+      });
+      return handler(request, context);
+    }
+
+    if (claim.status === 'replay') {
+      const replayed = toResponse(claim.response);
+      replayed.headers.set(IDEMPOTENT_REPLAYED_HEADER, 'true');
+      return replayed;
+    }
+    if (claim.status === 'mismatch') return idempotencyKeyReusedProblem(instance);
+    if (claim.status === 'in-progress') {
+      return conflictProblem(
+        {
+          code: 'idempotency_key_in_use',
+          message: `A request with this ${IDEMPOTENCY_KEY_HEADER} is still being processed`,
+        },
+        instance,
+        { headers: { 'Retry-After': '1' } }
+      );
+    }
+
+    const complete = (stored: StoredResponse | null) =>
+      new CompleteIdempotentRequestUseCase(store)
+        .execute(storeKey, fingerprint, stored, getIdempotencyTtl() * 1000)
+        .catch((error) => {
+          getLogger().error('Could not complete idempotency key', { idempotencyKey: key, error });
+        });
+
+    let response: Response;
+
+    try {
+      response = await handler(request, context);
+    } catch (error) {
+      await complete(null);
+      throw error;
+    }
+
+    if (!isReplayable(response.status)) {
+      await complete(null);
+      return response;
+    }
+
+    const stored: StoredResponse = {
+      status: response.status,
+      headers: [...response.headers],
+      body: await response.text(),
+    };
+
+    await complete(stored);
+    return toResponse(stored);
+  };
@@ -0,0 +1,27 @@
+import { problemResponseObject } from '@/shared/http/problem-details.openapi';
+import type { OpenApiFragment } from '@/shared/openapi/openapi.types';
+
+export const idempotencyOpenApi: OpenApiFragment = {
+  components: {
+    parameters: {
+      IdempotencyKey: {
+        name: 'Idempotency-Key',
+        in: 'header',
+        description:
+          'Makes retries safe: a repeat with the same key, URL, locale and body gets the stored response (with `Idempotent-Replayed: true`) instead of running again. Keys are kept per user for `IDEMPOTENCY_TTL` seconds (default 24 hours); reusing one for a different request answers `422`.',
+        schema: { type: 'string', minLength: 1, maxLength: 255, examples: ['5f0c6a0e-…'] },
+      },
+    },
+    headers: {
+      'Idempotent-Replayed': {
+        description: '`true` when the response is a replay of an earlier request with the same key',
+        schema: { type: 'string', enum: ['true'] },
+      },
+    },
+    responses: {
+      IdempotencyConflict: problemResponseObject(
+        'A request with the same `Idempotency-Key` is still being processed; retry after `Retry-After` seconds'
+      ),
+    },
+  },
+};
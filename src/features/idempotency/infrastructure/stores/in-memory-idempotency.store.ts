@@ -0,0 +1,56 @@
+import type { IdempotencyRecord } from '../../domain/entities/idempotency-record.entity';
+import type { IdempotencyStore } from '../../domain/repositories/idempotency-store.repository';
+
+export interface IdempotencyEntry {
+  record: IdempotencyRecord;
+  expiresAt: number;
+}
+
+export type IdempotencyEntries = Map<string, IdempotencyEntry>;
+
+const SWEEP_INTERVAL_MS = 60_000;
+
+/**
+ * Keeps records in a `Map` of this process. Claims run synchronously, which
+ * makes them atomic; records are not shared between server instances.
+ */
+export class InMemoryIdempotencyStore implements IdempotencyStore {
+  private lastSweep = 0;
+
+  constructor(
+    private readonly entries: IdempotencyEntries = new Map(),
+    private readonly clock: () => number = Date.now
+  ) {}
+
+  claim(key: string, record: IdempotencyRecord, ttlMs: number) {
+    const now = this.clock();
+    this.sweep(now);
+
+    const entry = this.entries.get(key);
+
+    if (entry && entry.expiresAt > now) return Promise.resolve(entry.record);
+
+    this.entries.set(key, { record, expiresAt: now + ttlMs });
+    return Promise.resolve(null);
+  }
+
+  save(key: string, record: IdempotencyRecord, ttlMs: number) {
+    this.entries.set(key, { record, expiresAt: this.clock() + ttlMs });
+    return Promise.resolve();
+  }
+
+  release(key: string) {
+    this.entries.delete(key);
+    return Promise.resolve();
+  }
+
+  // Drops expired records so stored responses do not accumulate forever
+  private sweep(now: number) {
+    if (now - this.lastSweep < SWEEP_INTERVAL_MS) return;
+
+    this.lastSweep = now;
+    this.entries.forEach((entry, key) => {
+      if (entry.expiresAt <= now) this.entries.delete(key);
+    });
+  }
+}
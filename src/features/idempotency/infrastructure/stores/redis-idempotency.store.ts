@@ -0,0 +1,63 @@
+import type { RespClient } from '@/shared/redis/resp-client';
+
+import type { IdempotencyRecord } from '../../domain/entities/idempotency-record.entity';
+import type { IdempotencyStore } from '../../domain/repositories/idempotency-store.repository';
+
+const MAX_ATTEMPTS = 3;
+
+/**
+ * Keeps records in Redis (or any server speaking its protocol) so a retry is
+ * recognized whichever server instance it reaches. Claims use `SET NX`.
+ */
+export class RedisIdempotencyStore implements IdempotencyStore {
+  constructor(
+    private readonly client: RespClient,
+    private readonly prefix = 'idempotency:'
+  ) {}
+
+  claim(key: string, record: IdempotencyRecord, ttlMs: number) {
+    return this.attemptClaim(`${this.prefix}${key}`, record, ttlMs, 1);
+  }
+
+  async save(key: string, record: IdempotencyRecord, ttlMs: number) {
+    await this.client.command(
+      'SET',
+      `${this.prefix}${key}`,
+      JSON.stringify(record),
+      'PX',
+      Math.ceil(ttlMs)
+    );
+  }
+
+  async release(key: string) {
+    await this.client.command('DEL', `${this.prefix}${key}`);
+  }
+
+  private async attemptClaim(
+    key: string,
+    record: IdempotencyRecord,
+    ttlMs: number,
+    attempt: number
+  ): Promise<IdempotencyRecord | null> {
+    const claimed = await this.client.command(
+      'SET',
+      key,
+      JSON.stringify(record),
+      'NX',
+      'PX',
+      Math.ceil(ttlMs)
+    );
+
+    if (claimed !== null) return null;
+
+    const stored = await this.client.command('GET', key);
+
+    if (typeof stored === 'string') return JSON.parse(stored) as IdempotencyRecord;
+
+    // Expired between SET and GET: try to claim it again
+    if (attempt >= MAX_ATTEMPTS) {
+      throw new Error(`Idempotency key "${key}" kept changing; gave up after ${attempt} tries`);
+    }
+    return this.attemptClaim(key, record, ttlMs, attempt + 1);
+  }
+}
@@ -0,0 +1,26 @@
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+
+export type MetricLabels = Record<string, string>;
+
+export interface MetricDefinition {
+  // Prometheus naming: snake_case with a unit suffix, e.g. `_seconds` or `_total`
+  name: string;
+  help: string;
+  type: MetricType;
+  // Upper bounds of the histogram buckets, ascending; `+Inf` is implied
+  buckets?: readonly number[];
+}
+
+export interface MetricSeries {
+  labels: MetricLabels;
+  // Counter and gauge value; observation count for histograms
+  value: number;
+  // Histograms only: observations per bucket (not cumulative) and their sum
+  bucketCounts?: number[];
+  sum?: number;
+}
+
+export interface MetricFamily extends MetricDefinition {
+  // Keyed by the serialized labels
+  series: Map<string, MetricSeries>;
+}
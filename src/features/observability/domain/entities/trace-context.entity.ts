@@ -0,0 +1,22 @@
+/**
+ * W3C Trace Context (https://www.w3.org/TR/trace-context/) of one request:
+ * the trace it belongs to, the span it runs in and the caller's span.
+ */
+export interface TraceContext {
+  // 32 lowercase hex digits
+  traceId: string;
+  // 16 lowercase hex digits
+  spanId: string;
+  // Span of the caller that sent `traceparent`; absent when the trace starts here
+  parentSpanId?: string;
+  sampled: boolean;
+  // Vendor-specific `tracestate`, passed on unchanged
+  traceState?: string;
+}
+
+// What a `traceparent` header carries
+export interface TraceParent {
+  traceId: string;
+  parentId: string;
+  sampled: boolean;
+}
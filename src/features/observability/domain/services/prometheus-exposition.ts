@@ -0,0 +1,53 @@
+import type { MetricFamily, MetricLabels } from '../entities/metric.entity';
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+const escapeLabelValue = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const escapeHelp = (help: string) => help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+
+const formatLabels = (labels: MetricLabels) => {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabelValue(value)}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+};
+
+const formatNumber = (value: number) => {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+};
+
+const formatFamily = ({ name, help, type, buckets = [], series }: MetricFamily) => {
+  const lines = [`# HELP ${name} ${escapeHelp(help)}`, `# TYPE ${name} ${type}`];
+
+  series.forEach(({ labels, value, bucketCounts = [], sum = 0 }) => {
+    if (type !== 'histogram') {
+      lines.push(`${name}${formatLabels(labels)} ${formatNumber(value)}`);
+      return;
+    }
+
+    // Buckets are cumulative in the exposition format
+    let cumulative = 0;
+    buckets.forEach((bound, index) => {
+      cumulative += bucketCounts[index] ?? 0;
+      lines.push(
+        `${name}_bucket${formatLabels({ ...labels, le: formatNumber(bound) })} ${cumulative}`
+      );
+    });
+    lines.push(`${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${value}`);
+    lines.push(`${name}_sum${formatLabels(labels)} ${formatNumber(sum)}`);
+    lines.push(`${name}_count${formatLabels(labels)} ${value}`);
+  });
+
+  return lines.join('\n');
+};
+
+/**
+ * Prometheus text exposition format, version 0.0.4
+ * (https://prometheus.io/docs/instrumenting/exposition_formats/).
+ */
+export const formatPrometheus = (families: Iterable<MetricFamily>) =>
+  `${[...families].map(formatFamily).join('\n')}\n`;
@@ -0,0 +1,45 @@
+import type { TraceContext, TraceParent } from '../entities/trace-context.entity';
+
+const HEX = /^[0-9a-f]+$/;
+
+const isHex = (value: string, length: number) => value.length === length && HEX.test(value);
+
+const isAllZeros = (value: string) => /^0+$/.test(value);
+
+const randomHex = (bytes: number) =>
+  Array.from(crypto.getRandomValues(new Uint8Array(bytes)), (byte) =>
+    byte.toString(16).padStart(2, '0')
+  ).join('');
+
+/**
+ * Parses `version-traceid-parentid-flags`. Returns null for anything the spec
+ * says to ignore (unknown layout, `ff` version, all-zero ids), in which case
+ * a new trace is started. Later versions may append fields; they are skipped.
+ */
+export const parseTraceparent = (header: string | null): TraceParent | null => {
+  const [version, traceId, parentId, flags, ...rest] = (header ?? '').trim().split('-');
+
+  if (!isHex(version, 2) || version === 'ff') return null;
+  if (version === '00' && rest.length > 0) return null;
+  if (!isHex(traceId ?? '', 32) || isAllZeros(traceId)) return null;
+  if (!isHex(parentId ?? '', 16) || isAllZeros(parentId)) return null;
+  if (!isHex(flags ?? '', 2)) return null;
+
+  // `sampled` is the lowest bit of the flags
+  return { traceId, parentId, sampled: parseInt(flags, 16) % 2 === 1 };
+};
+
+// A new span in the caller's trace, or the root span of a new, sampled trace
+export const startSpan = (parent: TraceParent | null, traceState?: string): TraceContext =>
+  parent
+    ? {
+        traceId: parent.traceId,
+        spanId: randomHex(8),
+        parentSpanId: parent.parentId,
+        sampled: parent.sampled,
+        traceState,
+      }
+    : { traceId: randomHex(16), spanId: randomHex(8), sampled: true };
+
+export const formatTraceparent = ({ traceId, spanId, sampled }: TraceContext) =>
+  `00-${traceId}-${spanId}-${sampled ? '01' : '00'}`;
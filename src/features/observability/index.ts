@@ -0,0 +1,29 @@
+// Domain
+export * from './domain/entities/trace-context.entity';
+export * from './domain/entities/metric.entity';
+export * from './domain/services/logger';
+export { formatTraceparent, parseTraceparent, startSpan } from './domain/services/trace-context';
+export { formatPrometheus, PROMETHEUS_CONTENT_TYPE } from './domain/services/prometheus-exposition';
+
+// Infrastructure
+export { JsonLogger, type LogWriter } from './infrastructure/logging/json-logger';
+export {
+  getRequestContext,
+  type RequestContext,
+  runWithRequestContext,
+} from './infrastructure/context/request-context';
+export { getLogger, getLogLevel } from './infrastructure/config/logging';
+export { type MetricFamilies, MetricsRegistry } from './infrastructure/metrics/metrics-registry';
+export {
+  getMetricsRegistry,
+  HTTP_REQUEST_DURATION_SECONDS,
+  HTTP_REQUESTS_IN_FLIGHT,
+  HTTP_REQUESTS_TOTAL,
+  isMetricsTokenValid,
+} from './infrastructure/config/metrics';
+export {
+  REQUEST_ID_HEADER,
+  TRACEPARENT_HEADER,
+  TRACESTATE_HEADER,
+  withObservability,
+} from './infrastructure/http/with-observability';
@@ -0,0 +1,28 @@
+import { LOG_LEVELS, type Logger, type LogLevel } from '../../domain/services/logger';
+import { getRequestContext } from '../context/request-context';
+import { JsonLogger } from '../logging/json-logger';
+
+const DEFAULT_LOG_LEVEL: LogLevel = 'info';
+
+// Lowest level written (`LOG_LEVEL`: debug, info, warn or error)
+export const getLogLevel = (): LogLevel => {
+  const level = process.env.LOG_LEVEL as LogLevel | undefined;
+  return level && LOG_LEVELS.includes(level) ? level : DEFAULT_LOG_LEVEL;
+};
+
+/**
+ * Logger for the current request: inside a handler wrapped with
+ * `withObservability` every entry carries the request ID and trace IDs.
+ */
+export const getLogger = (): Logger => {
+  const logger = new JsonLogger(getLogLevel());
+  const context = getRequestContext();
+
+  return context
+    ? logger.child({
+        requestId: context.requestId,
+        traceId: context.trace.traceId,
+        spanId: context.trace.spanId,
+      })
+    : logger;
+};
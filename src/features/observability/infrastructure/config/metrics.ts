@@ -0,0 +1,54 @@
+import { timingSafeEqual } from 'node:crypto';
+
+import { getSharedState } from '@/shared/runtime/shared-state';
+
+import type { MetricDefinition } from '../../domain/entities/metric.entity';
+import { type MetricFamilies, MetricsRegistry } from '../metrics/metrics-registry';
+
+export const HTTP_REQUESTS_TOTAL: MetricDefinition = {
+  name: 'http_requests_total',
+  help: 'API requests handled, by method, route and status',
+  type: 'counter',
+};
+
+export const HTTP_REQUEST_DURATION_SECONDS: MetricDefinition = {
+  name: 'http_request_duration_seconds',
+  help: 'Time until the response headers were ready, by method, route and status',
+  type: 'histogram',
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+};
+
+export const HTTP_REQUESTS_IN_FLIGHT: MetricDefinition = {
+  name: 'http_requests_in_flight',
+  help: 'API requests being handled',
+  type: 'gauge',
+};
+
+let metricsRegistry: MetricsRegistry | undefined;
+
+export const getMetricsRegistry = (): MetricsRegistry => {
+  if (!metricsRegistry) {
+    metricsRegistry = new MetricsRegistry(
+      getSharedState<MetricFamilies>('observability:metric-families', () => new Map())
+    );
+    [HTTP_REQUESTS_TOTAL, HTTP_REQUEST_DURATION_SECONDS, HTTP_REQUESTS_IN_FLIGHT].forEach(
+      (definition) => metricsRegistry?.define(definition)
+    );
+  }
+  return metricsRegistry;
+};
+
+/**
+ * True if `token` matches `METRICS_TOKEN`, or if no token is configured and
+ * the metrics are public.
+ */
+export const isMetricsTokenValid = (token: string | null) => {
+  const expected = process.env.METRICS_TOKEN;
+
+  if (!expected) return true;
+  if (!token) return false;
+
+  const given = Buffer.from(token);
+  const wanted = Buffer.from(expected);
+  return given.length === wanted.length && timingSafeEqual(given, wanted);
+};
@@ -0,0 +1,19 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+import type { LocaleCode } from '@/features/i18n';
+
+import type { TraceContext } from '../../domain/entities/trace-context.entity';
+
+export interface RequestContext {
+  requestId: string;
+  trace: TraceContext;
+  locale: LocaleCode;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export const runWithRequestContext = <T>(context: RequestContext, callback: () => T): T =>
+  storage.run(context, callback);
+
+// The context of the request being handled; undefined outside `withObservability`
+export const getRequestContext = (): RequestContext | undefined => storage.getStore();
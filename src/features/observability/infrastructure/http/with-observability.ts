@@ -0,0 +1,131 @@
+import type { NextRequest } from 'next/server';
+
+import { getApiErrorLocalizer, type LocaleCode, resolveApiLocale } from '@/features/i18n';
+
+import {
+  internalServerErrorProblem,
+  PROBLEM_CONTENT_TYPE,
+  type ProblemDetails,
+} from '@/shared/http/problem-details';
+
+import {
+  formatTraceparent,
+  parseTraceparent,
+  startSpan,
+} from '../../domain/services/trace-context';
+import { getLogger } from '../config/logging';
+import {
+  getMetricsRegistry,
+  HTTP_REQUEST_DURATION_SECONDS,
+  HTTP_REQUESTS_IN_FLIGHT,
+  HTTP_REQUESTS_TOTAL,
+} from '../config/metrics';
+import { type RequestContext, runWithRequestContext } from '../context/request-context';
+
+type RouteHandler<C> = (request: NextRequest, context: C) => Promise<Response>;
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+export const TRACEPARENT_HEADER = 'traceparent';
+export const TRACESTATE_HEADER = 'tracestate';
+
+// Caller-supplied IDs are echoed and logged, so only short, plain ones are kept
+const REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+const requestIdOf = (request: NextRequest) => {
+  const requestId = request.headers.get(REQUEST_ID_HEADER);
+  return requestId && REQUEST_ID.test(requestId) ? requestId : crypto.randomUUID();
+};
+
+// Problem documents are translated into the caller's locale and name the request ID,
+// so a reported error can be found in the logs
+const finishProblem = async (response: Response, requestId: string, locale: LocaleCode) => {
+  if (!response.headers.get('Content-Type')?.includes(PROBLEM_CONTENT_TYPE)) return response;
+
+  let problem: ProblemDetails;
+
+  try {
+    problem = (await response.clone().json()) as ProblemDetails;
+  } catch {
+    return response;
+  }
+
+  const localizer = await getApiErrorLocalizer(locale);
+  const headers = new Headers(response.headers);
+  headers.delete('Content-Length');
+  headers.set('Content-Language', locale);
+  headers.append('Vary', 'Accept-Language');
+  return new Response(JSON.stringify({ ...localizer.problem(problem), requestId }), {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  });
+};
+
+/**
+ * Outermost route wrapper. Takes the caller's `X-Request-Id` (or assigns one)
+ * and continues the caller's W3C trace from `traceparent` (or starts one),
+ * makes both available to `getLogger()` while the handler runs, and echoes
+ * them on the response. The locale comes from `?locale=`, the saved
+ * preference or `Accept-Language`.
+ * Writes one JSON log entry per request with method,
+ * path, status, duration and locale, and records the request in the
+ * `http_*` metrics under `route`, the route's template (e.g.
+ * `/api/users/[id]`): labels never come from the requested path, so callers
+ * cannot add series. A handler that throws is logged with its stack and
+ * answered with a 500 problem; every problem body is translated into the
+ * locale and gets `requestId`.
+ */
+export const withObservability =
+  <C>(route: string, handler: RouteHandler<C>): RouteHandler<C> =>
+  async (request, context) => {
+    const started = performance.now();
+    const requestContext: RequestContext = {
+      requestId: requestIdOf(request),
+      trace: startSpan(
+        parseTraceparent(request.headers.get(TRACEPARENT_HEADER)),
+        request.headers.get(TRACESTATE_HEADER) ?? undefined
+      ),
+      locale: resolveApiLocale(request),
+    };
+
+    return runWithRequestContext(requestContext, async () => {
+      const logger = getLogger();
+      const metrics = getMetricsRegistry();
+      const { pathname } = request.nextUrl;
+      let response: Response;
+
+      metrics.increment(HTTP_REQUESTS_IN_FLIGHT.name);
+      try {
+        response = await handler(request, context);
+      } catch (error) {
+        logger.error('Unhandled error in route handler', { error });
+        response = internalServerErrorProblem(pathname);
+      } finally {
+        metrics.increment(HTTP_REQUESTS_IN_FLIGHT.name, {}, -1);
+      }
+
+      response = await finishProblem(response, requestContext.requestId, requestContext.locale);
+      response.headers.set(REQUEST_ID_HEADER, requestContext.requestId);
+      response.headers.set(TRACEPARENT_HEADER, formatTraceparent(requestContext.trace));
+
+      // Streamed bodies (exports, events) are still being sent: this is the time to first byte
+      const durationMs = performance.now() - started;
+      const labels = {
+        method: request.method,
+        route,
+        status: String(response.status),
+      };
+
+      metrics.increment(HTTP_REQUESTS_TOTAL.name, labels);
+      metrics.observe(HTTP_REQUEST_DURATION_SECONDS.name, labels, durationMs / 1000);
+      logger[response.status >= 500 ? 'error' : 'info']('Request completed', {
+        method: request.method,
+        path: pathname,
+        status: response.status,
+        durationMs: Math.round(durationMs * 10) / 10,
+        locale: requestContext.locale,
+        parentSpanId: requestContext.trace.parentSpanId,
+      });
+      return response;
+    });
+  };
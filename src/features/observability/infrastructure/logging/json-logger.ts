@@ -0,0 +1,78 @@
+import {
+  LOG_LEVELS,
+  type LogFields,
+  type Logger,
+  type LogLevel,
+} from '../../domain/services/logger';
+
+export type LogWriter = (level: LogLevel, line: string) => void;
+
+// Errors and warnings go to stderr, the rest to stdout
+const writeToProcess: LogWriter = (level, line) => {
+  const stream = level === 'warn' || level === 'error' ? process.stderr : process.stdout;
+  stream.write(`${line}\n`);
+};
+
+// `JSON.stringify` turns an Error into `{}`; keep what is useful for debugging
+const serializeError = (error: Error): LogFields => ({
+  name: error.name,
+  message: error.message,
+  stack: error.stack,
+  ...(error.cause !== undefined && {
+    cause: error.cause instanceof Error ? serializeError(error.cause) : error.cause,
+  }),
+});
+
+const replacer = (key: string, value: unknown) => {
+  if (value instanceof Error) return serializeError(value);
+  if (typeof value === 'bigint') return value.toString();
+  return value;
+};
+
+/**
+ * Writes one JSON object per line (`time`, `level`, `message` and the fields),
+ * the format log collectors parse without configuration. Entries below
+ * `level` are dropped.
+ */
+export class JsonLogger implements Logger {
+  constructor(
+    private readonly level: LogLevel,
+    private readonly fields: LogFields = {},
+    private readonly write: LogWriter = writeToProcess
+  ) {}
+
+  debug(message: string, fields?: LogFields) {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields) {
+    this.log('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields) {
+    this.log('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields) {
+    this.log('error', message, fields);
+  }
+
+  child(fields: LogFields): Logger {
+    return new JsonLogger(this.level, { ...this.fields, ...fields }, this.write);
+  }
+
+  private log(level: LogLevel, message: string, fields?: LogFields) {
+    if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(this.level)) return;
+
+    const entry = { time: new Date().toISOString(), level, message, ...this.fields, ...fields };
+    let line: string;
+
+    try {
+      line = JSON.stringify(entry, replacer);
+    } catch {
+      // Circular fields: keep the entry, drop the fields
+      line = JSON.stringify({ time: entry.time, level, message, ...this.fields });
+    }
+    this.write(level, line);
+  }
+}
@@ -0,0 +1,75 @@
+import type {
+  MetricDefinition,
+  MetricFamily,
+  MetricLabels,
+  MetricSeries,
+} from '../../domain/entities/metric.entity';
+import { formatPrometheus } from '../../domain/services/prometheus-exposition';
+
+export type MetricFamilies = Map<string, MetricFamily>;
+
+// Label order must not create a second series
+const seriesKey = (labels: MetricLabels) =>
+  JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+
+/**
+ * Counters, gauges and histograms kept in `families`, which may be shared by
+ * several registries. Metrics must be defined before they are recorded.
+ */
+export class MetricsRegistry {
+  constructor(private readonly families: MetricFamilies) {}
+
+  // Defining a metric again is a no-op, so every route bundle can define what it records
+  define(definition: MetricDefinition) {
+    if (!this.families.has(definition.name)) {
+      this.families.set(definition.name, { ...definition, series: new Map() });
+    }
+  }
+
+  increment(name: string, labels: MetricLabels = {}, by = 1) {
+    this.seriesOf(name, labels).value += by;
+  }
+
+  set(name: string, labels: MetricLabels, value: number) {
+    this.seriesOf(name, labels).value = value;
+  }
+
+  // Drops every series of a gauge, e.g. before setting it from a fresh snapshot
+  clear(name: string) {
+    this.familyOf(name).series.clear();
+  }
+
+  observe(name: string, labels: MetricLabels, value: number) {
+    const { buckets = [] } = this.familyOf(name);
+    const series = this.seriesOf(name, labels);
+    const index = buckets.findIndex((bound) => value <= bound);
+
+    series.value += 1;
+    series.sum = (series.sum ?? 0) + value;
+    series.bucketCounts ??= buckets.map(() => 0);
+    if (index !== -1) series.bucketCounts[index] += 1;
+  }
+
+  render() {
+    return formatPrometheus(this.families.values());
+  }
+
+  private familyOf(name: string) {
+    const family = this.families.get(name);
+
+    if (!family) throw new Error(`Metric "${name}" has not been defined`);
+    return family;
+  }
+
+  private seriesOf(name: string, labels: MetricLabels): MetricSeries {
+    const { series } = this.familyOf(name);
+    const key = seriesKey(labels);
+    let entry = series.get(key);
+
+    if (!entry) {
+      entry = { labels, value: 0 };
+      series.set(key, entry);
+    }
+    return entry;
+  }
+}
@@ -0,0 +1,31 @@
+import type {
+  RateLimitAlgorithmName,
+  RateLimitDecision,
+  RateLimitRule,
+} from '../../domain/entities/rate-limit.entity';
+import type { RateLimitStore } from '../../domain/repositories/rate-limit-store.repository';
+import type { RateLimitAlgorithm } from '../../domain/services/rate-limit.algorithm';
+import { slidingWindow } from '../../domain/services/sliding-window.algorithm';
+import { tokenBucket } from '../../domain/services/token-bucket.algorithm';
+
+const ALGORITHMS: Record<RateLimitAlgorithmName, RateLimitAlgorithm<unknown>> = {
+  'token-bucket': tokenBucket as RateLimitAlgorithm<unknown>,
+  'sliding-window': slidingWindow as RateLimitAlgorithm<unknown>,
+};
+
+export class ConsumeRateLimitUseCase {
+  constructor(private readonly store: RateLimitStore) {}
+
+  /**
+   * Counts one request against `key` and reports whether it is allowed.
+   */
+  execute(key: string, rule: RateLimitRule, now = Date.now()): Promise<RateLimitDecision> {
+    const algorithm = ALGORITHMS[rule.algorithm];
+    // Idle state is dropped once it can no longer affect a decision
+    const ttlMs = 2 * rule.windowSeconds * 1000;
+
+    return this.store.update(`${rule.algorithm}:${key}`, ttlMs, (state) =>
+      algorithm.consume(state, rule, now)
+    );
+  }
+}
@@ -0,0 +1,39 @@
+export type RateLimitAlgorithmName = 'token-bucket' | 'sliding-window';
+
+export const RATE_LIMIT_ALGORITHMS: readonly RateLimitAlgorithmName[] = [
+  'token-bucket',
+  'sliding-window',
+];
+
+/**
+ * Allows `limit` requests per `windowSeconds`. A token bucket refills
+ * continuously and absorbs bursts up to `limit`; a sliding window weights the
+ * previous fixed window to smooth the boundary between windows.
+ */
+export interface RateLimitRule {
+  algorithm: RateLimitAlgorithmName;
+  limit: number;
+  windowSeconds: number;
+}
+
+// Callers are limited per identity; signed-in users usually get a larger budget
+export interface RateLimitPolicy {
+  anonymous: RateLimitRule;
+  authenticated: RateLimitRule;
+}
+
+export interface RateLimitIdentity {
+  // Stable key for the caller, e.g. `user:1` or `ip:203.0.113.7`
+  key: string;
+  authenticated: boolean;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Seconds until the quota is fully restored
+  resetSeconds: number;
+  // Seconds until the next request can succeed; 0 when allowed
+  retryAfterSeconds: number;
+}
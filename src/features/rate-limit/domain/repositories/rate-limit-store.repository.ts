@@ -0,0 +1,16 @@
+export interface RateLimitTransition<S, R> {
+  state: S;
+  result: R;
+}
+
+/**
+ * Holds the per-key state of the rate limit algorithms. `update` must be
+ * atomic: concurrent updates of one key may never both see the same state.
+ */
+export interface RateLimitStore {
+  update<S, R>(
+    key: string,
+    ttlMs: number,
+    transition: (state: S | null) => RateLimitTransition<S, R>
+  ): Promise<R>;
+}
@@ -0,0 +1,16 @@
+import type { RateLimitDecision, RateLimitRule } from '../entities/rate-limit.entity';
+import type { RateLimitTransition } from '../repositories/rate-limit-store.repository';
+
+/**
+ * A pure state machine: given the stored state (null for a new key), the rule
+ * and the current time in milliseconds, decide and return the next state.
+ */
+export interface RateLimitAlgorithm<S> {
+  consume(
+    state: S | null,
+    rule: RateLimitRule,
+    now: number
+  ): RateLimitTransition<S, RateLimitDecision>;
+}
+
+export const toSeconds = (ms: number) => Math.max(0, Math.ceil(ms / 1000));
@@ -0,0 +1,57 @@
+import { type RateLimitAlgorithm, toSeconds } from './rate-limit.algorithm';
+
+export interface SlidingWindowState {
+  windowStart: number;
+  current: number;
+  previous: number;
+}
+
+const rollOver = (state: SlidingWindowState | null, windowStart: number, windowMs: number) => {
+  if (state?.windowStart === windowStart) return state;
+  if (state?.windowStart === windowStart - windowMs) {
+    return { windowStart, current: 0, previous: state.current };
+  }
+  return { windowStart, current: 0, previous: 0 };
+};
+
+/**
+ * Sliding window counter: the previous fixed window counts in proportion to
+ * how much of it still overlaps the sliding window ending now.
+ */
+export const slidingWindow: RateLimitAlgorithm<SlidingWindowState> = {
+  consume(stored, { limit, windowSeconds }, now) {
+    const windowMs = windowSeconds * 1000;
+    const { windowStart, current, previous } = rollOver(
+      stored,
+      Math.floor(now / windowMs) * windowMs,
+      windowMs
+    );
+    const elapsed = now - windowStart;
+    const weight = 1 - elapsed / windowMs;
+    const allowed = previous * weight + current + 1 <= limit;
+    const state = { windowStart, current: allowed ? current + 1 : current, previous };
+    const estimate = previous * weight + state.current;
+
+    // Time until the estimate drops to `limit - 1`: either the previous window
+    // slides out far enough, or we wait for this window to become the previous one
+    const retryAfterMs =
+      state.current <= limit - 1
+        ? windowMs * (1 - (limit - 1 - state.current) / previous) - elapsed
+        : windowMs - elapsed + windowMs * (1 - (limit - 1) / state.current);
+
+    let resetMs = 0;
+    if (state.current > 0) resetMs = 2 * windowMs - elapsed;
+    else if (previous > 0) resetMs = windowMs - elapsed;
+
+    return {
+      state,
+      result: {
+        allowed,
+        limit,
+        remaining: Math.max(0, Math.floor(limit - estimate)),
+        resetSeconds: toSeconds(resetMs),
+        retryAfterSeconds: allowed ? 0 : Math.max(1, toSeconds(retryAfterMs)),
+      },
+    };
+  },
+};
@@ -0,0 +1,29 @@
+import { type RateLimitAlgorithm, toSeconds } from './rate-limit.algorithm';
+
+export interface TokenBucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+// The bucket holds up to `limit` tokens and refills `limit` tokens per window
+export const tokenBucket: RateLimitAlgorithm<TokenBucketState> = {
+  consume(state, { limit, windowSeconds }, now) {
+    const refillPerMs = limit / (windowSeconds * 1000);
+    const available = state
+      ? Math.min(limit, state.tokens + Math.max(0, now - state.updatedAt) * refillPerMs)
+      : limit;
+    const allowed = available >= 1;
+    const tokens = allowed ? available - 1 : available;
+
+    return {
+      state: { tokens, updatedAt: now },
+      result: {
+        allowed,
+        limit,
+        remaining: Math.floor(tokens),
+        resetSeconds: toSeconds((limit - tokens) / refillPerMs),
+        retryAfterSeconds: allowed ? 0 : Math.max(1, toSeconds((1 - tokens) / refillPerMs)),
+      },
+    };
+  },
+};
@@ -0,0 +1,24 @@
+// Domain
+export * from './domain/entities/rate-limit.entity';
+export type {
+  RateLimitStore,
+  RateLimitTransition,
+} from './domain/repositories/rate-limit-store.repository';
+export type { RateLimitAlgorithm } from './domain/services/rate-limit.algorithm';
+export { slidingWindow } from './domain/services/sliding-window.algorithm';
+export { tokenBucket } from './domain/services/token-bucket.algorithm';
+
+// Application
+export { ConsumeRateLimitUseCase } from './application/use-cases/consume-rate-limit.use-case';
+
+// Infrastructure
+export { InMemoryRateLimitStore } from './infrastructure/stores/in-memory-rate-limit.store';
+export { RedisRateLimitStore } from './infrastructure/stores/redis-rate-limit.store';
+export {
+  DEFAULT_RATE_LIMIT_POLICIES,
+  getRateLimitPolicy,
+  getRateLimitStore,
+  type RateLimitPolicyName,
+} from './infrastructure/config/rate-limit';
+export { withRateLimit } from './infrastructure/http/with-rate-limit';
+export { rateLimitOpenApi } from './infrastructure/openapi/rate-limit.openapi';
@@ -0,0 +1,110 @@
+import { RespClient } from '@/shared/redis/resp-client';
+import { getSharedState } from '@/shared/runtime/shared-state';
+
+import type { RateLimitPolicy, RateLimitRule } from '../../domain/entities/rate-limit.entity';
+import type { RateLimitStore } from '../../domain/repositories/rate-limit-store.repository';
+import {
+  InMemoryRateLimitStore,
+  type RateLimitEntries,
+} from '../stores/in-memory-rate-limit.store';
+import { RedisRateLimitStore } from '../stores/redis-rate-limit.store';
+
+export type RateLimitStorageDriver = 'memory' | 'redis';
+
+export type RateLimitPolicyName =
+  | 'auth:token'
+  | 'users:read'
+  | 'users:write'
+  | 'users:bulk'
+  | 'webhooks'
+  | 'graphql';
+
+// Budgets per route group; counters are kept separately for every caller
+export const DEFAULT_RATE_LIMIT_POLICIES: Record<RateLimitPolicyName, RateLimitPolicy> = {
+  'auth:token': {
+    anonymous: { algorithm: 'sliding-window', limit: 10, windowSeconds: 60 },
+    authenticated: { algorithm: 'sliding-window', limit: 10, windowSeconds: 60 },
+  },
+  'users:read': {
+    anonymous: { algorithm: 'token-bucket', limit: 30, windowSeconds: 60 },
+    authenticated: { algorithm: 'token-bucket', limit: 120, windowSeconds: 60 },
+  },
+  'users:write': {
+    anonymous: { algorithm: 'sliding-window', limit: 10, windowSeconds: 60 },
+    authenticated: { algorithm: 'sliding-window', limit: 30, windowSeconds: 60 },
+  },
+  'users:bulk': {
+    anonymous: { algorithm: 'sliding-window', limit: 2, windowSeconds: 60 },
+    authenticated: { algorithm: 'sliding-window', limit: 10, windowSeconds: 60 },
+  },
+  webhooks: {
+    anonymous: { algorithm: 'sliding-window', limit: 10, windowSeconds: 60 },
+    authenticated: { algorithm: 'sliding-window', limit: 60, windowSeconds: 60 },
+  },
+  // Per HTTP request; a batch or an expensive query is bounded by the GraphQL limits instead
+  graphql: {
+    anonymous: { algorithm: 'token-bucket', limit: 30, windowSeconds: 60 },
+    authenticated: { algorithm: 'token-bucket', limit: 120, windowSeconds: 60 },
+  },
+};
+
+const DEFAULT_REDIS_URL = 'redis://localhost:6379';
+
+// `auth:token` is configured as `RATE_LIMIT_AUTH_TOKEN_ANONYMOUS` and `..._AUTHENTICATED`
+const envNameOf = (name: RateLimitPolicyName, caller: keyof RateLimitPolicy) =>
+  `RATE_LIMIT_${name.replace(/\W/g, '_').toUpperCase()}_${caller.toUpperCase()}`;
+
+// `<limit>` or `<limit>/<windowSeconds>`; anything else keeps the default rule
+const overrideRule = (value: string | undefined, rule: RateLimitRule): RateLimitRule => {
+  const match = value?.trim().match(/^(\d+)(?:\/(\d+))?$/);
+  const limit = Number(match?.[1]);
+  const windowSeconds = Number(match?.[2] ?? rule.windowSeconds);
+
+  if (!match || limit <= 0 || windowSeconds <= 0) return rule;
+  return { ...rule, limit, windowSeconds };
+};
+
+/**
+ * The named policy with the limits set in the environment, e.g.
+ * `RATE_LIMIT_USERS_READ_ANONYMOUS=60` or `RATE_LIMIT_USERS_BULK_AUTHENTICATED=5/300`
+ * (5 per 300 seconds). The algorithm of each policy is fixed.
+ */
+export const getRateLimitPolicy = (name: RateLimitPolicyName): RateLimitPolicy => {
+  const { anonymous, authenticated } = DEFAULT_RATE_LIMIT_POLICIES[name];
+
+  return {
+    anonymous: overrideRule(process.env[envNameOf(name, 'anonymous')], anonymous),
+    authenticated: overrideRule(process.env[envNameOf(name, 'authenticated')], authenticated),
+  };
+};
+
+export const isRateLimitEnabled = () => process.env.RATE_LIMIT_ENABLED !== 'false';
+
+/**
+ * How many reverse proxies in front of the server append to `X-Forwarded-For`
+ * (`RATE_LIMIT_TRUSTED_PROXIES`). 0, the default, means the server is reached
+ * directly and callers are told apart by their peer address.
+ */
+export const getTrustedProxyCount = () => {
+  const count = Number(process.env.RATE_LIMIT_TRUSTED_PROXIES ?? 0);
+  return Number.isInteger(count) && count > 0 ? count : 0;
+};
+
+const createRateLimitStore = (): RateLimitStore => {
+  const driver = (process.env.RATE_LIMIT_STORE ?? 'memory') as RateLimitStorageDriver;
+
+  if (driver === 'redis') {
+    return new RedisRateLimitStore(new RespClient(process.env.REDIS_URL ?? DEFAULT_REDIS_URL));
+  }
+
+  return new InMemoryRateLimitStore(
+    getSharedState<RateLimitEntries>('rate-limit:entries', () => new Map())
+  );
+};
+
+let rateLimitStore: RateLimitStore | undefined;
+
+export const getRateLimitStore = (): RateLimitStore => {
+  rateLimitStore ??= createRateLimitStore();
+  return rateLimitStore;
+};
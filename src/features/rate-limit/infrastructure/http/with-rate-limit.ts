@@ -0,0 +1,108 @@
+import type { NextRequest } from 'next/server';
+
+import { getAccessTokenService, parseBearerToken } from '@/features/auth';
+import { getLogger } from '@/features/observability';
+
+import { tooManyRequestsProblem } from '@/shared/http/problem-details';
+
+import { ConsumeRateLimitUseCase } from '../../application/use-cases/consume-rate-limit.use-case';
+import type {
+  RateLimitDecision,
+  RateLimitIdentity,
+  RateLimitRule,
+} from '../../domain/entities/rate-limit.entity';
+import {
+  getRateLimitPolicy,
+  getRateLimitStore,
+  getTrustedProxyCount,
+  isRateLimitEnabled,
+  type RateLimitPolicyName,
+} from '../config/rate-limit';
+
+type RouteHandler<C> = (request: NextRequest, context: C) => Promise<Response>;
+
+/**
+ * The address the request came from. Next.js records the peer address of the
+ * socket as `X-Forwarded-For` when the request has none; behind trusted
+ * proxies it is the entry the outermost one appended. Each proxy appends the
+ * address it was connected from, so entries further left were written by the
+ * client and are never used.
+ */
+const clientAddressOf = (request: NextRequest) => {
+  const forwarded = (request.headers.get('X-Forwarded-For') ?? '')
+    .split(',')
+    .map((address) => address.trim())
+    .filter(Boolean);
+  return forwarded[forwarded.length - Math.max(getTrustedProxyCount(), 1)] ?? 'unknown';
+};
+
+// Signed-in callers are counted per user (token verified, no lookup); everyone else per client address
+const identify = (request: NextRequest): RateLimitIdentity => {
+  const token = parseBearerToken(request.headers.get('Authorization'));
+  const claims = token ? getAccessTokenService().verify(token) : null;
+
+  if (claims) return { key: `user:${claims.sub}`, authenticated: true };
+
+  return { key: `ip:${clientAddressOf(request)}`, authenticated: false };
+};
+
+// IETF draft "RateLimit header fields for HTTP"
+const rateLimitHeaders = (decision: RateLimitDecision, rule: RateLimitRule) => ({
+  'RateLimit-Limit': String(decision.limit),
+  'RateLimit-Remaining': String(decision.remaining),
+  'RateLimit-Reset': String(decision.resetSeconds),
+  'RateLimit-Policy': `${rule.limit};w=${rule.windowSeconds}`,
+});
+
+/**
+ * Wraps a route handler with the named policy. Over-limit requests get `429`
+ * with `Retry-After`; all other responses carry the `RateLimit-*` headers.
+ * If the store is unreachable the request is let through rather than failed.
+ */
+export const withRateLimit =
+  <C>(policyName: RateLimitPolicyName, handler: RouteHandler<C>): RouteHandler<C> =>
+  async (request, context) => {
+    if (!isRateLimitEnabled()) return handler(request, context);
+
+    const identity = identify(request);
+    const policy = getRateLimitPolicy(policyName);
+    const rule = identity.authenticated ? policy.authenticated : policy.anonymous;
+    let decision: RateLimitDecision;
+
+    try {
+      decision = await new ConsumeRateLimitUseCase(getRateLimitStore()).execute(
+        `${policyName}:${identity.key}`,
+        rule
+      );
+    } catch (error) {
+      getLogger().error('Rate limit store unavailable, not limiting', {
+        policy: policyName,
+        error,
+      });
+      return handler(request, context);
+    }
+
+    if (!decision.allowed) {
+      return tooManyRequestsProblem(
+        {
+          code: 'rate_limited',
+          message: `Rate limit exceeded, retry in ${decision.retryAfterSeconds} seconds`,
+          params: { retryAfter: decision.retryAfterSeconds },
+        },
+        request.nextUrl.pathname,
+        {
+          headers: {
+            ...rateLimitHeaders(decision, rule),
+            'Retry-After': String(decision.retryAfterSeconds),
+          },
+        }
+      );
+    }
+
+    const response = await handler(request, context);
+
+    Object.entries(rateLimitHeaders(decision, rule)).forEach(([name, value]) => {
+      response.headers.set(name, value);
+    });
+    return response;
+  };
@@ -0,0 +1,39 @@
+import { problemResponseObject } from '@/shared/http/problem-details.openapi';
+import { componentRef } from '@/shared/openapi/build-openapi-document';
+import type { OpenApiFragment } from '@/shared/openapi/openapi.types';
+
+export const rateLimitOpenApi: OpenApiFragment = {
+  components: {
+    headers: {
+      'RateLimit-Limit': {
+        description: 'Requests allowed per window',
+        schema: { type: 'integer' },
+      },
+      'RateLimit-Remaining': {
+        description: 'Requests left in the current window',
+        schema: { type: 'integer' },
+      },
+      'RateLimit-Reset': {
+        description: 'Seconds until the quota is fully restored',
+        schema: { type: 'integer' },
+      },
+      'RateLimit-Policy': {
+        description: 'Limit and window in seconds, e.g. `10;w=60`',
+        schema: { type: 'string' },
+      },
+      'Retry-After': {
+        description: 'Seconds to wait before retrying',
+        schema: { type: 'integer' },
+      },
+    },
+    responses: {
+      TooManyRequests: problemResponseObject('Rate limit exceeded', {
+        'RateLimit-Limit': componentRef('headers', 'RateLimit-Limit'),
+        'RateLimit-Remaining': componentRef('headers', 'RateLimit-Remaining'),
+        'RateLimit-Reset': componentRef('headers', 'RateLimit-Reset'),
+        'RateLimit-Policy': componentRef('headers', 'RateLimit-Policy'),
+        'Retry-After': componentRef('headers', 'Retry-After'),
+      }),
+    },
+  },
+};
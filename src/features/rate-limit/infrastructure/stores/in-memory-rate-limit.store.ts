@@ -0,0 +1,52 @@
+import type {
+  RateLimitStore,
+  RateLimitTransition,
+} from '../../domain/repositories/rate-limit-store.repository';
+
+export interface RateLimitEntry {
+  state: unknown;
+  expiresAt: number;
+}
+
+export type RateLimitEntries = Map<string, RateLimitEntry>;
+
+const SWEEP_INTERVAL_MS = 10_000;
+
+/**
+ * Keeps state in a `Map` of this process. Updates run synchronously, which
+ * makes them atomic; counters are not shared between server instances.
+ */
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private lastSweep = 0;
+
+  constructor(
+    private readonly entries: RateLimitEntries = new Map(),
+    private readonly clock: () => number = Date.now
+  ) {}
+
+  update<S, R>(
+    key: string,
+    ttlMs: number,
+    transition: (state: S | null) => RateLimitTransition<S, R>
+  ): Promise<R> {
+    const now = this.clock();
+    this.sweep(now);
+
+    const entry = this.entries.get(key);
+    const live = entry && entry.expiresAt > now ? entry : undefined;
+    const { state, result } = transition(live ? (live.state as S) : null);
+
+    this.entries.set(key, { state, expiresAt: now + ttlMs });
+    return Promise.resolve(result);
+  }
+
+  // Drops expired entries so one-off callers do not accumulate forever
+  private sweep(now: number) {
+    if (now - this.lastSweep < SWEEP_INTERVAL_MS) return;
+
+    this.lastSweep = now;
+    this.entries.forEach((entry, key) => {
+      if (entry.expiresAt <= now) this.entries.delete(key);
+    });
+  }
+}
@@ -0,0 +1,74 @@
+import type { RespClient } from '@/shared/redis/resp-client';
+
+import type {
+  RateLimitStore,
+  RateLimitTransition,
+} from '../../domain/repositories/rate-limit-store.repository';
+
+const MAX_ATTEMPTS = 5;
+const RETRY_JITTER_MS = 5;
+
+// A random pause before retrying, so a client that lost the race is not beaten again in lockstep
+const backOff = (attempt: number) =>
+  new Promise((resolve) => {
+    setTimeout(resolve, Math.random() * RETRY_JITTER_MS * attempt);
+  });
+
+/**
+ * Keeps state in Redis (or any server speaking its protocol) so every server
+ * instance shares the same counters. Each update is an optimistic transaction:
+ * WATCH the key, compute the next state, and retry if EXEC reports that
+ * another client changed the key in between.
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  // WATCH is per connection, so transactions on the shared client must not interleave
+  private tail: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly client: RespClient,
+    private readonly prefix = 'ratelimit:'
+  ) {}
+
+  update<S, R>(
+    key: string,
+    ttlMs: number,
+    transition: (state: S | null) => RateLimitTransition<S, R>
+  ): Promise<R> {
+    const run = () => this.attempt(`${this.prefix}${key}`, ttlMs, transition, 1);
+    const result = this.tail.then(run, run);
+
+    this.tail = result.catch(() => undefined);
+    return result;
+  }
+
+  private async attempt<S, R>(
+    key: string,
+    ttlMs: number,
+    transition: (state: S | null) => RateLimitTransition<S, R>,
+    attempt: number
+  ): Promise<R> {
+    let next: RateLimitTransition<S, R>;
+
+    try {
+      await this.client.command('WATCH', key);
+      const stored = await this.client.command('GET', key);
+      next = transition(typeof stored === 'string' ? (JSON.parse(stored) as S) : null);
+    } catch (error) {
+      await this.client.command('UNWATCH').catch(() => undefined);
+      throw error;
+    }
+
+    await this.client.command('MULTI');
+    await this.client.command('SET', key, JSON.stringify(next.state), 'PX', Math.ceil(ttlMs));
+    const committed = await this.client.command('EXEC');
+
+    if (committed !== null) return next.result;
+    if (attempt >= MAX_ATTEMPTS) {
+      throw new Error(
+        `Rate limit state for "${key}" kept changing; gave up after ${attempt} tries`
+      );
+    }
+    await backOff(attempt);
+    return this.attempt(key, ttlMs, transition, attempt + 1);
+  }
+}
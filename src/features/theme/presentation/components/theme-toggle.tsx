@@ -9,7 +9,7 @@ export const ThemeToggle: React.FC = () => {
     <button
       type="button"
       onClick={toggleTheme}
-      className="border-foreground/10 bg-background hover:border-foreground/20 fixed top-8 right-8 z-50 rounded-full border p-3 shadow-lg transition-all duration-300 hover:scale-110 hover:shadow-xl"
+      className="border-foreground/10 bg-background hover:border-foreground/20 fixed end-8 top-8 z-50 rounded-full border p-3 shadow-lg transition-all duration-300 hover:scale-110 hover:shadow-xl"
       aria-label="Toggle theme"
     >
       {theme === 'light' ? (
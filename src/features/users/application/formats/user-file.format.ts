@@ -0,0 +1,215 @@
+import {
+  CSV_CONTENT_TYPE,
+  CsvSyntaxError,
+  formatCsvRow,
+  parseCsv,
+} from '@/shared/serialization/csv';
+import { ValidationError, type ValidationIssue } from '@/shared/validation/schema';
+
+import type { User } from '../../domain/entities/user.entity';
+
+export type UserFileFormat = 'csv' | 'ndjson';
+
+export const USER_FILE_FORMATS: readonly UserFileFormat[] = ['csv', 'ndjson'];
+
+export const USER_FILE_CONTENT_TYPES: Record<UserFileFormat, string> = {
+  csv: CSV_CONTENT_TYPE,
+  ndjson: 'application/x-ndjson',
+};
+
+// Export column order; imports read `name`, `email` and `role` and ignore the rest
+export const USER_FILE_COLUMNS: readonly (keyof User)[] = [
+  'id',
+  'name',
+  'email',
+  'role',
+  'version',
+  'deletedAt',
+];
+
+const IMPORTED_FIELDS = ['name', 'email', 'role'] as const;
+
+export interface UserFileRow {
+  // Where the row starts in the file, for error messages (1-based)
+  line: number;
+  // The importable fields of the row; absent when the row could not be read
+  record?: Record<string, unknown>;
+  issues?: ValidationIssue[];
+}
+
+/**
+ * Resolves the file format from an explicit `format` value, falling back to
+ * the request's `Content-Type`.
+ *
+ * @throws {ValidationError} If neither names a supported format
+ */
+export const parseUserFileFormat = (
+  format: string | null,
+  contentType: string | null = null
+): UserFileFormat => {
+  const match =
+    USER_FILE_FORMATS.find((candidate) => candidate === format?.trim().toLowerCase()) ??
+    (format === null
+      ? USER_FILE_FORMATS.find((candidate) =>
+          contentType?.toLowerCase().includes(USER_FILE_CONTENT_TYPES[candidate])
+        )
+      : undefined);
+
+  if (!match) {
+    throw new ValidationError([
+      {
+        field: 'format',
+        code: 'invalid_enum',
+        message: `format must be one of: ${USER_FILE_FORMATS.join(', ')}`,
+        params: { options: USER_FILE_FORMATS.join(', ') },
+      },
+    ]);
+  }
+
+  return match;
+};
+
+// Text that precedes the first row (the CSV header)
+export const userFileHeader = (format: UserFileFormat) =>
+  format === 'csv' ? formatCsvRow(USER_FILE_COLUMNS) : '';
+
+export const serializeUsers = (users: readonly User[], format: UserFileFormat) =>
+  users
+    .map((user) =>
+      format === 'csv'
+        ? formatCsvRow(USER_FILE_COLUMNS.map((column) => user[column]))
+        : `${JSON.stringify(Object.fromEntries(USER_FILE_COLUMNS.map((c) => [c, user[c]])))}\n`
+    )
+    .join('');
+
+const pickImportedFields = (source: Record<string, unknown>) =>
+  Object.fromEntries(
+    IMPORTED_FIELDS.filter((field) => source[field] !== undefined && source[field] !== '').map(
+      (field) => [field, source[field]]
+    )
+  );
+
+const rowIssue = (message: string, params: ValidationIssue['params']): ValidationIssue[] => [
+  { field: '', code: 'invalid_format', message, params },
+];
+
+const parseCsvRows = (text: string): UserFileRow[] => {
+  const [header, ...records] = parseCsv(text);
+  const columns = header?.values.map((column) => column.trim().toLowerCase()) ?? [];
+  const missing = ['name', 'email'].filter((column) => !columns.includes(column));
+
+  if (missing.length > 0) {
+    throw new ValidationError([
+      {
+        field: 'header',
+        code: 'required',
+        message: `The CSV header must name the columns: ${missing.join(', ')}`,
+        params: { columns: missing.join(', ') },
+      },
+    ]);
+  }
+
+  return records.map(({ line, values }) =>
+    values.length === columns.length
+      ? {
+          line,
+          record: pickImportedFields(
+            Object.fromEntries(columns.map((column, i) => [column, values[i].trim()]))
+          ),
+        }
+      : {
+          line,
+          issues: rowIssue(`Expected ${columns.length} values, got ${values.length}`, {
+            format: 'csv_row',
+            expected: columns.length,
+            actual: values.length,
+          }),
+        }
+  );
+};
+
+const parseNdjsonRow = (source: string, line: number): UserFileRow => {
+  try {
+    const value = JSON.parse(source) as unknown;
+
+    if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+      return { line, record: pickImportedFields(value as Record<string, unknown>) };
+    }
+  } catch {
+    return { line, issues: rowIssue('The line is not valid JSON', { format: 'json' }) };
+  }
+  return { line, issues: rowIssue('Each line must be a JSON object', { format: 'json_object' }) };
+};
+
+// The row limit concerns the file as a whole, so it is reported on the body
+export const tooManyRowsError = (max: number) =>
+  new ValidationError([
+    {
+      field: 'body',
+      code: 'too_long',
+      message: `An import may contain at most ${max} rows`,
+      params: { max, unit: 'rows' },
+    },
+  ]);
+
+/**
+ * Returns a callback that counts rows in a file as it is read, chunk by
+ * chunk, so an upload with too many rows is refused before it has been read
+ * whole. It counts the non-blank lines that have ended (outside quoted CSV
+ * fields, and without the CSV header); `parseUserFile` gives the exact count.
+ *
+ * @throws {ValidationError} From the callback, once more than `maxRows` rows have been read
+ */
+export const createUserFileRowLimit = (format: UserFileFormat, maxRows: number) => {
+  let rows = format === 'csv' ? -1 : 0;
+  let blank = true;
+  let quoted = false;
+
+  return (chunk: string) => {
+    for (let i = 0; i < chunk.length; i += 1) {
+      const char = chunk[i];
+
+      if (char === '\n' && !quoted) {
+        if (!blank) rows += 1;
+        if (rows > maxRows) throw tooManyRowsError(maxRows);
+        blank = true;
+      } else if (!/\s/.test(char)) {
+        blank = false;
+        // Line breaks inside quoted CSV fields do not end the row
+        if (char === '"' && format === 'csv') quoted = !quoted;
+      }
+    }
+  };
+};
+
+/**
+ * Splits an uploaded file into rows. Only file-level problems (a missing CSV
+ * header, broken quoting) throw; problems with single rows are reported on
+ * the row so the rest of the file can still be checked.
+ *
+ * @throws {ValidationError} If the file cannot be read as `format`
+ */
+export const parseUserFile = (text: string, format: UserFileFormat): UserFileRow[] => {
+  if (format === 'ndjson') {
+    return text
+      .split(/\r?\n/)
+      .map((source, index) => ({ source, line: index + 1 }))
+      .filter(({ source }) => source.trim() !== '')
+      .map(({ source, line }) => parseNdjsonRow(source, line));
+  }
+
+  try {
+    return parseCsvRows(text);
+  } catch (error) {
+    if (!(error instanceof CsvSyntaxError)) throw error;
+
+    throw new ValidationError([
+      {
+        field: 'body',
+        code: 'invalid_format',
+        message: error.message,
+        params: { format: 'csv', line: error.line },
+      },
+    ]);
+  }
+};
@@ -0,0 +1,148 @@
+import { ValidationError, type ValidationIssue } from '@/shared/validation/schema';
+
+import type { UserId } from '../../domain/entities/user.entity';
+import type { CreateUserCommand, UpdateUserCommand } from './user.schema';
+
+export type BulkUserOperation =
+  | { op: 'create'; data: CreateUserCommand }
+  | { op: 'update'; id: UserId; data: UpdateUserCommand; version?: number }
+  | { op: 'delete'; id: UserId; version?: number };
+
+// `atomic`: all operations are applied or none is.
+// `continue`: every operation is applied on its own and failures are reported.
+export type BulkMode = 'atomic' | 'continue';
+
+export interface BulkUserRequest {
+  mode: BulkMode;
+  operations: BulkUserOperation[];
+}
+
+export const BULK_MODES: readonly BulkMode[] = ['atomic', 'continue'];
+export const BULK_OPERATION_TYPES: readonly BulkUserOperation['op'][] = [
+  'create',
+  'update',
+  'delete',
+];
+export const MAX_BULK_OPERATIONS = 100;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+const parseOperation = (
+  value: unknown,
+  field: string,
+  issues: ValidationIssue[]
+): BulkUserOperation | null => {
+  if (!isPlainObject(value)) {
+    issues.push({
+      field,
+      code: 'invalid_type',
+      message: `${field} must be an object`,
+      params: { expected: 'object' },
+    });
+    return null;
+  }
+
+  const { op, id, data, version } = value;
+  const before = issues.length;
+
+  if (!BULK_OPERATION_TYPES.includes(op as BulkUserOperation['op'])) {
+    issues.push({
+      field: `${field}.op`,
+      code: 'invalid_enum',
+      message: `${field}.op must be one of: ${BULK_OPERATION_TYPES.join(', ')}`,
+      params: { options: BULK_OPERATION_TYPES.join(', ') },
+    });
+  }
+  if (op !== 'create' && !isPositiveInteger(id)) {
+    issues.push({
+      field: `${field}.id`,
+      code: 'invalid_type',
+      message: `${field}.id must be a user id`,
+      params: { expected: 'user_id' },
+    });
+  }
+  if (op !== 'delete' && !isPlainObject(data)) {
+    issues.push({
+      field: `${field}.data`,
+      code: 'invalid_type',
+      message: `${field}.data must be an object`,
+      params: { expected: 'object' },
+    });
+  }
+  if (version !== undefined && !isPositiveInteger(version)) {
+    issues.push({
+      field: `${field}.version`,
+      code: 'invalid_type',
+      message: `${field}.version must be a positive integer`,
+      params: { expected: 'positive_integer' },
+    });
+  }
+
+  if (issues.length > before) return null;
+
+  // Field-level rules for `data` are checked per operation by the use cases,
+  // so one invalid row does not reject the whole request in `continue` mode.
+  return value as unknown as BulkUserOperation;
+};
+
+/**
+ * Validates the bulk request envelope: `{ mode?, operations: [...] }`.
+ *
+ * @throws {ValidationError} If the envelope is malformed
+ */
+export const parseBulkUserRequest = (input: unknown): BulkUserRequest => {
+  if (!isPlainObject(input)) {
+    throw new ValidationError([
+      {
+        field: '',
+        code: 'invalid_type',
+        message: 'Request body must be a JSON object',
+        params: { expected: 'object' },
+      },
+    ]);
+  }
+
+  const issues: ValidationIssue[] = [];
+  const mode = input.mode ?? 'atomic';
+
+  if (!BULK_MODES.includes(mode as BulkMode)) {
+    issues.push({
+      field: 'mode',
+      code: 'invalid_enum',
+      message: `mode must be one of: ${BULK_MODES.join(', ')}`,
+      params: { options: BULK_MODES.join(', ') },
+    });
+  }
+
+  if (!Array.isArray(input.operations) || input.operations.length === 0) {
+    issues.push({
+      field: 'operations',
+      code: 'required',
+      message: 'operations must be a non-empty array',
+      params: { expected: 'array' },
+    });
+  } else if (input.operations.length > MAX_BULK_OPERATIONS) {
+    issues.push({
+      field: 'operations',
+      code: 'too_long',
+      message: `operations must contain at most ${MAX_BULK_OPERATIONS} items`,
+      params: { max: MAX_BULK_OPERATIONS, unit: 'items' },
+    });
+  }
+
+  const operations = Array.isArray(input.operations)
+    ? input.operations.map((operation, index) =>
+        parseOperation(operation, `operations[${index}]`, issues)
+      )
+    : [];
+
+  if (issues.length > 0) {
+    throw new ValidationError(issues);
+  }
+
+  return { mode: mode as BulkMode, operations: operations as BulkUserOperation[] };
+};
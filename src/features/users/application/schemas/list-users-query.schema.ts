@@ -0,0 +1,128 @@
+import { ValidationError, type ValidationIssue } from '@/shared/validation/schema';
+
+import { type User, USER_ROLES, type UserRole } from '../../domain/entities/user.entity';
+
+export type UserSortField = keyof Pick<User, 'id' | 'name' | 'email' | 'role'>;
+
+export interface UserSort {
+  field: UserSortField;
+  direction: 'asc' | 'desc';
+}
+
+export interface ListUsersQuery {
+  q?: string;
+  roles?: UserRole[];
+  // List soft-deleted users instead of active ones
+  deleted?: boolean;
+  sort?: UserSort[];
+  limit?: number;
+  cursor?: string;
+}
+
+export const USER_SORT_FIELDS: readonly UserSortField[] = ['id', 'name', 'email', 'role'];
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+const parseSort = (value: string, issues: ValidationIssue[]): UserSort[] =>
+  value
+    .split(',')
+    .map((token) => token.trim())
+    .filter(Boolean)
+    .flatMap((token): UserSort[] => {
+      const field = token.replace(/^[-+]/, '') as UserSortField;
+
+      if (!USER_SORT_FIELDS.includes(field)) {
+        issues.push({
+          field: 'sort',
+          code: 'invalid_enum',
+          message: `sort must use fields: ${USER_SORT_FIELDS.join(', ')}`,
+          params: { options: USER_SORT_FIELDS.join(', ') },
+        });
+        return [];
+      }
+
+      return [{ field, direction: token.startsWith('-') ? 'desc' : 'asc' }];
+    });
+
+const parseRoles = (values: string[], issues: ValidationIssue[]): UserRole[] =>
+  values
+    .flatMap((value) => value.split(','))
+    .map((value) => value.trim())
+    .filter(Boolean)
+    .flatMap((value) => {
+      const role = USER_ROLES.find((r) => r.toLowerCase() === value.toLowerCase());
+
+      if (!role) {
+        issues.push({
+          field: 'role',
+          code: 'invalid_enum',
+          message: `role must be one of: ${USER_ROLES.join(', ')}`,
+          params: { options: USER_ROLES.join(', ') },
+        });
+        return [];
+      }
+
+      return [role];
+    });
+
+const parseDeleted = (value: string, issues: ValidationIssue[]) => {
+  if (value === 'true' || value === 'false') return value === 'true';
+
+  issues.push({
+    field: 'deleted',
+    code: 'invalid_enum',
+    message: 'deleted must be one of: true, false',
+    params: { options: 'true, false' },
+  });
+  return undefined;
+};
+
+const parseLimit = (value: string, issues: ValidationIssue[]) => {
+  const limit = Number(value);
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    issues.push({
+      field: 'limit',
+      code: 'invalid_type',
+      message: `limit must be an integer between 1 and ${MAX_PAGE_SIZE}`,
+      params: { expected: 'integer', min: 1, max: MAX_PAGE_SIZE },
+    });
+    return undefined;
+  }
+
+  return limit;
+};
+
+/**
+ * Parses `GET /api/users` query parameters:
+ * `q`, `role` (repeatable or comma separated), `deleted=true`, `sort=name,-email`,
+ * `limit` and `cursor`.
+ *
+ * @throws {ValidationError} If any parameter is invalid
+ */
+export const parseListUsersQuery = (searchParams: URLSearchParams): ListUsersQuery => {
+  const issues: ValidationIssue[] = [];
+  const q = searchParams.get('q')?.trim();
+  const roles = parseRoles(searchParams.getAll('role'), issues);
+  const deleted = searchParams.has('deleted')
+    ? parseDeleted(searchParams.get('deleted') ?? '', issues)
+    : undefined;
+  const sort = parseSort(searchParams.get('sort') ?? '', issues);
+  const limit = searchParams.has('limit')
+    ? parseLimit(searchParams.get('limit') ?? '', issues)
+    : undefined;
+  const cursor = searchParams.get('cursor') || undefined;
+
+  if (issues.length > 0) {
+    throw new ValidationError(issues);
+  }
+
+  return {
+    ...(q && { q }),
+    ...(roles.length > 0 && { roles }),
+    ...(deleted && { deleted }),
+    ...(sort.length > 0 && { sort }),
+    ...(limit !== undefined && { limit }),
+    ...(cursor && { cursor }),
+  };
+};
@@ -0,0 +1,61 @@
+import type { ObjectSchema } from '@/shared/validation/schema';
+
+import {
+  type CreateUserInput,
+  type UpdateUserInput,
+  USER_ROLES,
+  type UserRole,
+} from '../../domain/entities/user.entity';
+
+export type CreateUserCommand = Omit<CreateUserInput, 'role'> & { role?: UserRole };
+export type UpdateUserCommand = UpdateUserInput;
+export type ReplaceUserCommand = CreateUserInput;
+
+export const USER_NAME_MIN_LENGTH = 2;
+export const USER_NAME_MAX_LENGTH = 100;
+export const USER_EMAIL_MAX_LENGTH = 254;
+
+export const createUserSchema: ObjectSchema<CreateUserCommand> = {
+  name: 'CreateUserRequest',
+  fields: {
+    name: {
+      type: 'string',
+      required: true,
+      minLength: USER_NAME_MIN_LENGTH,
+      maxLength: USER_NAME_MAX_LENGTH,
+      description: 'Full name',
+    },
+    email: {
+      type: 'string',
+      required: true,
+      format: 'email',
+      maxLength: USER_EMAIL_MAX_LENGTH,
+      description: 'Email address',
+    },
+    role: {
+      type: 'string',
+      enum: USER_ROLES,
+      description: 'Defaults to "User" when omitted',
+    },
+  },
+};
+
+// PATCH semantics: every field is optional, but present fields follow the create rules
+export const updateUserSchema: ObjectSchema<UpdateUserCommand> = {
+  name: 'UpdateUserRequest',
+  fields: {
+    name: { ...createUserSchema.fields.name, required: false },
+    email: { ...createUserSchema.fields.email, required: false },
+    role: { ...createUserSchema.fields.role, description: 'User role' },
+  },
+};
+
+// PUT semantics: the whole writable representation is required
+export const replaceUserSchema: ObjectSchema<ReplaceUserCommand> = {
+  name: 'ReplaceUserRequest',
+  fields: {
+    name: createUserSchema.fields.name,
+    email: createUserSchema.fields.email,
+    role: { ...createUserSchema.fields.role, required: true, description: 'User role' },
+  },
+};
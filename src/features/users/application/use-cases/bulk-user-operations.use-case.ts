@@ -0,0 +1,157 @@
+import { ValidationError, type ValidationIssue } from '@/shared/validation/schema';
+
+import type { User, UserId } from '../../domain/entities/user.entity';
+import { UserAccessDeniedError } from '../../domain/errors/user-access-denied.error';
+import { UserVersionConflictError } from '../../domain/errors/user-version-conflict.error';
+import type { Actor } from '../../domain/policies/user-access.policy';
+import type { UserRepository } from '../../domain/repositories/user.repository';
+import type { BulkUserOperation, BulkUserRequest } from '../schemas/bulk-user-operations.schema';
+import { CreateUserUseCase } from './create-user.use-case';
+import { DeleteUserUseCase } from './delete-user.use-case';
+import { UpdateUserUseCase } from './update-user.use-case';
+
+export type BulkOutcome =
+  | 'created'
+  | 'updated'
+  | 'deleted'
+  | 'invalid'
+  | 'not_found'
+  | 'conflict'
+  | 'forbidden'
+  // Atomic mode only: succeeded but undone, or never attempted, because another operation failed
+  | 'rolled_back'
+  | 'skipped';
+
+export interface BulkOperationResult {
+  index: number;
+  op: BulkUserOperation['op'];
+  id?: UserId;
+  outcome: BulkOutcome;
+  data?: User;
+  issues?: ValidationIssue[];
+}
+
+export interface BulkUserResult {
+  committed: boolean;
+  results: BulkOperationResult[];
+}
+
+const SUCCESS_OUTCOMES: readonly BulkOutcome[] = ['created', 'updated', 'deleted'];
+
+export const isSuccessfulOutcome = (outcome: BulkOutcome) => SUCCESS_OUTCOMES.includes(outcome);
+
+const applyOperation = async (
+  repository: UserRepository,
+  actor: Actor,
+  operation: BulkUserOperation,
+  index: number
+): Promise<BulkOperationResult> => {
+  const base = { index, op: operation.op, ...(operation.op !== 'create' && { id: operation.id }) };
+
+  try {
+    switch (operation.op) {
+      case 'create': {
+        const user = await new CreateUserUseCase(repository).execute(actor, operation.data);
+        return { ...base, id: user.id, outcome: 'created', data: user };
+      }
+      case 'update': {
+        const user = await new UpdateUserUseCase(repository).execute(
+          actor,
+          operation.id,
+          operation.data,
+          { expectedVersion: operation.version }
+        );
+        return user
+          ? { ...base, outcome: 'updated', data: user }
+          : { ...base, outcome: 'not_found' };
+      }
+      default: {
+        const deleted = await new DeleteUserUseCase(repository).execute(actor, operation.id, {
+          expectedVersion: operation.version,
+        });
+        return { ...base, outcome: deleted ? 'deleted' : 'not_found' };
+      }
+    }
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return { ...base, outcome: 'invalid', issues: error.issues };
+    }
+    if (error instanceof UserVersionConflictError) {
+      return { ...base, outcome: 'conflict' };
+    }
+    if (error instanceof UserAccessDeniedError) {
+      return { ...base, outcome: 'forbidden' };
+    }
+    throw error;
+  }
+};
+
+// Operations run one after another, in request order
+const applySequentially = (
+  repository: UserRepository,
+  actor: Actor,
+  operations: BulkUserOperation[],
+  stopOnFailure: boolean
+) =>
+  operations.reduce<Promise<BulkOperationResult[]>>(async (previous, operation, index) => {
+    const results = await previous;
+
+    if (stopOnFailure && results.some((result) => !isSuccessfulOutcome(result.outcome))) {
+      return [...results, { index, op: operation.op, outcome: 'skipped' }];
+    }
+
+    return [...results, await applyOperation(repository, actor, operation, index)];
+  }, Promise.resolve([]));
+
+/**
+ * Applies a mixed list of create/update/delete operations with the same
+ * validation and concurrency rules as the single-user use cases.
+ */
+export class BulkUserOperationsUseCase {
+  constructor(private readonly userRepository: UserRepository) {}
+
+  /**
+   * Each operation is authorized for `actor` individually; denied ones get the
+   * `forbidden` outcome (and roll back the batch in atomic mode).
+   */
+  async execute(actor: Actor, { mode, operations }: BulkUserRequest): Promise<BulkUserResult> {
+    if (mode === 'continue') {
+      return {
+        committed: true,
+        results: await applySequentially(this.userRepository, actor, operations, false),
+      };
+    }
+
+    // Rejecting the transaction callback rolls back; the partial results are kept here
+    const rollback = new Error('Bulk operation rolled back');
+    let attempted: BulkOperationResult[] = [];
+
+    try {
+      return await this.userRepository.transaction(async (transaction) => {
+        attempted = await applySequentially(transaction, actor, operations, true);
+
+        if (attempted.some((result) => !isSuccessfulOutcome(result.outcome))) {
+          throw rollback;
+        }
+
+        return { committed: true, results: attempted };
+      });
+    } catch (error) {
+      if (error !== rollback) throw error;
+
+      return {
+        committed: false,
+        results: attempted.map((result) =>
+          isSuccessfulOutcome(result.outcome)
+            ? {
+                index: result.index,
+                op: result.op,
+                ...(result.op !== 'create' && { id: result.id }),
+                outcome: 'rolled_back',
+              }
+            : result
+        ),
+      };
+    }
+  }
+}
@@ -0,0 +1,27 @@
+import { USER_ROLES, type UserRole } from '../../domain/entities/user.entity';
+import type { UserRepository } from '../../domain/repositories/user.repository';
+
+export type UserState = 'active' | 'deleted';
+
+export type UserCounts = Record<UserState, Record<UserRole, number>>;
+
+const zeroPerRole = () =>
+  Object.fromEntries(USER_ROLES.map((role) => [role, 0])) as Record<UserRole, number>;
+
+/**
+ * Counts users per role, active and soft-deleted separately. For operational
+ * metrics: it takes no actor and must not be exposed to API callers.
+ */
+export class CountUsersUseCase {
+  constructor(private readonly userRepository: UserRepository) {}
+
+  async execute(): Promise<UserCounts> {
+    const users = await this.userRepository.findAll({ includeDeleted: true });
+    const counts: UserCounts = { active: zeroPerRole(), deleted: zeroPerRole() };
+
+    users.forEach((user) => {
+      counts[user.deletedAt ? 'deleted' : 'active'][user.role] += 1;
+    });
+    return counts;
+  }
+}
@@ -0,0 +1,26 @@
+import { parse } from '@/shared/validation/schema';
+
+import { DEFAULT_USER_ROLE } from '../../domain/entities/user.entity';
+import { UserAccessDeniedError } from '../../domain/errors/user-access-denied.error';
+import { type Actor, canCreateUser } from '../../domain/policies/user-access.policy';
+import type { UserRepository } from '../../domain/repositories/user.repository';
+import { type CreateUserCommand, createUserSchema } from '../schemas/user.schema';
+
+export class CreateUserUseCase {
+  constructor(private readonly userRepository: UserRepository) {}
+
+  /**
+   * @throws {UserAccessDeniedError} If `actor` may not create users
+   * @throws {ValidationError} If the payload does not match `createUserSchema`
+   */
+  execute(actor: Actor, command: CreateUserCommand) {
+    if (!canCreateUser(actor)) throw new UserAccessDeniedError('create');
+
+    const { name, email, role } = parse(createUserSchema, command);
+
+    return this.userRepository.create(
+      { name, email, role: role ?? DEFAULT_USER_ROLE },
+      { actorId: actor.id }
+    );
+  }
+}
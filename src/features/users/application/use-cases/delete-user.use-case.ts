@@ -0,0 +1,18 @@
+import type { UserId } from '../../domain/entities/user.entity';
+import { UserAccessDeniedError } from '../../domain/errors/user-access-denied.error';
+import { type Actor, canDeleteUser } from '../../domain/policies/user-access.policy';
+import type { UserRepository, WriteOptions } from '../../domain/repositories/user.repository';
+
+export class DeleteUserUseCase {
+  constructor(private readonly userRepository: UserRepository) {}
+
+  /**
+   * @throws {UserAccessDeniedError} If `actor` may not delete users
+   * @throws {UserVersionConflictError} If `options.expectedVersion` is stale
+   */
+  execute(actor: Actor, id: UserId, options?: WriteOptions) {
+    if (!canDeleteUser(actor)) return Promise.reject(new UserAccessDeniedError('delete'));
+
+    return this.userRepository.delete(id, { ...options, actorId: actor.id });
+  }
+}
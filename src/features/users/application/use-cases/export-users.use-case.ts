@@ -0,0 +1,33 @@
+import type { User } from '../../domain/entities/user.entity';
+import type { Actor } from '../../domain/policies/user-access.policy';
+import type { UserRepository } from '../../domain/repositories/user.repository';
+import { type ListUsersQuery, MAX_PAGE_SIZE } from '../schemas/list-users-query.schema';
+import { ListUsersUseCase, type UserPage } from './list-users.use-case';
+
+/**
+ * Yields every user matching the list filters, one page at a time, so
+ * callers can stream an export without holding it all in memory.
+ */
+export class ExportUsersUseCase {
+  constructor(private readonly userRepository: UserRepository) {}
+
+  /**
+   * The first page is fetched before returning, so permission and query
+   * errors surface here rather than halfway through a streamed response.
+   * `limit` and `cursor` are ignored.
+   *
+   * @throws {UserAccessDeniedError} If `actor` may not read (deleted) users
+   */
+  async execute(actor: Actor, query: ListUsersQuery = {}): Promise<AsyncGenerator<User[], void>> {
+    const listUsers = new ListUsersUseCase(this.userRepository);
+    const fetchPage = (after?: string) =>
+      listUsers.execute(actor, { ...query, limit: MAX_PAGE_SIZE, cursor: after });
+
+    async function* pages(page: UserPage): AsyncGenerator<User[], void> {
+      yield page.data;
+      if (page.nextCursor) yield* pages(await fetchPage(page.nextCursor));
+    }
+
+    return pages(await fetchPage());
+  }
+}
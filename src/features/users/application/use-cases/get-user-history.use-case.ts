@@ -0,0 +1,23 @@
+import type { UserId } from '../../domain/entities/user.entity';
+import { UserAccessDeniedError } from '../../domain/errors/user-access-denied.error';
+import { type Actor, canReadUserHistory } from '../../domain/policies/user-access.policy';
+import type { UserRepository } from '../../domain/repositories/user.repository';
+
+export class GetUserHistoryUseCase {
+  constructor(private readonly userRepository: UserRepository) {}
+
+  /**
+   * Returns the audit entries of a user (deleted users included), oldest
+   * first, or null if the user does not exist.
+   *
+   * @throws {UserAccessDeniedError} If `actor` may not read this user's history
+   */
+  async execute(actor: Actor, id: UserId) {
+    const target = await this.userRepository.findById(id, { includeDeleted: true });
+
+    if (!target) return null;
+    if (!canReadUserHistory(actor, target)) throw new UserAccessDeniedError('read-history');
+
+    return this.userRepository.findHistory(id);
+  }
+}
@@ -0,0 +1,17 @@
+import type { UserId } from '../../domain/entities/user.entity';
+import { UserAccessDeniedError } from '../../domain/errors/user-access-denied.error';
+import { type Actor, canReadUsers } from '../../domain/policies/user-access.policy';
+import type { UserRepository } from '../../domain/repositories/user.repository';
+
+export class GetUserUseCase {
+  constructor(private readonly userRepository: UserRepository) {}
+
+  /**
+   * @throws {UserAccessDeniedError} If `actor` may not read users
+   */
+  execute(actor: Actor, id: UserId) {
+    if (!canReadUsers(actor)) return Promise.reject(new UserAccessDeniedError('read'));
+
+    return this.userRepository.findById(id);
+  }
+}
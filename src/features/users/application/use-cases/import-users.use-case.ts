@@ -0,0 +1,145 @@
+import { parse, ValidationError, type ValidationIssue } from '@/shared/validation/schema';
+
+import type { User } from '../../domain/entities/user.entity';
+import { UserAccessDeniedError } from '../../domain/errors/user-access-denied.error';
+import { type Actor, canCreateUser } from '../../domain/policies/user-access.policy';
+import type { UserRepository } from '../../domain/repositories/user.repository';
+import { tooManyRowsError, type UserFileRow } from '../formats/user-file.format';
+import { type CreateUserCommand, createUserSchema } from '../schemas/user.schema';
+import { CreateUserUseCase } from './create-user.use-case';
+
+export const MAX_IMPORT_ROWS = 1000;
+// Uploads are refused past this size while they are read; a full import stays well below it
+export const MAX_IMPORT_BYTES = 1024 * 1024;
+
+export interface UserImportRowError {
+  line: number;
+  issues: ValidationIssue[];
+}
+
+export interface UserImportResult {
+  dryRun: boolean;
+  // True once the users have been created; never true for a dry run
+  committed: boolean;
+  summary: { total: number; valid: number; invalid: number };
+  errors: UserImportRowError[];
+  data: User[];
+}
+
+interface CheckedRow {
+  line: number;
+  command?: CreateUserCommand;
+  issues: ValidationIssue[];
+}
+
+const validateRow = ({ line, record, issues = [] }: UserFileRow): CheckedRow => {
+  if (!record) return { line, issues };
+
+  try {
+    return { line, command: parse(createUserSchema, record), issues };
+  } catch (error) {
+    if (!(error instanceof ValidationError)) throw error;
+    return { line, issues: [...issues, ...error.issues] };
+  }
+};
+
+// Validates every row and flags emails that are taken, without writing anything
+const checkRows = async (
+  repository: UserRepository,
+  rows: readonly UserFileRow[],
+  dryRun: boolean
+): Promise<{ result: UserImportResult; commands: CreateUserCommand[] }> => {
+  const existing = new Map(
+    (await repository.findAll({ includeDeleted: true })).map((user) => [
+      user.email.toLowerCase(),
+      user.id,
+    ])
+  );
+  const seen = new Map<string, number>();
+
+  const checked = rows.map(validateRow).map((row): CheckedRow => {
+    if (!row.command) return row;
+
+    const email = row.command.email.toLowerCase();
+    const userId = existing.get(email);
+    const firstLine = seen.get(email);
+
+    if (userId === undefined && firstLine === undefined) {
+      seen.set(email, row.line);
+      return row;
+    }
+
+    const issue: ValidationIssue =
+      userId !== undefined
+        ? {
+            field: 'email',
+            code: 'duplicate',
+            message: `email is already used by user ${userId}`,
+            params: { source: 'user', userId },
+          }
+        : {
+            field: 'email',
+            code: 'duplicate',
+            message: `email is already used on line ${firstLine}`,
+            params: { source: 'line', line: firstLine ?? 0 },
+          };
+    return { line: row.line, issues: [...row.issues, issue] };
+  });
+  const errors = checked
+    .filter((row) => row.issues.length > 0)
+    .map(({ line, issues }) => ({ line, issues }));
+
+  return {
+    result: {
+      dryRun,
+      committed: false,
+      summary: { total: rows.length, valid: rows.length - errors.length, invalid: errors.length },
+      errors,
+      data: [],
+    },
+    commands: checked.flatMap((row) => (row.command ? [row.command] : [])),
+  };
+};
+
+/**
+ * Creates users from the rows of an uploaded file. The import is all or
+ * nothing: if any row is invalid, or its email is already taken (by an
+ * existing user, deleted ones included, or an earlier row), nothing is
+ * created and every problem is reported by line.
+ */
+export class ImportUsersUseCase {
+  constructor(private readonly userRepository: UserRepository) {}
+
+  /**
+   * @throws {UserAccessDeniedError} If `actor` may not create users
+   * @throws {ValidationError} If the file has more than `MAX_IMPORT_ROWS` rows
+   */
+  async execute(
+    actor: Actor,
+    rows: readonly UserFileRow[],
+    { dryRun = false }: { dryRun?: boolean } = {}
+  ): Promise<UserImportResult> {
+    if (!canCreateUser(actor)) throw new UserAccessDeniedError('create');
+    if (rows.length > MAX_IMPORT_ROWS) throw tooManyRowsError(MAX_IMPORT_ROWS);
+
+    if (dryRun) return (await checkRows(this.userRepository, rows, true)).result;
+
+    // Checked inside the transaction so no concurrent write can take an email in between
+    return this.userRepository.transaction(async (repository) => {
+      const { result, commands } = await checkRows(repository, rows, false);
+
+      if (result.errors.length > 0) return result;
+
+      const createUser = new CreateUserUseCase(repository);
+      const data = await commands.reduce<Promise<User[]>>(
+        async (previous, command) => [
+          ...(await previous),
+          await createUser.execute(actor, command),
+        ],
+        Promise.resolve([])
+      );
+
+      return { ...result, committed: true, data };
+    });
+  }
+}
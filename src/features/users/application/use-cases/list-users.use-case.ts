@@ -0,0 +1,108 @@
+import { ValidationError } from '@/shared/validation/schema';
+
+import type { User } from '../../domain/entities/user.entity';
+import { UserAccessDeniedError } from '../../domain/errors/user-access-denied.error';
+import {
+  type Actor,
+  canReadDeletedUsers,
+  canReadUsers,
+} from '../../domain/policies/user-access.policy';
+import type { UserRepository } from '../../domain/repositories/user.repository';
+import {
+  DEFAULT_PAGE_SIZE,
+  type ListUsersQuery,
+  type UserSort,
+} from '../schemas/list-users-query.schema';
+
+export interface UserPage {
+  data: User[];
+  total: number;
+  nextCursor: string | null;
+}
+
+type CursorKey = (string | number)[];
+
+// `id` is always the final tie-breaker so ordering (and therefore paging) is stable
+const sortKey = (user: User, sort: UserSort[]): CursorKey => [
+  ...sort.map(({ field }) => user[field]),
+  user.id,
+];
+
+const compareKeys = (a: CursorKey, b: CursorKey, sort: UserSort[]) => {
+  for (let i = 0; i < a.length; i += 1) {
+    const direction = sort[i]?.direction === 'desc' ? -1 : 1;
+    const result =
+      typeof a[i] === 'number' && typeof b[i] === 'number'
+        ? (a[i] as number) - (b[i] as number)
+        : String(a[i]).localeCompare(String(b[i]), undefined, { sensitivity: 'base' });
+
+    if (result !== 0) return result * direction;
+  }
+  return 0;
+};
+
+const encodeCursor = (key: CursorKey) => Buffer.from(JSON.stringify(key)).toString('base64url');
+
+const decodeCursor = (cursor: string, length: number): CursorKey => {
+  try {
+    const key = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as unknown;
+
+    if (Array.isArray(key) && key.length === length) return key as CursorKey;
+  } catch {
+    // Fall through to the validation error below
+  }
+  throw new ValidationError([
+    {
+      field: 'cursor',
+      code: 'invalid_format',
+      message: 'cursor is invalid or expired',
+      params: { format: 'cursor' },
+    },
+  ]);
+};
+
+const matchesSearch = (user: User, q: string) => {
+  const needle = q.toLowerCase();
+  return user.name.toLowerCase().includes(needle) || user.email.toLowerCase().includes(needle);
+};
+
+/**
+ * Filters, sorts and paginates users. Pagination is keyset based: the cursor
+ * encodes the sort key of the last returned user, so inserts and deletes
+ * between requests never cause rows to be skipped or repeated.
+ */
+export class ListUsersUseCase {
+  constructor(private readonly userRepository: UserRepository) {}
+
+  /**
+   * Lists active users, or only soft-deleted ones when `deleted` is set.
+   *
+   * @throws {UserAccessDeniedError} If `actor` may not read (deleted) users
+   */
+  async execute(
+    actor: Actor,
+    { q, roles, deleted = false, sort = [], limit = DEFAULT_PAGE_SIZE, cursor }: ListUsersQuery = {}
+  ): Promise<UserPage> {
+    if (!canReadUsers(actor)) throw new UserAccessDeniedError('read');
+    if (deleted && !canReadDeletedUsers(actor)) throw new UserAccessDeniedError('read-deleted');
+
+    const users = (await this.userRepository.findAll({ includeDeleted: deleted }))
+      .filter((user) => !deleted || user.deletedAt)
+      .filter((user) => !roles?.length || roles.includes(user.role))
+      .filter((user) => !q || matchesSearch(user, q))
+      .sort((a, b) => compareKeys(sortKey(a, sort), sortKey(b, sort), sort));
+
+    const after = cursor ? decodeCursor(cursor, sort.length + 1) : null;
+    const remaining = after
+      ? users.filter((user) => compareKeys(sortKey(user, sort), after, sort) > 0)
+      : users;
+    const data = remaining.slice(0, limit);
+    const hasMore = remaining.length > limit;
+
+    return {
+      data,
+      total: users.length,
+      nextCursor: hasMore ? encodeCursor(sortKey(data[data.length - 1], sort)) : null,
+    };
+  }
+}
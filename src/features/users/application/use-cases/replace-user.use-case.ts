@@ -0,0 +1,29 @@
+import { parse } from '@/shared/validation/schema';
+
+import type { UserId } from '../../domain/entities/user.entity';
+import { UserAccessDeniedError } from '../../domain/errors/user-access-denied.error';
+import { type Actor, canUpdateUser } from '../../domain/policies/user-access.policy';
+import type { UserRepository, WriteOptions } from '../../domain/repositories/user.repository';
+import { type ReplaceUserCommand, replaceUserSchema } from '../schemas/user.schema';
+
+export class ReplaceUserUseCase {
+  constructor(private readonly userRepository: UserRepository) {}
+
+  /**
+   * Overwrites every writable field of an existing user (PUT semantics).
+   * Returns null if the user does not exist.
+   *
+   * @throws {ValidationError} If the payload does not match `replaceUserSchema`
+   * @throws {UserAccessDeniedError} If `actor` may not apply these changes to the user
+   * @throws {UserVersionConflictError} If `options.expectedVersion` is stale
+   */
+  async execute(actor: Actor, id: UserId, command: ReplaceUserCommand, options?: WriteOptions) {
+    const changes = parse(replaceUserSchema, command);
+    const target = await this.userRepository.findById(id);
+
+    if (!target) return null;
+    if (!canUpdateUser(actor, target, changes)) throw new UserAccessDeniedError('update');
+
+    return this.userRepository.update(id, changes, { ...options, actorId: actor.id });
+  }
+}
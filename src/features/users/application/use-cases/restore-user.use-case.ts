@@ -0,0 +1,25 @@
+import type { UserId } from '../../domain/entities/user.entity';
+import { UserAccessDeniedError } from '../../domain/errors/user-access-denied.error';
+import { type Actor, canRestoreUser } from '../../domain/policies/user-access.policy';
+import type { UserRepository, WriteOptions } from '../../domain/repositories/user.repository';
+
+export class RestoreUserUseCase {
+  constructor(private readonly userRepository: UserRepository) {}
+
+  /**
+   * Undoes a soft delete. Restoring an active user is a no-op that returns it
+   * unchanged; returns null if the user does not exist at all.
+   *
+   * @throws {UserAccessDeniedError} If `actor` may not restore users
+   * @throws {UserVersionConflictError} If `options.expectedVersion` is stale
+   */
+  async execute(actor: Actor, id: UserId, options?: WriteOptions) {
+    if (!canRestoreUser(actor)) throw new UserAccessDeniedError('restore');
+
+    const target = await this.userRepository.findById(id, { includeDeleted: true });
+
+    if (!target?.deletedAt) return target;
+
+    return this.userRepository.restore(id, { ...options, actorId: actor.id });
+  }
+}
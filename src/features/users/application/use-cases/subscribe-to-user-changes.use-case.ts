@@ -0,0 +1,16 @@
+import { UserAccessDeniedError } from '../../domain/errors/user-access-denied.error';
+import type { UserChangeListener, UserEventBus } from '../../domain/events/user-event-bus';
+import { type Actor, canReadUsers } from '../../domain/policies/user-access.policy';
+
+export class SubscribeToUserChangesUseCase {
+  constructor(private readonly userEventBus: UserEventBus) {}
+
+  /**
+   * @throws {UserAccessDeniedError} If `actor` may not read users
+   */
+  execute(actor: Actor, listener: UserChangeListener, lastEventId?: string) {
+    if (!canReadUsers(actor)) throw new UserAccessDeniedError('read');
+
+    return this.userEventBus.subscribe(listener, lastEventId);
+  }
+}
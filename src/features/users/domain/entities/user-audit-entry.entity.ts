@@ -0,0 +1,57 @@
+import type { User, UserId } from './user.entity';
+
+export type UserAuditAction = 'created' | 'updated' | 'deleted' | 'restored';
+
+export const USER_AUDIT_ACTIONS: readonly UserAuditAction[] = [
+  'created',
+  'updated',
+  'deleted',
+  'restored',
+];
+
+export type AuditedUserField = keyof Pick<User, 'name' | 'email' | 'role' | 'deletedAt'>;
+
+export const AUDITED_USER_FIELDS: readonly AuditedUserField[] = [
+  'name',
+  'email',
+  'role',
+  'deletedAt',
+];
+
+export interface UserFieldChange {
+  field: AuditedUserField;
+  from: string | null;
+  to: string | null;
+}
+
+export interface UserAuditEntry {
+  userId: UserId;
+  action: UserAuditAction;
+  // Null when the write was not made on behalf of a signed-in user
+  actorId: UserId | null;
+  occurredAt: string;
+  // The user's version after the change
+  version: number;
+  changes: UserFieldChange[];
+}
+
+// Field-level diff; `before` is null for a newly created user
+export const diffUsers = (before: User | null, after: User): UserFieldChange[] =>
+  AUDITED_USER_FIELDS.filter((field) => (before?.[field] ?? null) !== after[field]).map(
+    (field) => ({ field, from: before?.[field] ?? null, to: after[field] })
+  );
+
+export const createAuditEntry = (
+  action: UserAuditAction,
+  before: User | null,
+  after: User,
+  actorId: UserId | null,
+  occurredAt: string
+): UserAuditEntry => ({
+  userId: after.id,
+  action,
+  actorId,
+  occurredAt,
+  version: after.version,
+  changes: diffUsers(before, after),
+});
@@ -0,0 +1,26 @@
+export type UserId = number;
+export type UserRole = 'Admin' | 'User';
+
+export interface User {
+  id: UserId;
+  name: string;
+  email: string;
+  role: UserRole;
+  // Incremented on every write; used for optimistic concurrency (ETag / If-Match)
+  version: number;
+  // ISO timestamp of the soft delete; null while the user is active
+  deletedAt: string | null;
+}
+
+export type CreateUserInput = Omit<User, 'id' | 'version' | 'deletedAt'>;
+export type UpdateUserInput = Partial<CreateUserInput>;
+
+export const USER_ROLES: readonly UserRole[] = ['Admin', 'User'];
+
+export const DEFAULT_USER_ROLE: UserRole = 'User';
+
+export const INITIAL_USER_VERSION = 1;
+
+// Ids in URLs are plain decimal digits; anything else (`12abc`, `1e3`, `-1`) names no user
+export const parseUserId = (value: string): UserId | null =>
+  /^\d+$/.test(value) && Number.isSafeInteger(Number(value)) ? Number(value) : null;
@@ -0,0 +1,35 @@
+export type UserAction =
+  | 'read'
+  | 'read-deleted'
+  | 'read-history'
+  | 'create'
+  | 'update'
+  | 'delete'
+  | 'restore';
+
+// `code` is what API clients see; it stays stable when the message is reworded or translated
+const DENIED: Record<UserAction, { code: string; message: string }> = {
+  read: { code: 'read_users_denied', message: 'Not allowed to read users' },
+  'read-deleted': {
+    code: 'read_deleted_users_denied',
+    message: 'Not allowed to list deleted users',
+  },
+  'read-history': {
+    code: 'read_user_history_denied',
+    message: 'Not allowed to read the history of this user',
+  },
+  create: { code: 'create_user_denied', message: 'Not allowed to create users' },
+  update: { code: 'update_user_denied', message: 'Not allowed to make these changes to this user' },
+  delete: { code: 'delete_user_denied', message: 'Not allowed to delete users' },
+  restore: { code: 'restore_user_denied', message: 'Not allowed to restore users' },
+};
+
+export class UserAccessDeniedError extends Error {
+  readonly code: string;
+
+  constructor(readonly action: UserAction) {
+    super(DENIED[action].message);
+    this.name = 'UserAccessDeniedError';
+    this.code = DENIED[action].code;
+  }
+}
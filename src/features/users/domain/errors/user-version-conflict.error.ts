@@ -0,0 +1,21 @@
+import type { User, UserId } from '../entities/user.entity';
+
+export class UserVersionConflictError extends Error {
+  constructor(
+    readonly userId: UserId,
+    readonly expectedVersion: number,
+    readonly actualVersion: number
+  ) {
+    super(`User ${userId} is at version ${actualVersion}, expected version ${expectedVersion}`);
+    this.name = 'UserVersionConflictError';
+  }
+}
+
+/**
+ * Returns the conflict error to raise when `expectedVersion` is set and differs
+ * from the stored version, or `null` when the write may proceed.
+ */
+export const findVersionConflict = (user: User, expectedVersion?: number) =>
+  expectedVersion !== undefined && expectedVersion !== user.version
+    ? new UserVersionConflictError(user.id, expectedVersion, user.version)
+    : null;
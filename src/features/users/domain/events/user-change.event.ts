@@ -0,0 +1,15 @@
+import type { User, UserId } from '../entities/user.entity';
+
+export type UserChange =
+  | { type: 'user.created'; user: User }
+  | { type: 'user.updated'; user: User }
+  | { type: 'user.deleted'; user: { id: UserId } }
+  | { type: 'user.restored'; user: User };
+
+export type UserChangeType = UserChange['type'];
+
+export type UserChangeEvent = UserChange & {
+  // Opaque and increasing; clients resume with it as `Last-Event-ID`
+  id: string;
+  occurredAt: string;
+};
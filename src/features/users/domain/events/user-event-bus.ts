@@ -0,0 +1,22 @@
+import type { UserChange, UserChangeEvent } from './user-change.event';
+
+export type UserChangeListener = (event: UserChangeEvent) => void;
+
+export interface UserChangeSubscription {
+  unsubscribe(): void;
+  /**
+   * False when events after the requested `lastEventId` are no longer
+   * retained (or it is unknown), so the subscriber has to reload its state.
+   */
+  complete: boolean;
+}
+
+export interface UserEventBus {
+  publish(changes: readonly UserChange[]): void;
+
+  /**
+   * Delivers retained events after `lastEventId` first (if given), then
+   * every new event until unsubscribed.
+   */
+  subscribe(listener: UserChangeListener, lastEventId?: string): UserChangeSubscription;
+}
@@ -0,0 +1,67 @@
+import type { UpdateUserInput, User, UserId, UserRole } from '../entities/user.entity';
+
+export type UserPermission =
+  | 'users:read'
+  | 'users:create'
+  | 'users:update:any'
+  | 'users:update:self'
+  | 'users:change-role'
+  | 'users:delete'
+  | 'users:audit'
+  | 'webhooks:manage';
+
+/**
+ * The authenticated user performing an operation.
+ */
+export interface Actor {
+  id: UserId;
+  role: UserRole;
+}
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly UserPermission[]> = {
+  Admin: [
+    'users:read',
+    'users:create',
+    'users:update:any',
+    'users:update:self',
+    'users:change-role',
+    'users:delete',
+    'users:audit',
+    'webhooks:manage',
+  ],
+  User: ['users:read', 'users:update:self'],
+};
+
+export const hasPermission = (actor: Actor, permission: UserPermission) =>
+  ROLE_PERMISSIONS[actor.role].includes(permission);
+
+export const canReadUsers = (actor: Actor) => hasPermission(actor, 'users:read');
+
+export const canCreateUser = (actor: Actor) => hasPermission(actor, 'users:create');
+
+/**
+ * Users may edit themselves, Admins anyone. Changing a role (to a different
+ * value than the stored one) additionally requires `users:change-role`.
+ */
+export const canUpdateUser = (actor: Actor, target: User, changes: UpdateUserInput) => {
+  const isSelf = actor.id === target.id;
+  const mayEdit =
+    hasPermission(actor, 'users:update:any') ||
+    (isSelf && hasPermission(actor, 'users:update:self'));
+  const changesRole = changes.role !== undefined && changes.role !== target.role;
+
+  return mayEdit && (!changesRole || hasPermission(actor, 'users:change-role'));
+};
+
+export const canDeleteUser = (actor: Actor) => hasPermission(actor, 'users:delete');
+
+// Restoring undoes a delete, and deleted users are only visible to those who may restore them
+export const canRestoreUser = (actor: Actor) => hasPermission(actor, 'users:delete');
+
+export const canReadDeletedUsers = canRestoreUser;
+
+/**
+ * Users may read their own history, auditors anyone's.
+ */
+export const canReadUserHistory = (actor: Actor, target: User) =>
+  actor.id === target.id || hasPermission(actor, 'users:audit');
@@ -0,0 +1,44 @@
+import type { UserAuditEntry } from '../entities/user-audit-entry.entity';
+import type { CreateUserInput, UpdateUserInput, User, UserId } from '../entities/user.entity';
+
+export interface FindOptions {
+  // Soft-deleted users are left out unless this is set
+  includeDeleted?: boolean;
+}
+
+export interface AuditOptions {
+  // Recorded in the audit log as the user who made the change
+  actorId?: UserId;
+}
+
+export interface WriteOptions extends AuditOptions {
+  /**
+   * When set, the write only succeeds if the stored user is still at this version;
+   * otherwise a `UserVersionConflictError` is thrown.
+   */
+  expectedVersion?: number;
+}
+
+/**
+ * Every write is recorded in the user's audit history in the same atomic step.
+ * Soft-deleted users cannot be updated or deleted again until restored.
+ */
+export interface UserRepository {
+  findAll(options?: FindOptions): Promise<User[]>;
+  findById(id: UserId, options?: FindOptions): Promise<User | null>;
+  create(input: CreateUserInput, options?: AuditOptions): Promise<User>;
+  update(id: UserId, input: UpdateUserInput, options?: WriteOptions): Promise<User | null>;
+  // Soft delete: sets `deletedAt`. False if there is no active user with this id
+  delete(id: UserId, options?: WriteOptions): Promise<boolean>;
+  // Clears `deletedAt`. Null if there is no deleted user with this id
+  restore(id: UserId, options?: WriteOptions): Promise<User | null>;
+  // Oldest entry first; empty for unknown users
+  findHistory(id: UserId): Promise<UserAuditEntry[]>;
+
+  /**
+   * Runs `work` against a transactional view of the repository. Writes made
+   * through that view are committed together when `work` resolves and
+   * discarded when it rejects.
+   */
+  transaction<T>(work: (repository: UserRepository) => Promise<T>): Promise<T>;
+}
@@ -0,0 +1,85 @@
+// Domain
+export * from './domain/entities/user.entity';
+export * from './domain/entities/user-audit-entry.entity';
+export * from './domain/errors/user-version-conflict.error';
+export * from './domain/errors/user-access-denied.error';
+export * from './domain/policies/user-access.policy';
+export type {
+  AuditOptions,
+  FindOptions,
+  UserRepository,
+  WriteOptions,
+} from './domain/repositories/user.repository';
+export * from './domain/events/user-change.event';
+export type * from './domain/events/user-event-bus';
+
+// Application
+export * from './application/schemas/user.schema';
+export * from './application/schemas/list-users-query.schema';
+export * from './application/schemas/bulk-user-operations.schema';
+export * from './application/formats/user-file.format';
+export { ListUsersUseCase, type UserPage } from './application/use-cases/list-users.use-case';
+export { GetUserUseCase } from './application/use-cases/get-user.use-case';
+export { CreateUserUseCase } from './application/use-cases/create-user.use-case';
+export { UpdateUserUseCase } from './application/use-cases/update-user.use-case';
+export { ReplaceUserUseCase } from './application/use-cases/replace-user.use-case';
+export { DeleteUserUseCase } from './application/use-cases/delete-user.use-case';
+export { RestoreUserUseCase } from './application/use-cases/restore-user.use-case';
+export { GetUserHistoryUseCase } from './application/use-cases/get-user-history.use-case';
+export {
+  BulkUserOperationsUseCase,
+  type BulkOperationResult,
+  type BulkOutcome,
+  type BulkUserResult,
+  isSuccessfulOutcome,
+} from './application/use-cases/bulk-user-operations.use-case';
+export { ExportUsersUseCase } from './application/use-cases/export-users.use-case';
+export {
+  ImportUsersUseCase,
+  MAX_IMPORT_BYTES,
+  MAX_IMPORT_ROWS,
+  type UserImportResult,
+  type UserImportRowError,
+} from './application/use-cases/import-users.use-case';
+export { SubscribeToUserChangesUseCase } from './application/use-cases/subscribe-to-user-changes.use-case';
+export {
+  CountUsersUseCase,
+  type UserCounts,
+  type UserState,
+} from './application/use-cases/count-users.use-case';
+
+// Infrastructure
+export { InMemoryUserRepository } from './infrastructure/repositories/in-memory-user.repository';
+export { JsonFileUserRepository } from './infrastructure/repositories/json-file-user.repository';
+export { InMemoryUserEventBus } from './infrastructure/events/in-memory-user-event-bus';
+export { EventPublishingUserRepository } from './infrastructure/repositories/event-publishing-user.repository';
+export { getUserRepository } from './infrastructure/config/user-repository';
+export { getUserEventBus } from './infrastructure/config/user-events';
+export type * from './infrastructure/http/users-api.contract';
+export {
+  type ExportedUsersFile,
+  type ExportUsersQuery,
+  UsersApiClient,
+  type VersionedRequestOptions,
+} from './infrastructure/http/users-api.client';
+export { STALE_USER_VERSION, USER_NOT_FOUND } from './infrastructure/http/user-problems';
+export { usersOpenApi } from './infrastructure/openapi/users.openapi';
+export { collectUserMetrics, USERS_METRIC } from './infrastructure/metrics/user.metrics';
+
+// Presentation
+export * from './presentation/forms/user-form-state';
+export { CreateUserForm } from './presentation/components/create-user-form';
+export { FormSubmitButton } from './presentation/components/form-submit-button';
+export { LiveStatusBadge } from './presentation/components/live-status-badge';
+export { ManagedUserRow } from './presentation/components/managed-user-row';
+export { UserHistoryList } from './presentation/components/user-history-list';
+export { UndoToast } from './presentation/components/undo-toast';
+export { UserFormFields } from './presentation/components/user-form-fields';
+export { UserImportExportPanel } from './presentation/components/user-import-export-panel';
+export { UserListItem } from './presentation/components/user-list-item';
+export {
+  type UserEventsStatus,
+  type UserStreamEvent,
+  useUserEvents,
+} from './presentation/hooks/use-user-events';
+export { useUsersApi } from './presentation/hooks/use-users-api';
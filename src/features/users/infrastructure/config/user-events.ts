@@ -0,0 +1,12 @@
+import { getSharedState } from '@/shared/runtime/shared-state';
+
+import type { UserEventBus } from '../../domain/events/user-event-bus';
+import { createUserEventLog, InMemoryUserEventBus } from '../events/in-memory-user-event-bus';
+
+let userEventBus: UserEventBus | undefined;
+
+// Writes in one route reach subscribers of another
+export const getUserEventBus = (): UserEventBus => {
+  userEventBus ??= new InMemoryUserEventBus(getSharedState('users:event-log', createUserEventLog));
+  return userEventBus;
+};
@@ -0,0 +1,39 @@
+import path from 'node:path';
+
+import { getSharedState } from '@/shared/runtime/shared-state';
+
+import type { UserRepository } from '../../domain/repositories/user.repository';
+import { EventPublishingUserRepository } from '../repositories/event-publishing-user.repository';
+import { createUserStore, InMemoryUserRepository } from '../repositories/in-memory-user.repository';
+import { JsonFileUserRepository } from '../repositories/json-file-user.repository';
+import { createWriteLock } from '../repositories/write-lock';
+import { getUserEventBus } from './user-events';
+
+export type UserStorageDriver = 'memory' | 'file';
+
+const DEFAULT_DATA_FILE = path.join(process.cwd(), '.data', 'users.json');
+
+const createUserRepository = (): UserRepository => {
+  const driver = (process.env.USERS_STORAGE ?? 'file') as UserStorageDriver;
+
+  if (driver === 'memory') {
+    return new InMemoryUserRepository(
+      getSharedState('users:store', createUserStore),
+      getSharedState('users:store-lock', createWriteLock)
+    );
+  }
+
+  return new JsonFileUserRepository(
+    process.env.USERS_DATA_FILE ?? DEFAULT_DATA_FILE,
+    getSharedState('users:file-lock', createWriteLock)
+  );
+};
+
+let userRepository: UserRepository | undefined;
+
+export const getUserRepository = (): UserRepository => {
+  userRepository ??= new EventPublishingUserRepository(createUserRepository(), (changes) =>
+    getUserEventBus().publish(changes)
+  );
+  return userRepository;
+};
@@ -0,0 +1,88 @@
+import { getLogger } from '@/features/observability';
+
+import type { UserChange, UserChangeEvent } from '../../domain/events/user-change.event';
+import type {
+  UserChangeListener,
+  UserChangeSubscription,
+  UserEventBus,
+} from '../../domain/events/user-event-bus';
+
+export interface UserEventLog {
+  // Distinguishes logs across restarts, so stale ids are never matched by accident
+  epoch: string;
+  lastSequence: number;
+  events: UserChangeEvent[];
+  listeners: Set<UserChangeListener>;
+}
+
+export const DEFAULT_EVENT_RETENTION = 1000;
+
+export const createUserEventLog = (): UserEventLog => ({
+  epoch: Date.now().toString(36),
+  lastSequence: 0,
+  events: [],
+  listeners: new Set(),
+});
+
+const notify = (listener: UserChangeListener, event: UserChangeEvent) => {
+  try {
+    listener(event);
+  } catch (error) {
+    getLogger().error('User change listener failed', { eventId: event.id, error });
+  }
+};
+
+/**
+ * Publishes to subscribers of this process and keeps the most recent events
+ * for `Last-Event-ID` replay. Several bus instances can share one log.
+ * Listeners run synchronously inside `publish`, so one that throws is logged
+ * and skipped: it must not fail the write that published, nor starve the
+ * listeners after it.
+ */
+export class InMemoryUserEventBus implements UserEventBus {
+  constructor(
+    private readonly log: UserEventLog = createUserEventLog(),
+    private readonly retention = DEFAULT_EVENT_RETENTION
+  ) {}
+
+  publish(changes: readonly UserChange[]) {
+    changes.forEach((change) => {
+      this.log.lastSequence += 1;
+      const event: UserChangeEvent = {
+        ...change,
+        id: `${this.log.epoch}-${this.log.lastSequence}`,
+        occurredAt: new Date().toISOString(),
+      };
+
+      this.log.events.push(event);
+      if (this.log.events.length > this.retention) this.log.events.shift();
+      this.log.listeners.forEach((listener) => notify(listener, event));
+    });
+  }
+
+  subscribe(listener: UserChangeListener, lastEventId?: string): UserChangeSubscription {
+    const sequence =
+      lastEventId === undefined ? this.log.lastSequence : this.sequenceOf(lastEventId);
+    const oldest = this.log.lastSequence - this.log.events.length;
+    const complete = sequence !== null && sequence >= oldest && sequence <= this.log.lastSequence;
+
+    if (complete) {
+      this.log.events.slice(sequence - oldest).forEach((event) => notify(listener, event));
+    }
+
+    this.log.listeners.add(listener);
+    return {
+      unsubscribe: () => {
+        this.log.listeners.delete(listener);
+      },
+      complete,
+    };
+  }
+
+  private sequenceOf(eventId: string) {
+    const [epoch, sequence] = eventId.split('-');
+    const value = Number(sequence);
+
+    return epoch === this.log.epoch && Number.isInteger(value) ? value : null;
+  }
+}
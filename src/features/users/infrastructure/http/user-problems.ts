@@ -0,0 +1,10 @@
+import type { ProblemReason } from '@/shared/http/problem-details';
+
+// Reasons the user routes answer with that no domain error carries
+
+export const USER_NOT_FOUND: ProblemReason = { code: 'user_not_found', message: 'User not found' };
+
+export const STALE_USER_VERSION: ProblemReason = {
+  code: 'stale_user_version',
+  message: 'The user has been modified since it was fetched',
+};
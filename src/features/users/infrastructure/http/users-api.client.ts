@@ -0,0 +1,168 @@
+import type { ApiClient, ApiResult, RequestOptions } from '@/shared/http/api-client';
+import { formatETag } from '@/shared/http/etag';
+
+import type { UserFileFormat } from '../../application/formats/user-file.format';
+import type { ListUsersQuery } from '../../application/schemas/list-users-query.schema';
+import type {
+  CreateUserCommand,
+  ReplaceUserCommand,
+  UpdateUserCommand,
+} from '../../application/schemas/user.schema';
+import type { UserId } from '../../domain/entities/user.entity';
+import type {
+  MessageResponse,
+  UserHistoryResponse,
+  UserImportResponse,
+  UserPageResponse,
+  UserResponse,
+} from './users-api.contract';
+
+// The list filters, for exports; paging does not apply
+export type ExportUsersQuery = Omit<ListUsersQuery, 'limit' | 'cursor'>;
+
+export interface ExportedUsersFile {
+  blob: Blob;
+  // From `Content-Disposition`, when the server named the file
+  fileName: string | null;
+}
+
+export interface VersionedRequestOptions extends RequestOptions {
+  // Sent as `If-Match`: the write fails with 412 if the user changed since
+  version?: number;
+}
+
+const FILE_NAME_PATTERN = /filename="([^"]+)"/;
+
+// Inverse of `parseListUsersQuery`
+const toSearchParams = ({ q, roles, deleted, sort, limit, cursor }: ListUsersQuery) => {
+  const params = new URLSearchParams();
+
+  if (q) params.set('q', q);
+  roles?.forEach((role) => params.append('role', role));
+  if (deleted) params.set('deleted', 'true');
+  if (sort?.length) {
+    params.set(
+      'sort',
+      sort.map(({ field, direction }) => (direction === 'desc' ? `-${field}` : field)).join(',')
+    );
+  }
+  if (limit !== undefined) params.set('limit', String(limit));
+  if (cursor) params.set('cursor', cursor);
+  return params;
+};
+
+const ifMatch = (version?: number) =>
+  version === undefined ? undefined : { 'If-Match': formatETag(version) };
+
+/**
+ * Typed access to the /api/users routes. Every method resolves to an
+ * `ApiResult`; reads, replaces and deletes are retried on transient failures.
+ */
+export class UsersApiClient {
+  constructor(private readonly api: ApiClient) {}
+
+  list(
+    query: ListUsersQuery = {},
+    options: RequestOptions = {}
+  ): Promise<ApiResult<UserPageResponse>> {
+    return this.api.request(
+      { method: 'GET', path: '/api/users', query: toSearchParams(query) },
+      options
+    );
+  }
+
+  get(id: UserId, options?: RequestOptions): Promise<ApiResult<UserResponse>> {
+    return this.api.request({ method: 'GET', path: `/api/users/${id}` }, options);
+  }
+
+  create(command: CreateUserCommand, options?: RequestOptions): Promise<ApiResult<UserResponse>> {
+    return this.api.request({ method: 'POST', path: '/api/users', body: command }, options);
+  }
+
+  update(
+    id: UserId,
+    changes: UpdateUserCommand,
+    { version, ...options }: VersionedRequestOptions = {}
+  ): Promise<ApiResult<UserResponse>> {
+    return this.api.request(
+      { method: 'PATCH', path: `/api/users/${id}`, body: changes, headers: ifMatch(version) },
+      options
+    );
+  }
+
+  replace(
+    id: UserId,
+    command: ReplaceUserCommand,
+    { version, ...options }: VersionedRequestOptions = {}
+  ): Promise<ApiResult<UserResponse>> {
+    return this.api.request(
+      { method: 'PUT', path: `/api/users/${id}`, body: command, headers: ifMatch(version) },
+      options
+    );
+  }
+
+  delete(
+    id: UserId,
+    { version, ...options }: VersionedRequestOptions = {}
+  ): Promise<ApiResult<MessageResponse>> {
+    return this.api.request(
+      { method: 'DELETE', path: `/api/users/${id}`, headers: ifMatch(version) },
+      options
+    );
+  }
+
+  restore(id: UserId, options?: RequestOptions): Promise<ApiResult<UserResponse>> {
+    return this.api.request({ method: 'POST', path: `/api/users/${id}/restore` }, options);
+  }
+
+  history(id: UserId, options?: RequestOptions): Promise<ApiResult<UserHistoryResponse>> {
+    return this.api.request({ method: 'GET', path: `/api/users/${id}/history` }, options);
+  }
+
+  exportUsers(
+    format: UserFileFormat,
+    query: ExportUsersQuery = {},
+    options: RequestOptions = {}
+  ): Promise<ApiResult<ExportedUsersFile>> {
+    const params = toSearchParams(query);
+    params.set('format', format);
+
+    return this.api.request(
+      {
+        method: 'GET',
+        path: '/api/users/export',
+        query: params,
+        headers: { Accept: '*/*' },
+        parse: async (response) => ({
+          blob: await response.blob(),
+          fileName:
+            FILE_NAME_PATTERN.exec(response.headers.get('Content-Disposition') ?? '')?.[1] ?? null,
+        }),
+      },
+      options
+    );
+  }
+
+  /**
+   * Resolves as `ok` with the report whether or not the rows were accepted;
+   * check `data.committed` and `data.errors`.
+   */
+  importUsers(
+    file: string,
+    format: UserFileFormat,
+    { dryRun = false, ...options }: RequestOptions & { dryRun?: boolean } = {}
+  ): Promise<ApiResult<UserImportResponse>> {
+    return this.api.request(
+      {
+        method: 'POST',
+        path: '/api/users/import',
+        query: new URLSearchParams({ format, dryRun: String(dryRun) }),
+        headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+        body: file,
+        // Rows rejected: the report comes with 422 (problem details stay errors)
+        successStatuses: [422],
+      },
+      options
+    );
+  }
+}
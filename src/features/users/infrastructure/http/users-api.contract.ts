@@ -0,0 +1,52 @@
+import type { ProblemDetails } from '@/shared/http/problem-details';
+
+import type {
+  BulkMode,
+  BulkUserOperation,
+} from '../../application/schemas/bulk-user-operations.schema';
+import type { UserImportResult } from '../../application/use-cases/import-users.use-case';
+import type { UserAuditEntry } from '../../domain/entities/user-audit-entry.entity';
+import type { User, UserId } from '../../domain/entities/user.entity';
+
+/*
+ * Response bodies of the /api/users routes. The route handlers build their
+ * JSON with these types and `UsersApiClient` parses with them, so a change
+ * on either side fails the type check instead of the UI.
+ */
+
+export interface UserResponse {
+  data: User;
+  message?: string;
+}
+
+export interface UserPageResponse {
+  data: User[];
+  count: number;
+  total: number;
+  nextCursor: string | null;
+}
+
+export interface MessageResponse {
+  message: string;
+}
+
+export interface UserHistoryResponse {
+  data: UserAuditEntry[];
+  count: number;
+}
+
+export interface BulkUserResponse {
+  mode: BulkMode;
+  committed: boolean;
+  results: {
+    index: number;
+    op: BulkUserOperation['op'];
+    id?: UserId;
+    status: number;
+    data?: User;
+    error?: ProblemDetails;
+  }[];
+  summary: { total: number; succeeded: number; failed: number };
+}
+
+export type UserImportResponse = UserImportResult;
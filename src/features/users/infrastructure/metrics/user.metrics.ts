@@ -0,0 +1,29 @@
+import type { MetricDefinition, MetricsRegistry } from '@/features/observability';
+
+import {
+  CountUsersUseCase,
+  type UserState,
+} from '../../application/use-cases/count-users.use-case';
+import { USER_ROLES } from '../../domain/entities/user.entity';
+import type { UserRepository } from '../../domain/repositories/user.repository';
+
+export const USERS_METRIC: MetricDefinition = {
+  name: 'users',
+  help: 'Users by role and state (active or deleted)',
+  type: 'gauge',
+};
+
+const USER_STATES: readonly UserState[] = ['active', 'deleted'];
+
+// Sets the `users` gauge from the repository; called on every scrape
+export const collectUserMetrics = async (registry: MetricsRegistry, repository: UserRepository) => {
+  const counts = await new CountUsersUseCase(repository).execute();
+
+  registry.define(USERS_METRIC);
+  registry.clear(USERS_METRIC.name);
+  USER_STATES.forEach((state) => {
+    USER_ROLES.forEach((role) => {
+      registry.set(USERS_METRIC.name, { role, state }, counts[state][role]);
+    });
+  });
+};
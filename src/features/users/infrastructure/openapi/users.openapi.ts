@@ -0,0 +1,653 @@
+import { PROBLEM_CONTENT_TYPE } from '@/shared/http/problem-details';
+import { componentRef } from '@/shared/openapi/build-openapi-document';
+import type {
+  JsonSchema,
+  OpenApiFragment,
+  ParameterObject,
+  ResponseObject,
+} from '@/shared/openapi/openapi.types';
+import { toJsonSchema } from '@/shared/validation/schema';
+
+import {
+  USER_FILE_COLUMNS,
+  USER_FILE_CONTENT_TYPES,
+  USER_FILE_FORMATS,
+} from '../../application/formats/user-file.format';
+import {
+  BULK_MODES,
+  BULK_OPERATION_TYPES,
+  MAX_BULK_OPERATIONS,
+} from '../../application/schemas/bulk-user-operations.schema';
+import {
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  USER_SORT_FIELDS,
+} from '../../application/schemas/list-users-query.schema';
+import {
+  createUserSchema,
+  replaceUserSchema,
+  updateUserSchema,
+} from '../../application/schemas/user.schema';
+import {
+  MAX_IMPORT_BYTES,
+  MAX_IMPORT_ROWS,
+} from '../../application/use-cases/import-users.use-case';
+import {
+  AUDITED_USER_FIELDS,
+  USER_AUDIT_ACTIONS,
+} from '../../domain/entities/user-audit-entry.entity';
+import { INITIAL_USER_VERSION, USER_ROLES } from '../../domain/entities/user.entity';
+
+const json = (schema: JsonSchema, example?: unknown) => ({
+  'application/json': { schema, ...(example !== undefined && { example }) },
+});
+
+const schemaRef = (name: string) => componentRef('schemas', name);
+const responseRef = (name: string) => componentRef('responses', name);
+const idempotencyKey = componentRef('parameters', 'IdempotencyKey');
+
+const userResponse = (description: string): ResponseObject => ({
+  description,
+  headers: { ETag: componentRef('headers', 'ETag') },
+  content: json(schemaRef('UserResponse')),
+});
+
+const writableUser = toJsonSchema(replaceUserSchema);
+
+const bulkOperation = (op: string, properties: Record<string, JsonSchema>): JsonSchema => ({
+  type: 'object',
+  properties: { op: { type: 'string', const: op }, ...properties },
+  required: ['op', ...Object.keys(properties).filter((key) => key !== 'version')],
+  additionalProperties: false,
+});
+
+const EXAMPLE_USER = { name: 'Dana Scully', email: 'dana@example.com', role: 'User' };
+
+// Filters shared by listing and exporting users
+const filterParameters: ParameterObject[] = [
+  {
+    name: 'q',
+    in: 'query',
+    description: 'Case-insensitive search in name and email',
+    schema: { type: 'string' },
+  },
+  {
+    name: 'role',
+    in: 'query',
+    description: 'Role filter; repeat or comma separate for several roles',
+    schema: { type: 'array', items: { type: 'string', enum: USER_ROLES } },
+    style: 'form',
+    explode: true,
+  },
+  {
+    name: 'deleted',
+    in: 'query',
+    description: 'List soft-deleted users instead of active ones (Admins only)',
+    schema: { type: 'boolean', default: false },
+  },
+  {
+    name: 'sort',
+    in: 'query',
+    description: `Comma-separated fields (${USER_SORT_FIELDS.join(', ')}); prefix \`-\` for descending`,
+    schema: { type: 'string', examples: ['name,-email'] },
+  },
+];
+
+export const usersOpenApi: OpenApiFragment = {
+  tags: [{ name: 'Users', description: 'Manage users' }],
+  paths: {
+    '/api/users': {
+      get: {
+        operationId: 'listUsers',
+        summary: 'List users',
+        description:
+          'Search, filter, sort and paginate users. Pagination is cursor based; the `Link` header carries `first` and `next` URLs.',
+        tags: ['Users'],
+        parameters: [
+          ...filterParameters,
+          {
+            name: 'limit',
+            in: 'query',
+            description: 'Page size',
+            schema: {
+              type: 'integer',
+              minimum: 1,
+              maximum: MAX_PAGE_SIZE,
+              default: DEFAULT_PAGE_SIZE,
+            },
+          },
+          {
+            name: 'cursor',
+            in: 'query',
+            description: "Opaque cursor from the previous page's `nextCursor`",
+            schema: { type: 'string' },
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'One page of users',
+            headers: { Link: componentRef('headers', 'Link') },
+            content: json(schemaRef('UserPage')),
+          },
+          '401': responseRef('Unauthorized'),
+          '403': responseRef('Forbidden'),
+          '422': responseRef('ValidationFailed'),
+          '429': responseRef('TooManyRequests'),
+        },
+      },
+      post: {
+        operationId: 'createUser',
+        summary: 'Create a user',
+        description: 'Admins only.',
+        tags: ['Users'],
+        parameters: [idempotencyKey],
+        requestBody: {
+          required: true,
+          content: json(schemaRef('CreateUserRequest'), EXAMPLE_USER),
+        },
+        responses: {
+          '201': { description: 'User created', content: json(schemaRef('UserResponse')) },
+          '400': responseRef('InvalidBody'),
+          '401': responseRef('Unauthorized'),
+          '403': responseRef('Forbidden'),
+          '409': responseRef('IdempotencyConflict'),
+          '422': responseRef('ValidationFailed'),
+          '429': responseRef('TooManyRequests'),
+        },
+      },
+    },
+    '/api/users/{id}': {
+      get: {
+        operationId: 'getUser',
+        summary: 'Get a user',
+        tags: ['Users'],
+        parameters: [
+          componentRef('parameters', 'UserId'),
+          componentRef('parameters', 'IfNoneMatch'),
+        ],
+        responses: {
+          '200': userResponse('The user'),
+          '304': { description: 'Not modified since the `If-None-Match` version' },
+          '401': responseRef('Unauthorized'),
+          '404': responseRef('NotFound'),
+          '429': responseRef('TooManyRequests'),
+        },
+      },
+      put: {
+        operationId: 'replaceUser',
+        summary: 'Replace a user',
+        description: 'Users may replace themselves without changing their role; Admins anyone.',
+        tags: ['Users'],
+        parameters: [componentRef('parameters', 'UserId'), componentRef('parameters', 'IfMatch')],
+        requestBody: {
+          required: true,
+          content: json(schemaRef('ReplaceUserRequest'), EXAMPLE_USER),
+        },
+        responses: {
+          '200': userResponse('User replaced'),
+          '400': responseRef('InvalidBody'),
+          '401': responseRef('Unauthorized'),
+          '403': responseRef('Forbidden'),
+          '404': responseRef('NotFound'),
+          '412': responseRef('PreconditionFailed'),
+          '422': responseRef('ValidationFailed'),
+          '429': responseRef('TooManyRequests'),
+        },
+      },
+      patch: {
+        operationId: 'updateUser',
+        summary: 'Update a user',
+        description: 'Users may update themselves except their role; Admins anyone.',
+        tags: ['Users'],
+        parameters: [componentRef('parameters', 'UserId'), componentRef('parameters', 'IfMatch')],
+        requestBody: {
+          required: true,
+          content: json(schemaRef('UpdateUserRequest'), { name: 'Dana K. Scully' }),
+        },
+        responses: {
+          '200': userResponse('User updated'),
+          '400': responseRef('InvalidBody'),
+          '401': responseRef('Unauthorized'),
+          '403': responseRef('Forbidden'),
+          '404': responseRef('NotFound'),
+          '412': responseRef('PreconditionFailed'),
+          '422': responseRef('ValidationFailed'),
+          '429': responseRef('TooManyRequests'),
+        },
+      },
+      delete: {
+        operationId: 'deleteUser',
+        summary: 'Delete a user',
+        description:
+          'Admins only. Soft delete: the user is hidden from reads but kept, with its history, until restored.',
+        tags: ['Users'],
+        parameters: [componentRef('parameters', 'UserId'), componentRef('parameters', 'IfMatch')],
+        responses: {
+          '200': { description: 'User deleted', content: json(schemaRef('Message')) },
+          '401': responseRef('Unauthorized'),
+          '403': responseRef('Forbidden'),
+          '404': responseRef('NotFound'),
+          '412': responseRef('PreconditionFailed'),
+          '429': responseRef('TooManyRequests'),
+        },
+      },
+    },
+    '/api/users/{id}/restore': {
+      post: {
+        operationId: 'restoreUser',
+        summary: 'Restore a deleted user',
+        description: 'Admins only. Restoring a user that is not deleted returns it unchanged.',
+        tags: ['Users'],
+        parameters: [componentRef('parameters', 'UserId'), idempotencyKey],
+        responses: {
+          '200': userResponse('The restored user'),
+          '401': responseRef('Unauthorized'),
+          '403': responseRef('Forbidden'),
+          '404': responseRef('NotFound'),
+          '409': responseRef('IdempotencyConflict'),
+          '429': responseRef('TooManyRequests'),
+        },
+      },
+    },
+    '/api/users/{id}/history': {
+      get: {
+        operationId: 'getUserHistory',
+        summary: 'Get the audit history of a user',
+        description:
+          'Every create, update, delete and restore with who made it and which fields changed, oldest first. Users may read their own history and Admins that of anyone, deleted users included.',
+        tags: ['Users'],
+        parameters: [componentRef('parameters', 'UserId')],
+        responses: {
+          '200': { description: 'Audit entries', content: json(schemaRef('UserHistory')) },
+          '401': responseRef('Unauthorized'),
+          '403': responseRef('Forbidden'),
+          '404': responseRef('NotFound'),
+          '429': responseRef('TooManyRequests'),
+        },
+      },
+    },
+    '/api/users/bulk': {
+      post: {
+        operationId: 'bulkUserOperations',
+        summary: 'Apply many operations',
+        description:
+          'In `atomic` mode either every operation is applied or none; in `continue` mode each one is applied on its own. Every operation is authorized individually.',
+        tags: ['Users'],
+        parameters: [idempotencyKey],
+        requestBody: {
+          required: true,
+          content: json(schemaRef('BulkUserRequest'), {
+            mode: 'atomic',
+            operations: [
+              { op: 'create', data: EXAMPLE_USER },
+              { op: 'update', id: 2, version: 1, data: { name: 'Robert Smith' } },
+            ],
+          }),
+        },
+        responses: {
+          '200': {
+            description: 'Every operation succeeded',
+            content: json(schemaRef('BulkUserResponse')),
+          },
+          '207': {
+            description: 'At least one operation failed; see each result',
+            content: json(schemaRef('BulkUserResponse')),
+          },
+          '400': responseRef('InvalidBody'),
+          '401': responseRef('Unauthorized'),
+          '409': responseRef('IdempotencyConflict'),
+          '422': responseRef('ValidationFailed'),
+          '429': responseRef('TooManyRequests'),
+        },
+      },
+    },
+    '/api/users/export': {
+      get: {
+        operationId: 'exportUsers',
+        summary: 'Export users',
+        description:
+          "Streams every user matching the filters (no paging) as CSV with a header row or as newline-delimited JSON. CSV text that a spreadsheet would run as a formula is prefixed with `'`.",
+        tags: ['Users'],
+        parameters: [
+          {
+            name: 'format',
+            in: 'query',
+            schema: { type: 'string', enum: USER_FILE_FORMATS, default: 'csv' },
+          },
+          ...filterParameters,
+        ],
+        responses: {
+          '200': {
+            description: 'The users, in the requested format',
+            content: {
+              [USER_FILE_CONTENT_TYPES.csv]: {
+                schema: { type: 'string' },
+                example: `${USER_FILE_COLUMNS.join(',')}\r\n1,Alice Johnson,alice@example.com,Admin,1,\r\n`,
+              },
+              [USER_FILE_CONTENT_TYPES.ndjson]: { schema: schemaRef('User') },
+            },
+          },
+          '401': responseRef('Unauthorized'),
+          '403': responseRef('Forbidden'),
+          '422': responseRef('ValidationFailed'),
+          '429': responseRef('TooManyRequests'),
+        },
+      },
+    },
+    '/api/users/import': {
+      post: {
+        operationId: 'importUsers',
+        summary: 'Import users',
+        description: `Creates a user per row, all or nothing, from CSV (with a header naming at least \`name\` and \`email\`) or newline-delimited JSON; other columns are ignored, so exports can be edited and re-imported. Emails already used by a user (deleted ones included) or an earlier row are rejected. With \`dryRun=true\` nothing is written. At most ${MAX_IMPORT_ROWS} rows and ${MAX_IMPORT_BYTES} bytes. Admins only.`,
+        tags: ['Users'],
+        parameters: [
+          {
+            name: 'format',
+            in: 'query',
+            description: 'Defaults to the format named by `Content-Type`',
+            schema: { type: 'string', enum: USER_FILE_FORMATS },
+          },
+          {
+            name: 'dryRun',
+            in: 'query',
+            description: 'Only validate and report',
+            schema: { type: 'boolean', default: false },
+          },
+          idempotencyKey,
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            [USER_FILE_CONTENT_TYPES.csv]: {
+              schema: { type: 'string' },
+              example: 'name,email,role\r\nDana Scully,dana@example.com,User\r\n',
+            },
+            [USER_FILE_CONTENT_TYPES.ndjson]: {
+              schema: { type: 'string' },
+              example: '{"name":"Dana Scully","email":"dana@example.com"}\n',
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Dry run report',
+            content: json(schemaRef('UserImportResult')),
+          },
+          '201': {
+            description: 'Every row was imported',
+            content: json(schemaRef('UserImportResult')),
+          },
+          '401': responseRef('Unauthorized'),
+          '403': responseRef('Forbidden'),
+          '409': responseRef('IdempotencyConflict'),
+          '413': responseRef('PayloadTooLarge'),
+          '422': {
+            description:
+              'Nothing was imported: rows are invalid (a report listing them) or the file is unreadable (problem details)',
+            content: {
+              ...json(schemaRef('UserImportResult')),
+              [PROBLEM_CONTENT_TYPE]: { schema: componentRef('schemas', 'ProblemDetails') },
+            },
+          },
+          '429': responseRef('TooManyRequests'),
+        },
+      },
+    },
+    '/api/users/events': {
+      get: {
+        operationId: 'streamUserEvents',
+        summary: 'Stream user changes',
+        description:
+          'Server-Sent Events feed of `user.created`, `user.updated`, `user.deleted` and `user.restored` events. Each event has an `id`; reconnect with it as `Last-Event-ID` to receive what was missed. A `resync` event means missed events are no longer available and the client should reload. A comment is sent every 15 seconds as a heartbeat.',
+        tags: ['Users'],
+        parameters: [
+          {
+            name: 'Last-Event-ID',
+            in: 'header',
+            description: 'Resume after this event',
+            schema: { type: 'string' },
+          },
+          {
+            name: 'lastEventId',
+            in: 'query',
+            description: 'Same as `Last-Event-ID`, for clients that cannot set headers',
+            schema: { type: 'string' },
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'An open event stream; each `data` field holds a `UserChangeEvent`',
+            content: {
+              'text/event-stream': {
+                schema: { type: 'string' },
+                example:
+                  'id: lx3k2-7\nevent: user.updated\ndata: {"data":{"id":2,"name":"Robert Smith","email":"bob@example.com","role":"User","version":2},"occurredAt":"2026-01-01T00:00:00.000Z"}\n\n',
+              },
+            },
+          },
+          '401': responseRef('Unauthorized'),
+          '403': responseRef('Forbidden'),
+          '429': responseRef('TooManyRequests'),
+        },
+      },
+    },
+  },
+  components: {
+    parameters: {
+      UserId: {
+        name: 'id',
+        in: 'path',
+        required: true,
+        schema: { type: 'integer', minimum: 1 },
+      },
+      IfMatch: {
+        name: 'If-Match',
+        in: 'header',
+        description: 'Only apply the change if the user still has this ETag',
+        schema: { type: 'string', examples: ['"1"'] },
+      },
+      IfNoneMatch: {
+        name: 'If-None-Match',
+        in: 'header',
+        description: 'Answer `304` if the user still has this ETag',
+        schema: { type: 'string' },
+      },
+    },
+    headers: {
+      ETag: { description: 'The user version, e.g. `"3"`', schema: { type: 'string' } },
+      Link: {
+        description: 'RFC 8288 links with `first` and `next` relations',
+        schema: { type: 'string' },
+      },
+    },
+    schemas: {
+      User: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer', minimum: 1 },
+          ...writableUser.properties,
+          version: {
+            type: 'integer',
+            minimum: INITIAL_USER_VERSION,
+            description: 'Incremented on every write; exposed as `ETag`',
+          },
+          deletedAt: {
+            oneOf: [{ type: 'string', format: 'date-time' }, { type: 'null' }],
+            description: 'When the user was soft-deleted; null while active',
+          },
+        },
+        required: ['id', ...(writableUser.required ?? []), 'version', 'deletedAt'],
+      },
+      UserAuditEntry: {
+        type: 'object',
+        properties: {
+          userId: { type: 'integer', minimum: 1 },
+          action: { type: 'string', enum: USER_AUDIT_ACTIONS },
+          actorId: {
+            oneOf: [{ type: 'integer', minimum: 1 }, { type: 'null' }],
+            description: 'Who made the change',
+          },
+          occurredAt: { type: 'string', format: 'date-time' },
+          version: { type: 'integer', description: 'The user version after the change' },
+          changes: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                field: { type: 'string', enum: AUDITED_USER_FIELDS },
+                from: { oneOf: [{ type: 'string' }, { type: 'null' }] },
+                to: { oneOf: [{ type: 'string' }, { type: 'null' }] },
+              },
+              required: ['field', 'from', 'to'],
+            },
+          },
+        },
+        required: ['userId', 'action', 'actorId', 'occurredAt', 'version', 'changes'],
+      },
+      UserHistory: {
+        type: 'object',
+        properties: {
+          data: { type: 'array', items: schemaRef('UserAuditEntry') },
+          count: { type: 'integer' },
+        },
+        required: ['data', 'count'],
+      },
+      CreateUserRequest: toJsonSchema(createUserSchema),
+      UpdateUserRequest: toJsonSchema(updateUserSchema),
+      ReplaceUserRequest: writableUser,
+      UserResponse: {
+        type: 'object',
+        properties: { data: schemaRef('User'), message: { type: 'string' } },
+        required: ['data'],
+      },
+      UserChangeEvent: {
+        type: 'object',
+        properties: {
+          data: {
+            oneOf: [
+              schemaRef('User'),
+              {
+                type: 'object',
+                properties: { id: { type: 'integer', minimum: 1 } },
+                required: ['id'],
+              },
+            ],
+            description: 'The user after the change; only the `id` for `user.deleted`',
+          },
+          occurredAt: { type: 'string', format: 'date-time' },
+        },
+        required: ['data', 'occurredAt'],
+      },
+      UserImportResult: {
+        type: 'object',
+        properties: {
+          dryRun: { type: 'boolean' },
+          committed: { type: 'boolean', description: 'Whether the users were created' },
+          summary: {
+            type: 'object',
+            properties: {
+              total: { type: 'integer' },
+              valid: { type: 'integer' },
+              invalid: { type: 'integer' },
+            },
+            required: ['total', 'valid', 'invalid'],
+          },
+          errors: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                line: { type: 'integer', description: 'Line in the file where the row starts' },
+                issues: { type: 'array', items: componentRef('schemas', 'ValidationIssue') },
+              },
+              required: ['line', 'issues'],
+            },
+          },
+          data: { type: 'array', items: schemaRef('User'), description: 'The created users' },
+        },
+        required: ['dryRun', 'committed', 'summary', 'errors', 'data'],
+      },
+      Message: {
+        type: 'object',
+        properties: { message: { type: 'string' } },
+        required: ['message'],
+      },
+      UserPage: {
+        type: 'object',
+        properties: {
+          data: { type: 'array', items: schemaRef('User') },
+          count: { type: 'integer', description: 'Users on this page' },
+          total: { type: 'integer', description: 'Users matching the filters' },
+          nextCursor: {
+            oneOf: [{ type: 'string' }, { type: 'null' }],
+            description: 'Pass as `cursor` to get the next page; null on the last page',
+          },
+        },
+        required: ['data', 'count', 'total', 'nextCursor'],
+      },
+      BulkOperation: {
+        oneOf: [
+          bulkOperation('create', { data: schemaRef('CreateUserRequest') }),
+          bulkOperation('update', {
+            id: { type: 'integer', minimum: 1 },
+            data: schemaRef('UpdateUserRequest'),
+            version: { type: 'integer', description: 'Expected version, like `If-Match`' },
+          }),
+          bulkOperation('delete', {
+            id: { type: 'integer', minimum: 1 },
+            version: { type: 'integer', description: 'Expected version, like `If-Match`' },
+          }),
+        ],
+      },
+      BulkUserRequest: {
+        type: 'object',
+        properties: {
+          mode: { type: 'string', enum: BULK_MODES, default: 'atomic' },
+          operations: {
+            type: 'array',
+            items: schemaRef('BulkOperation'),
+            minItems: 1,
+            maxItems: MAX_BULK_OPERATIONS,
+          },
+        },
+        required: ['operations'],
+        additionalProperties: false,
+      },
+      BulkUserResponse: {
+        type: 'object',
+        properties: {
+          mode: { type: 'string', enum: BULK_MODES },
+          committed: { type: 'boolean' },
+          results: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                index: { type: 'integer' },
+                op: { type: 'string', enum: BULK_OPERATION_TYPES },
+                id: { type: 'integer' },
+                status: {
+                  type: 'integer',
+                  description: 'HTTP status the operation would have had',
+                },
+                data: schemaRef('User'),
+                error: schemaRef('ProblemDetails'),
+              },
+              required: ['index', 'op', 'status'],
+            },
+          },
+          summary: {
+            type: 'object',
+            properties: {
+              total: { type: 'integer' },
+              succeeded: { type: 'integer' },
+              failed: { type: 'integer' },
+            },
+            required: ['total', 'succeeded', 'failed'],
+          },
+        },
+        required: ['mode', 'committed', 'results', 'summary'],
+      },
+    },
+  },
+};
@@ -0,0 +1,76 @@
+import type { UserAuditEntry } from '../../domain/entities/user-audit-entry.entity';
+import type {
+  CreateUserInput,
+  UpdateUserInput,
+  User,
+  UserId,
+} from '../../domain/entities/user.entity';
+import type { UserChange } from '../../domain/events/user-change.event';
+import type {
+  AuditOptions,
+  FindOptions,
+  UserRepository,
+  WriteOptions,
+} from '../../domain/repositories/user.repository';
+
+/**
+ * Decorates a repository so every successful write is reported as a
+ * `UserChange`. Writes inside a transaction are held back and reported only
+ * once it commits, so rolled back changes are never announced.
+ */
+export class EventPublishingUserRepository implements UserRepository {
+  constructor(
+    private readonly inner: UserRepository,
+    private readonly publish: (changes: UserChange[]) => void
+  ) {}
+
+  findAll(options?: FindOptions): Promise<User[]> {
+    return this.inner.findAll(options);
+  }
+
+  findById(id: UserId, options?: FindOptions): Promise<User | null> {
+    return this.inner.findById(id, options);
+  }
+
+  async create(input: CreateUserInput, options?: AuditOptions): Promise<User> {
+    const user = await this.inner.create(input, options);
+
+    this.publish([{ type: 'user.created', user }]);
+    return user;
+  }
+
+  async update(id: UserId, input: UpdateUserInput, options?: WriteOptions): Promise<User | null> {
+    const user = await this.inner.update(id, input, options);
+
+    if (user) this.publish([{ type: 'user.updated', user }]);
+    return user;
+  }
+
+  async delete(id: UserId, options?: WriteOptions): Promise<boolean> {
+    const deleted = await this.inner.delete(id, options);
+
+    if (deleted) this.publish([{ type: 'user.deleted', user: { id } }]);
+    return deleted;
+  }
+
+  async restore(id: UserId, options?: WriteOptions): Promise<User | null> {
+    const user = await this.inner.restore(id, options);
+
+    if (user) this.publish([{ type: 'user.restored', user }]);
+    return user;
+  }
+
+  findHistory(id: UserId): Promise<UserAuditEntry[]> {
+    return this.inner.findHistory(id);
+  }
+
+  async transaction<T>(work: (repository: UserRepository) => Promise<T>): Promise<T> {
+    const pending: UserChange[] = [];
+    const result = await this.inner.transaction((repository) =>
+      work(new EventPublishingUserRepository(repository, (changes) => pending.push(...changes)))
+    );
+
+    this.publish(pending);
+    return result;
+  }
+}
@@ -0,0 +1,172 @@
+import {
+  createAuditEntry,
+  type UserAuditAction,
+  type UserAuditEntry,
+} from '../../domain/entities/user-audit-entry.entity';
+import {
+  type CreateUserInput,
+  INITIAL_USER_VERSION,
+  type UpdateUserInput,
+  type User,
+  type UserId,
+} from '../../domain/entities/user.entity';
+import { findVersionConflict } from '../../domain/errors/user-version-conflict.error';
+import type {
+  AuditOptions,
+  FindOptions,
+  UserRepository,
+  WriteOptions,
+} from '../../domain/repositories/user.repository';
+import { SEED_USERS } from './seed-users';
+import { createWriteLock, type WriteLock } from './write-lock';
+
+export interface UserStore {
+  users: User[];
+  // Ids are never reused, even after the highest one has been deleted
+  lastId: UserId;
+  history: UserAuditEntry[];
+}
+
+export const createUserStore = (
+  users: readonly User[] = SEED_USERS,
+  lastId = 0,
+  history: readonly UserAuditEntry[] = []
+): UserStore => ({
+  users: users.map((user) => ({ ...user })),
+  lastId: Math.max(lastId, ...users.map((user) => user.id)),
+  history: structuredClone([...history]),
+});
+
+const isVisible = (user: User, options?: FindOptions) =>
+  !user.deletedAt || !!options?.includeDeleted;
+
+/**
+ * Keeps users in a plain `UserStore` object. Several repository instances can
+ * share one store, which is how every route bundle sees the same data; they
+ * must then share its `WriteLock` too, so writes and transactions take turns.
+ */
+export class InMemoryUserRepository implements UserRepository {
+  constructor(
+    private readonly store: UserStore = createUserStore(),
+    private readonly lock: WriteLock = createWriteLock()
+  ) {}
+
+  findAll(options?: FindOptions): Promise<User[]> {
+    return Promise.resolve(
+      this.store.users.filter((user) => isVisible(user, options)).map((user) => ({ ...user }))
+    );
+  }
+
+  findById(id: UserId, options?: FindOptions): Promise<User | null> {
+    const user = this.store.users.find((u) => u.id === id && isVisible(u, options));
+    return Promise.resolve(user ? { ...user } : null);
+  }
+
+  create(input: CreateUserInput, options?: AuditOptions): Promise<User> {
+    return this.lock(() => {
+      this.store.lastId += 1;
+      const user: User = {
+        id: this.store.lastId,
+        ...input,
+        version: INITIAL_USER_VERSION,
+        deletedAt: null,
+      };
+      this.store.users.push(user);
+      this.record('created', null, user, options);
+      return Promise.resolve({ ...user });
+    });
+  }
+
+  update(id: UserId, input: UpdateUserInput, options?: WriteOptions): Promise<User | null> {
+    return this.lock(() => {
+      const existing = this.store.users.find((u) => u.id === id && !u.deletedAt);
+
+      if (!existing) return Promise.resolve(null);
+
+      const conflict = findVersionConflict(existing, options?.expectedVersion);
+      if (conflict) return Promise.reject(conflict);
+
+      const updated = this.replace('updated', existing, { ...input, id }, options);
+      return Promise.resolve({ ...updated });
+    });
+  }
+
+  delete(id: UserId, options?: WriteOptions): Promise<boolean> {
+    return this.lock(() => {
+      const existing = this.store.users.find((u) => u.id === id && !u.deletedAt);
+
+      if (!existing) return Promise.resolve(false);
+
+      const conflict = findVersionConflict(existing, options?.expectedVersion);
+      if (conflict) return Promise.reject(conflict);
+
+      const deletedAt = new Date().toISOString();
+      this.replace('deleted', existing, { deletedAt }, options, deletedAt);
+      return Promise.resolve(true);
+    });
+  }
+
+  restore(id: UserId, options?: WriteOptions): Promise<User | null> {
+    return this.lock(() => {
+      const existing = this.store.users.find((u) => u.id === id && u.deletedAt);
+
+      if (!existing) return Promise.resolve(null);
+
+      const conflict = findVersionConflict(existing, options?.expectedVersion);
+      if (conflict) return Promise.reject(conflict);
+
+      const restored = this.replace('restored', existing, { deletedAt: null }, options);
+      return Promise.resolve({ ...restored });
+    });
+  }
+
+  findHistory(id: UserId): Promise<UserAuditEntry[]> {
+    return Promise.resolve(structuredClone(this.store.history.filter((e) => e.userId === id)));
+  }
+
+  /**
+   * Works on a draft copy and swaps it in on success. The whole transaction
+   * holds the write lock, so no write can land between the copy and the swap
+   * (and be overwritten by it), even when `work` waits on I/O.
+   */
+  transaction<T>(work: (repository: UserRepository) => Promise<T>): Promise<T> {
+    return this.lock(async () => {
+      const draft = new InMemoryUserRepository(this.snapshot());
+      const result = await work(draft);
+
+      Object.assign(this.store, draft.snapshot());
+      return result;
+    });
+  }
+
+  snapshot(): UserStore {
+    return createUserStore(this.store.users, this.store.lastId, this.store.history);
+  }
+
+  // Stores the next version of `existing` and records the change
+  private replace(
+    action: UserAuditAction,
+    existing: User,
+    changes: Partial<User>,
+    options?: AuditOptions,
+    occurredAt?: string
+  ): User {
+    const next: User = { ...existing, ...changes, version: existing.version + 1 };
+
+    this.store.users = this.store.users.map((user) => (user.id === existing.id ? next : user));
+    this.record(action, existing, next, options, occurredAt);
+    return next;
+  }
+
+  private record(
+    action: UserAuditAction,
+    before: User | null,
+    after: User,
+    options?: AuditOptions,
+    occurredAt = new Date().toISOString()
+  ) {
+    this.store.history.push(
+      createAuditEntry(action, before, after, options?.actorId ?? null, occurredAt)
+    );
+  }
+}
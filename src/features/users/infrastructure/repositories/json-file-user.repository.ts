@@ -0,0 +1,114 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import type { UserAuditEntry } from '../../domain/entities/user-audit-entry.entity';
+import {
+  type CreateUserInput,
+  INITIAL_USER_VERSION,
+  type UpdateUserInput,
+  type User,
+  type UserId,
+} from '../../domain/entities/user.entity';
+import type {
+  AuditOptions,
+  FindOptions,
+  UserRepository,
+  WriteOptions,
+} from '../../domain/repositories/user.repository';
+import {
+  createUserStore,
+  InMemoryUserRepository,
+  type UserStore,
+} from './in-memory-user.repository';
+import { SEED_USERS } from './seed-users';
+import { createWriteLock, type WriteLock } from './write-lock';
+
+const isMissingFileError = (error: unknown) =>
+  error instanceof Error && (error as NodeJS.ErrnoException).code === 'ENOENT';
+
+/**
+ * Persists users to a JSON file so data survives a dev server restart.
+ * Operations are serialized through a queue and every write replaces the
+ * file atomically (write to a temp file, then rename). Each operation runs
+ * against an `InMemoryUserRepository` loaded from the file, so both drivers
+ * share the same rules.
+ */
+export class JsonFileUserRepository implements UserRepository {
+  constructor(
+    private readonly filePath: string,
+    private readonly lock: WriteLock = createWriteLock(),
+    private readonly seedUsers: readonly User[] = SEED_USERS
+  ) {}
+
+  findAll(options?: FindOptions): Promise<User[]> {
+    return this.read((users) => users.findAll(options));
+  }
+
+  findById(id: UserId, options?: FindOptions): Promise<User | null> {
+    return this.read((users) => users.findById(id, options));
+  }
+
+  create(input: CreateUserInput, options?: AuditOptions): Promise<User> {
+    return this.transaction((users) => users.create(input, options));
+  }
+
+  update(id: UserId, input: UpdateUserInput, options?: WriteOptions): Promise<User | null> {
+    return this.transaction((users) => users.update(id, input, options));
+  }
+
+  delete(id: UserId, options?: WriteOptions): Promise<boolean> {
+    return this.transaction((users) => users.delete(id, options));
+  }
+
+  restore(id: UserId, options?: WriteOptions): Promise<User | null> {
+    return this.transaction((users) => users.restore(id, options));
+  }
+
+  findHistory(id: UserId): Promise<UserAuditEntry[]> {
+    return this.read((users) => users.findHistory(id));
+  }
+
+  // The whole transaction holds the queue; the draft is written back in one save
+  transaction<T>(work: (repository: UserRepository) => Promise<T>): Promise<T> {
+    return this.lock(async () => {
+      const draft = new InMemoryUserRepository(await this.load());
+      const result = await work(draft);
+
+      await this.save(draft.snapshot());
+      return result;
+    });
+  }
+
+  private read<T>(query: (repository: UserRepository) => Promise<T>): Promise<T> {
+    return this.lock(async () => query(new InMemoryUserRepository(await this.load())));
+  }
+
+  private async load(): Promise<UserStore> {
+    try {
+      const store = JSON.parse(await readFile(this.filePath, 'utf8')) as UserStore;
+
+      // Files written by older versions lack `version`, `deletedAt` and `history`
+      return {
+        ...store,
+        users: store.users.map((user) => ({
+          ...user,
+          version: user.version ?? INITIAL_USER_VERSION,
+          deletedAt: user.deletedAt ?? null,
+        })),
+        history: store.history ?? [],
+      };
+    } catch (error) {
+      if (!isMissingFileError(error)) throw error;
+
+      return createUserStore(this.seedUsers);
+    }
+  }
+
+  private async save(store: UserStore) {
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+
+    await mkdir(path.dirname(this.filePath), { recursive: true });
+    await writeFile(tempPath, `${JSON.stringify(store, null, 2)}\n`, 'utf8');
+    await rename(tempPath, this.filePath);
+  }
+}
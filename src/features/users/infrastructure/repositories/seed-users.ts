@@ -0,0 +1,22 @@
+import type { User } from '../../domain/entities/user.entity';
+
+// Sample data
+export const SEED_USERS: readonly User[] = [
+  {
+    id: 1,
+    name: 'Alice Johnson',
+    email: 'alice@example.com',
+    role: 'Admin',
+    version: 1,
+    deletedAt: null,
+  },
+  { id: 2, name: 'Bob Smith', email: 'bob@example.com', role: 'User', version: 1, deletedAt: null },
+  {
+    id: 3,
+    name: 'Charlie Brown',
+    email: 'charlie@example.com',
+    role: 'User',
+    version: 1,
+    deletedAt: null,
+  },
+];
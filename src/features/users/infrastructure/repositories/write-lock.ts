@@ -0,0 +1,13 @@
+// Runs `operation` once every operation queued before it has settled
+export type WriteLock = <T>(operation: () => Promise<T>) => Promise<T>;
+
+// Share one lock between instances using the same data
+export const createWriteLock = (): WriteLock => {
+  let tail: Promise<unknown> = Promise.resolve();
+
+  return (operation) => {
+    const result = tail.then(operation, operation);
+    tail = result.catch(() => undefined);
+    return result;
+  };
+};
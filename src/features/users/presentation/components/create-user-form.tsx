@@ -0,0 +1,57 @@
+'use client';
+
+import { useActionState } from 'react';
+
+import { useTranslations } from 'next-intl';
+
+import {
+  EMPTY_USER_FORM_VALUES,
+  INITIAL_USER_FORM_STATE,
+  type UserFormAction,
+} from '../forms/user-form-state';
+import { FormSubmitButton } from './form-submit-button';
+import { UserFormFields } from './user-form-fields';
+
+interface CreateUserFormProps {
+  action: UserFormAction;
+}
+
+/**
+ * "Create user" form for a Server Action; works without JavaScript and shows
+ * the field errors the action returns.
+ */
+export const CreateUserForm: React.FC<CreateUserFormProps> = ({ action }) => {
+  const t = useTranslations('UserManagement');
+  const [state, formAction] = useActionState(action, INITIAL_USER_FORM_STATE);
+
+  return (
+    <div className="mb-8 rounded-lg bg-gray-100 p-6 dark:bg-gray-800">
+      <h2 className="text-foreground mb-4 text-2xl font-semibold">{t('createTitle')}</h2>
+      <form action={formAction} className="flex flex-wrap items-start gap-4">
+        <UserFormFields
+          idPrefix="new-user"
+          values={
+            state.status === 'error'
+              ? (state.values ?? EMPTY_USER_FORM_VALUES)
+              : EMPTY_USER_FORM_VALUES
+          }
+          fieldErrors={state.fieldErrors}
+        />
+        <FormSubmitButton
+          pendingLabel={t('creating')}
+          className="mt-6 rounded-lg bg-blue-600 px-6 py-2 font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          {t('create')}
+        </FormSubmitButton>
+      </form>
+      {state.message && (
+        <p
+          role={state.status === 'error' ? 'alert' : 'status'}
+          className={`mt-4 text-sm ${state.status === 'error' ? 'text-red-600 dark:text-red-400' : 'text-green-700 dark:text-green-400'}`}
+        >
+          {state.message}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,40 @@
+'use client';
+
+import { useFormStatus } from 'react-dom';
+
+interface FormSubmitButtonProps {
+  children: React.ReactNode;
+  // Shown while the enclosing form's action runs (only with JavaScript)
+  pendingLabel: React.ReactNode;
+  className?: string;
+  name?: string;
+  value?: string;
+  formNoValidate?: boolean;
+}
+
+/**
+ * Submit button that disables itself while its form is being submitted.
+ */
+export const FormSubmitButton: React.FC<FormSubmitButtonProps> = ({
+  children,
+  pendingLabel,
+  className,
+  name,
+  value,
+  formNoValidate,
+}) => {
+  const { pending } = useFormStatus();
+
+  return (
+    <button
+      type="submit"
+      name={name}
+      value={value}
+      formNoValidate={formNoValidate}
+      disabled={pending}
+      className={className}
+    >
+      {pending ? pendingLabel : children}
+    </button>
+  );
+};
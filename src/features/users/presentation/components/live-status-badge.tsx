@@ -0,0 +1,27 @@
+import type { UserEventsStatus } from '../hooks/use-user-events';
+
+interface LiveStatusBadgeProps {
+  status: UserEventsStatus;
+}
+
+/**
+ * Shows whether the users change feed is connected; renders nothing when idle.
+ */
+export const LiveStatusBadge: React.FC<LiveStatusBadgeProps> = ({ status }) => {
+  if (status === 'idle') return null;
+
+  return (
+    <span
+      role="status"
+      className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400"
+    >
+      <span
+        aria-hidden
+        className={`inline-block h-2 w-2 rounded-full ${
+          status === 'open' ? 'bg-green-500' : 'bg-yellow-500'
+        }`}
+      />
+      {status === 'open' ? 'Live' : 'Connecting…'}
+    </span>
+  );
+};
@@ -0,0 +1,93 @@
+'use client';
+
+import { useActionState } from 'react';
+
+import { useTranslations } from 'next-intl';
+
+import type { User } from '../../domain/entities/user.entity';
+import { INITIAL_USER_FORM_STATE, type UserFormAction } from '../forms/user-form-state';
+import { FormSubmitButton } from './form-submit-button';
+import { UserFormFields } from './user-form-fields';
+
+interface ManagedUserRowProps {
+  user: User;
+  // Both actions read the hidden `id` and `version` inputs
+  updateAction: UserFormAction;
+  deleteAction: UserFormAction;
+  canEdit: boolean;
+  canChangeRole: boolean;
+  canDelete: boolean;
+}
+
+const VersionInputs: React.FC<{ user: User }> = ({ user }) => (
+  <>
+    <input type="hidden" name="id" value={user.id} />
+    <input type="hidden" name="version" value={user.version} />
+  </>
+);
+
+/**
+ * One user with an edit form and a delete button, both posting to Server
+ * Actions. Render it keyed by id and version so a saved user starts afresh.
+ */
+export const ManagedUserRow: React.FC<ManagedUserRowProps> = ({
+  user,
+  updateAction,
+  deleteAction,
+  canEdit,
+  canChangeRole,
+  canDelete,
+}) => {
+  const t = useTranslations('UserManagement');
+  const [updateState, updateFormAction] = useActionState(updateAction, INITIAL_USER_FORM_STATE);
+  const [deleteState, deleteFormAction] = useActionState(deleteAction, INITIAL_USER_FORM_STATE);
+  const message = deleteState.message ?? updateState.message;
+
+  return (
+    <li className="rounded-lg bg-white p-4 dark:bg-gray-700">
+      <div className="flex flex-wrap items-start gap-4">
+        {canEdit ? (
+          <form action={updateFormAction} className="flex flex-1 flex-wrap items-start gap-4">
+            <VersionInputs user={user} />
+            <UserFormFields
+              idPrefix={`user-${user.id}`}
+              values={updateState.values ?? user}
+              fieldErrors={updateState.fieldErrors}
+              roleDisabled={!canChangeRole}
+            />
+            <FormSubmitButton
+              pendingLabel={t('saving')}
+              className="mt-6 rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              {t('save')}
+            </FormSubmitButton>
+          </form>
+        ) : (
+          <div className="flex-1">
+            <p className="text-foreground font-semibold">{user.name}</p>
+            <p className="text-sm text-gray-600 dark:text-gray-400">{user.email}</p>
+            <span className="mt-1 inline-block rounded bg-blue-100 px-2 py-1 text-xs font-medium text-blue-800 dark:bg-blue-900/30 dark:text-blue-300">
+              {user.role}
+            </span>
+          </div>
+        )}
+        {canDelete && (
+          <form action={deleteFormAction}>
+            <VersionInputs user={user} />
+            <FormSubmitButton
+              pendingLabel={t('deleting')}
+              className="mt-6 rounded-lg bg-red-600 px-4 py-2 text-sm font-medium text-white hover:bg-red-700 disabled:opacity-50"
+            >
+              {t('delete')}
+            </FormSubmitButton>
+          </form>
+        )}
+      </div>
+      {message && (
+        <p role="alert" className="mt-2 text-sm text-red-600 dark:text-red-400">
+          {message}
+        </p>
+      )}
+    </li>
+  );
+};
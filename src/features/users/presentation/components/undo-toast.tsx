@@ -0,0 +1,57 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  // Called when the toast times out or is closed without undoing
+  onDismiss: () => void;
+  durationMs?: number;
+}
+
+/**
+ * A notice with an Undo button that dismisses itself after `durationMs`.
+ * Render it with a `key` per action so a new action restarts the timer.
+ */
+export const UndoToast: React.FC<UndoToastProps> = ({
+  message,
+  onUndo,
+  onDismiss,
+  durationMs = 8000,
+}) => {
+  // Keeps the latest callback so re-renders do not restart the timer
+  const dismissRef = useRef(onDismiss);
+  useEffect(() => {
+    dismissRef.current = onDismiss;
+  });
+
+  useEffect(() => {
+    const timer = setTimeout(() => dismissRef.current(), durationMs);
+    return () => clearTimeout(timer);
+  }, [durationMs]);
+
+  return (
+    <div
+      role="status"
+      className="fixed end-4 bottom-4 z-50 flex items-center gap-4 rounded-lg bg-gray-900 px-4 py-3 text-sm text-white shadow-lg dark:bg-gray-100 dark:text-gray-900"
+    >
+      <span>{message}</span>
+      <button
+        type="button"
+        onClick={onUndo}
+        className="font-semibold text-indigo-300 hover:underline dark:text-indigo-700"
+      >
+        Undo
+      </button>
+      <button
+        type="button"
+        onClick={onDismiss}
+        aria-label="Dismiss"
+        className="text-gray-400 hover:text-white dark:text-gray-500 dark:hover:text-gray-900"
+      >
+        ×
+      </button>
+    </div>
+  );
+};
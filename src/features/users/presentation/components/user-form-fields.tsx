@@ -0,0 +1,103 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+
+import { USER_ROLES } from '../../domain/entities/user.entity';
+import type { UserFormField, UserFormState, UserFormValues } from '../forms/user-form-state';
+
+interface UserFormFieldsProps {
+  // Makes input ids unique when several user forms share a page
+  idPrefix: string;
+  values: UserFormValues;
+  fieldErrors?: UserFormState['fieldErrors'];
+  // The role select is left out of the submission when disabled
+  roleDisabled?: boolean;
+}
+
+const inputClass =
+  'text-foreground w-full rounded-lg border border-gray-300 bg-white px-4 py-2 disabled:opacity-50 aria-[invalid=true]:border-red-500 dark:border-gray-600 dark:bg-gray-700';
+
+const FieldError: React.FC<{ id: string; message?: string }> = ({ id, message }) =>
+  message ? (
+    <p id={id} className="mt-1 text-sm text-red-600 dark:text-red-400">
+      {message}
+    </p>
+  ) : null;
+
+/**
+ * Name, email and role inputs of a user form, with the errors an action
+ * returned for them.
+ */
+export const UserFormFields: React.FC<UserFormFieldsProps> = ({
+  idPrefix,
+  values,
+  fieldErrors = {},
+  roleDisabled = false,
+}) => {
+  const t = useTranslations('UserManagement');
+  const fieldId = (field: UserFormField) => `${idPrefix}-${field}`;
+  const errorId = (field: UserFormField) => `${fieldId(field)}-error`;
+  const isInvalid = (field: UserFormField) => (fieldErrors[field] ? true : undefined);
+  const describedBy = (field: UserFormField) => (fieldErrors[field] ? errorId(field) : undefined);
+
+  return (
+    <>
+      <div className="min-w-40 flex-1">
+        {/* eslint-disable-next-line jsx-a11y/label-has-associated-control */}
+        <label htmlFor={fieldId('name')} className="text-foreground mb-1 block text-sm">
+          {t('name')}
+        </label>
+        <input
+          id={fieldId('name')}
+          name="name"
+          type="text"
+          defaultValue={values.name}
+          className={inputClass}
+          aria-invalid={isInvalid('name')}
+          aria-describedby={describedBy('name')}
+          required
+        />
+        <FieldError id={errorId('name')} message={fieldErrors.name} />
+      </div>
+      <div className="min-w-48 flex-1">
+        {/* eslint-disable-next-line jsx-a11y/label-has-associated-control */}
+        <label htmlFor={fieldId('email')} className="text-foreground mb-1 block text-sm">
+          {t('email')}
+        </label>
+        <input
+          id={fieldId('email')}
+          name="email"
+          type="email"
+          defaultValue={values.email}
+          className={inputClass}
+          aria-invalid={isInvalid('email')}
+          aria-describedby={describedBy('email')}
+          required
+        />
+        <FieldError id={errorId('email')} message={fieldErrors.email} />
+      </div>
+      <div>
+        {/* eslint-disable-next-line jsx-a11y/label-has-associated-control */}
+        <label htmlFor={fieldId('role')} className="text-foreground mb-1 block text-sm">
+          {t('role')}
+        </label>
+        <select
+          id={fieldId('role')}
+          name="role"
+          defaultValue={values.role}
+          disabled={roleDisabled}
+          className={inputClass}
+          aria-invalid={isInvalid('role')}
+          aria-describedby={describedBy('role')}
+        >
+          {USER_ROLES.map((role) => (
+            <option key={role} value={role}>
+              {role}
+            </option>
+          ))}
+        </select>
+        <FieldError id={errorId('role')} message={fieldErrors.role} />
+      </div>
+    </>
+  );
+};
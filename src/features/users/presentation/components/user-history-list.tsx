@@ -0,0 +1,38 @@
+import { useTranslations } from 'next-intl';
+
+import { useFormatPresets } from '@/features/i18n/presentation/hooks/use-format-presets';
+
+import type { UserAuditEntry } from '../../domain/entities/user-audit-entry.entity';
+
+interface UserHistoryListProps {
+  entries: UserAuditEntry[];
+}
+
+/**
+ * Audit entries of one user, oldest first, with the fields each one changed.
+ */
+export const UserHistoryList: React.FC<UserHistoryListProps> = ({ entries }) => {
+  const t = useTranslations('UserManagement');
+  const format = useFormatPresets();
+
+  return (
+    <ol className="mt-4 space-y-2 border-t border-gray-200 pt-4 text-sm dark:border-gray-600">
+      {entries.length === 0 && <li className="text-gray-500">{t('noChanges')}</li>}
+      {entries.map((entry) => (
+        <li key={entry.version} className="text-gray-700 dark:text-gray-300">
+          <span className="font-medium">{entry.action}</span>
+          {entry.actorId !== null && ` ${t('changedBy', { actorId: String(entry.actorId) })}`}
+          {' · '}
+          {format.shortDateTime(entry.occurredAt)}
+          <ul className="ms-4 text-gray-500 dark:text-gray-400">
+            {entry.changes.map((change) => (
+              <li key={change.field}>
+                {change.field}: {change.from ?? '—'} → {change.to ?? '—'}
+              </li>
+            ))}
+          </ul>
+        </li>
+      ))}
+    </ol>
+  );
+};
@@ -0,0 +1,182 @@
+'use client';
+
+import { useState } from 'react';
+
+import { type ApiError, describeApiError } from '@/shared/http/api-client';
+
+import type { UserFileFormat } from '../../application/formats/user-file.format';
+import type { UserImportResult } from '../../application/use-cases/import-users.use-case';
+import type { UserRole } from '../../domain/entities/user.entity';
+import type { ExportedUsersFile, UsersApiClient } from '../../infrastructure/http/users-api.client';
+
+interface UserImportExportPanelProps {
+  usersApi: UsersApiClient;
+  // The list filters; exports contain every user matching them
+  filters: { q: string; role: UserRole | ''; deleted: boolean };
+  disabled?: boolean;
+  // Awaited before the panel is ready again
+  onImported?: () => Promise<void> | void;
+}
+
+const formatOf = (fileName: string): UserFileFormat =>
+  fileName.toLowerCase().endsWith('.csv') ? 'csv' : 'ndjson';
+
+const describeResult = ({ dryRun, committed, summary }: UserImportResult) => {
+  if (committed) return `Imported ${summary.valid} users.`;
+  if (dryRun) return `Dry run: ${summary.valid} of ${summary.total} rows can be imported.`;
+  return `Nothing was imported: ${summary.invalid} of ${summary.total} rows have problems.`;
+};
+
+// Saves a downloaded file through a temporary link, since the request needs an Authorization header
+const saveFile = ({ blob, fileName }: ExportedUsersFile, fallbackName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+
+  link.href = url;
+  link.download = fileName ?? fallbackName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Row issues of a rejected file are more useful than the summary
+const errorMessage = (error: ApiError) => {
+  const issues =
+    error.kind === 'problem' && error.problem.errors?.map((issue) => issue.message).join('; ');
+  return issues || describeApiError(error, 'The request failed');
+};
+
+/**
+ * Downloads the filtered users as CSV or NDJSON and uploads such files back,
+ * optionally as a dry run, showing row-level problems.
+ */
+export const UserImportExportPanel: React.FC<UserImportExportPanelProps> = ({
+  usersApi,
+  filters,
+  disabled = false,
+  onImported,
+}) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [dryRun, setDryRun] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState('');
+  const [result, setResult] = useState<UserImportResult | null>(null);
+
+  const run = async (work: () => Promise<void>) => {
+    setBusy(true);
+    setMessage('');
+    setResult(null);
+    try {
+      await work();
+    } catch (err) {
+      setMessage('The request failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const download = (format: UserFileFormat) =>
+    run(async () => {
+      const exported = await usersApi.exportUsers(format, {
+        q: filters.q || undefined,
+        roles: filters.role ? [filters.role] : undefined,
+        deleted: filters.deleted,
+        sort: [{ field: 'name', direction: 'asc' }],
+      });
+
+      if (!exported.ok) {
+        setMessage(errorMessage(exported.error));
+        return;
+      }
+      saveFile(exported.data, `users.${format}`);
+    });
+
+  const upload = () =>
+    run(async () => {
+      if (!file) return;
+
+      const imported = await usersApi.importUsers(await file.text(), formatOf(file.name), {
+        dryRun,
+      });
+
+      if (!imported.ok) {
+        setMessage(errorMessage(imported.error));
+        return;
+      }
+
+      setResult(imported.data);
+      if (imported.data.committed) await onImported?.();
+    });
+
+  const buttonClass =
+    'rounded-lg bg-white px-4 py-2 text-sm font-medium text-gray-800 hover:bg-gray-200 disabled:opacity-50 dark:bg-gray-700 dark:text-gray-100 dark:hover:bg-gray-600';
+
+  return (
+    <div className="mb-8 rounded-lg bg-gray-100 p-6 dark:bg-gray-800">
+      <h2 className="text-foreground mb-4 text-2xl font-semibold">Import &amp; Export</h2>
+      <div className="mb-4 flex flex-wrap items-center gap-2">
+        {(['csv', 'ndjson'] as const).map((format) => (
+          <button
+            key={format}
+            type="button"
+            onClick={() => {
+              download(format).catch((err) => {
+                console.error('Error exporting users:', err);
+              });
+            }}
+            disabled={disabled || busy}
+            className={buttonClass}
+          >
+            Download {format.toUpperCase()}
+          </button>
+        ))}
+        <span className="text-sm text-gray-600 dark:text-gray-400">
+          Uses the current search and role filters
+        </span>
+      </div>
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          upload().catch((err) => {
+            console.error('Error importing users:', err);
+          });
+        }}
+        className="flex flex-wrap items-center gap-4"
+      >
+        {/* eslint-disable-next-line jsx-a11y/label-has-associated-control */}
+        <label htmlFor="import-file" className="sr-only">
+          File to import
+        </label>
+        <input
+          id="import-file"
+          type="file"
+          accept=".csv,.ndjson,.jsonl,text/csv,application/x-ndjson"
+          onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+          className="text-foreground text-sm"
+        />
+        {/* eslint-disable-next-line jsx-a11y/label-has-associated-control */}
+        <label className="text-foreground flex items-center gap-2 text-sm">
+          <input type="checkbox" checked={dryRun} onChange={(e) => setDryRun(e.target.checked)} />
+          Dry run (only check the file)
+        </label>
+        <button type="submit" disabled={disabled || busy || !file} className={buttonClass}>
+          Upload
+        </button>
+      </form>
+      {message && <p className="mt-4 text-sm text-red-600 dark:text-red-400">{message}</p>}
+      {result && (
+        <div role="status" className="text-foreground mt-4 text-sm">
+          <p>{describeResult(result)}</p>
+          {result.errors.length > 0 && (
+            <ul className="mt-2 list-disc ps-5 text-red-600 dark:text-red-400">
+              {result.errors.map(({ line, issues }) => (
+                <li key={line}>
+                  Line {line}: {issues.map((issue) => issue.message).join('; ')}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,208 @@
+'use client';
+
+import { useState } from 'react';
+
+import { useTranslations } from 'next-intl';
+
+import { useFormatPresets } from '@/features/i18n/presentation/hooks/use-format-presets';
+
+import type { UpdateUserCommand } from '../../application/schemas/user.schema';
+import type { UserAuditEntry } from '../../domain/entities/user-audit-entry.entity';
+import { type User, USER_ROLES, type UserRole } from '../../domain/entities/user.entity';
+import { UserHistoryList } from './user-history-list';
+
+interface UserListItemProps {
+  user: User;
+  disabled?: boolean;
+  canEdit?: boolean;
+  canChangeRole?: boolean;
+  // Shown below the user when set
+  history?: UserAuditEntry[];
+  onToggleHistory: () => void;
+  onRestore: () => void;
+  onDelete: () => void;
+  // Only the changed fields; resolves to false if they were not saved
+  onSave: (changes: UpdateUserCommand) => Promise<boolean>;
+}
+
+type Draft = Pick<User, 'name' | 'email' | 'role'>;
+
+const changedFields = (user: User, draft: Draft): UpdateUserCommand => ({
+  ...(draft.name !== user.name && { name: draft.name }),
+  ...(draft.email !== user.email && { email: draft.email }),
+  ...(draft.role !== user.role && { role: draft.role }),
+});
+
+const inputClass =
+  'text-foreground rounded-lg border border-gray-300 bg-white px-3 py-1 text-sm dark:border-gray-600 dark:bg-gray-800';
+const secondaryButtonClass =
+  'rounded-lg bg-gray-200 px-4 py-2 text-sm font-medium text-gray-800 hover:bg-gray-300 disabled:opacity-50 dark:bg-gray-600 dark:text-gray-100 dark:hover:bg-gray-500';
+
+/**
+ * One user of the list, editable in place: Enter saves, Escape cancels. The
+ * editor closes as soon as a save starts and reopens with the draft if the
+ * save fails.
+ */
+export const UserListItem: React.FC<UserListItemProps> = ({
+  user,
+  disabled = false,
+  canEdit = false,
+  canChangeRole = false,
+  history,
+  onToggleHistory,
+  onRestore,
+  onDelete,
+  onSave,
+}) => {
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const t = useTranslations('UserManagement');
+  const format = useFormatPresets();
+
+  const save = async (edited: Draft) => {
+    const changes = changedFields(user, edited);
+
+    setDraft(null);
+    if (Object.keys(changes).length === 0) return;
+
+    setSaving(true);
+    try {
+      if (!(await onSave(changes))) setDraft(edited);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const submit = () => {
+    if (!draft) return;
+    save(draft).catch((err) => {
+      console.error('Error saving user:', err);
+    });
+  };
+
+  // Escape cancels from any field; Enter saves (inputs submit on Enter by themselves, selects do not)
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement | HTMLSelectElement>) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      setDraft(null);
+    } else if (e.key === 'Enter' && e.currentTarget instanceof HTMLSelectElement) {
+      e.preventDefault();
+      submit();
+    }
+  };
+
+  return (
+    <div className="rounded-lg bg-white p-4 dark:bg-gray-700">
+      <div className="flex items-center justify-between gap-4">
+        {draft ? (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              submit();
+            }}
+            aria-label={t('editUser', { name: user.name })}
+            className="flex flex-1 flex-wrap items-center gap-2"
+          >
+            <input
+              aria-label={t('name')}
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              onKeyDown={handleKeyDown}
+              className={inputClass}
+              // Focus moves into the editor the user just opened
+              // eslint-disable-next-line jsx-a11y/no-autofocus
+              autoFocus
+            />
+            <input
+              aria-label={t('email')}
+              type="email"
+              value={draft.email}
+              onChange={(e) => setDraft({ ...draft, email: e.target.value })}
+              onKeyDown={handleKeyDown}
+              className={inputClass}
+            />
+            <select
+              aria-label={t('role')}
+              value={draft.role}
+              onChange={(e) => setDraft({ ...draft, role: e.target.value as UserRole })}
+              onKeyDown={handleKeyDown}
+              disabled={!canChangeRole}
+              className={inputClass}
+            >
+              {USER_ROLES.map((role) => (
+                <option key={role} value={role}>
+                  {role}
+                </option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700"
+            >
+              {t('save')}
+            </button>
+            <button type="button" onClick={() => setDraft(null)} className={secondaryButtonClass}>
+              {t('cancel')}
+            </button>
+          </form>
+        ) : (
+          <div className={saving ? 'opacity-60' : undefined}>
+            <p className="text-foreground font-semibold">{user.name}</p>
+            <p className="text-sm text-gray-600 dark:text-gray-400">{user.email}</p>
+            <span className="mt-1 inline-block rounded bg-blue-100 px-2 py-1 text-xs font-medium text-blue-800 dark:bg-blue-900/30 dark:text-blue-300">
+              {user.role}
+            </span>
+            {user.deletedAt && (
+              <span className="ms-2 mt-1 inline-block text-xs text-gray-500">
+                {t('deletedOn', { date: format.shortDateTime(user.deletedAt) })}
+              </span>
+            )}
+            {saving && <span className="ms-2 text-xs text-gray-500">{t('saving')}</span>}
+          </div>
+        )}
+        {!draft && (
+          <div className="flex gap-2">
+            {canEdit && !user.deletedAt && (
+              <button
+                type="button"
+                onClick={() => setDraft({ name: user.name, email: user.email, role: user.role })}
+                disabled={disabled || saving}
+                className={secondaryButtonClass}
+              >
+                {t('edit')}
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={onToggleHistory}
+              aria-expanded={history !== undefined}
+              className={secondaryButtonClass}
+            >
+              {t('history')}
+            </button>
+            {user.deletedAt ? (
+              <button
+                type="button"
+                onClick={onRestore}
+                disabled={disabled}
+                className="rounded-lg bg-green-600 px-4 py-2 text-sm font-medium text-white hover:bg-green-700 disabled:opacity-50"
+              >
+                {t('restore')}
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={onDelete}
+                disabled={disabled || saving}
+                className="rounded-lg bg-red-600 px-4 py-2 text-sm font-medium text-white hover:bg-red-700 disabled:opacity-50"
+              >
+                {t('delete')}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+      {history && <UserHistoryList entries={history} />}
+    </div>
+  );
+};
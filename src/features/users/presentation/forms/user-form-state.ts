@@ -0,0 +1,26 @@
+export type UserFormField = 'name' | 'email' | 'role';
+
+export type UserFormValues = Record<UserFormField, string>;
+
+/**
+ * What a user Server Action reports back to its form. `values` echoes the
+ * submission so a rejected form keeps its input, also without JavaScript.
+ */
+export interface UserFormState {
+  status: 'idle' | 'success' | 'error';
+  message?: string;
+  fieldErrors?: Partial<Record<UserFormField, string>>;
+  values?: UserFormValues;
+}
+
+export type UserFormAction = (state: UserFormState, formData: FormData) => Promise<UserFormState>;
+
+export const INITIAL_USER_FORM_STATE: UserFormState = { status: 'idle' };
+
+export const EMPTY_USER_FORM_VALUES: UserFormValues = { name: '', email: '', role: 'User' };
+
+export const readUserForm = (formData: FormData): UserFormValues => ({
+  name: String(formData.get('name') ?? ''),
+  email: String(formData.get('email') ?? ''),
+  role: String(formData.get('role') ?? ''),
+});
@@ -0,0 +1,135 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+
+import {
+  createServerSentEventParser,
+  type ServerSentEvent,
+  SSE_CONTENT_TYPE,
+} from '@/shared/http/server-sent-events';
+
+import type { User } from '../../domain/entities/user.entity';
+import type { UserChangeEvent, UserChangeType } from '../../domain/events/user-change.event';
+
+const EVENTS_URL = '/api/users/events';
+const DEFAULT_RECONNECT_DELAY_MS = 3_000;
+const CHANGE_TYPES: readonly string[] = [
+  'user.created',
+  'user.updated',
+  'user.deleted',
+  'user.restored',
+] satisfies UserChangeType[];
+
+// `resync` means events were missed and the caller should reload its data
+export type UserStreamEvent = UserChangeEvent | { type: 'resync' };
+
+export type UserEventsStatus = 'idle' | 'connecting' | 'open' | 'reconnecting';
+
+interface ChangePayload {
+  data: User;
+  occurredAt: string;
+}
+
+const toUserStreamEvent = ({ id, event, data }: ServerSentEvent): UserStreamEvent | null => {
+  if (event === 'resync') return { type: 'resync' };
+  if (!id || !event || !CHANGE_TYPES.includes(event)) return null;
+
+  const payload = JSON.parse(data) as ChangePayload;
+  return {
+    id,
+    type: event,
+    user: payload.data,
+    occurredAt: payload.occurredAt,
+  } as UserChangeEvent;
+};
+
+/**
+ * Subscribes to the users change feed while `accessToken` is set. Reads the
+ * stream with `fetch` because `EventSource` cannot send an `Authorization`
+ * header, and reconnects with `Last-Event-ID` so no change is missed.
+ */
+export const useUserEvents = (
+  accessToken: string | null,
+  onEvent: (event: UserStreamEvent) => void
+) => {
+  const [status, setStatus] = useState<UserEventsStatus>('idle');
+  const onEventRef = useRef(onEvent);
+
+  useEffect(() => {
+    onEventRef.current = onEvent;
+  }, [onEvent]);
+
+  useEffect(() => {
+    if (!accessToken) {
+      setStatus('idle');
+      return undefined;
+    }
+
+    const controller = new AbortController();
+    let lastEventId: string | undefined;
+    let reconnectDelay = DEFAULT_RECONNECT_DELAY_MS;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const handle = (message: ServerSentEvent) => {
+      if (message.retry !== undefined) reconnectDelay = message.retry;
+
+      const event = toUserStreamEvent(message);
+      if (!event) return;
+      if ('id' in event) lastEventId = event.id;
+      onEventRef.current(event);
+    };
+
+    const connect = async () => {
+      const response = await fetch(EVENTS_URL, {
+        headers: {
+          Accept: SSE_CONTENT_TYPE,
+          Authorization: `Bearer ${accessToken}`,
+          ...(lastEventId && { 'Last-Event-ID': lastEventId }),
+        },
+        cache: 'no-store',
+        signal: controller.signal,
+      });
+
+      // Retrying cannot fix a rejected token or a missing permission
+      if (response.status === 401 || response.status === 403) return false;
+      if (!response.ok || !response.body) return true;
+
+      setStatus('open');
+      const parse = createServerSentEventParser(handle);
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+
+      const pump = async (): Promise<void> => {
+        const { done, value } = await reader.read();
+        if (done) return;
+        parse(value);
+        await pump();
+      };
+
+      await pump();
+      return true;
+    };
+
+    const run = (nextStatus: UserEventsStatus) => {
+      setStatus(nextStatus);
+      connect()
+        .catch(() => !controller.signal.aborted)
+        .then((shouldReconnect) => {
+          if (!shouldReconnect || controller.signal.aborted) {
+            setStatus('idle');
+            return;
+          }
+          reconnectTimer = setTimeout(() => run('reconnecting'), reconnectDelay);
+        })
+        .catch(() => undefined);
+    };
+
+    run('connecting');
+
+    return () => {
+      controller.abort();
+      clearTimeout(reconnectTimer);
+    };
+  }, [accessToken]);
+
+  return status;
+};
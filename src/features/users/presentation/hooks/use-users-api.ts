@@ -0,0 +1,31 @@
+'use client';
+
+import { useMemo } from 'react';
+
+import { useLocale } from 'next-intl';
+
+import { ApiClient } from '@/shared/http/api-client';
+
+import { UsersApiClient } from '../../infrastructure/http/users-api.client';
+
+/**
+ * A users API client that authenticates as the given access token and asks
+ * for error messages in the current locale; a new client is created only when
+ * either changes.
+ */
+export const useUsersApi = (accessToken: string | null) => {
+  const locale = useLocale();
+
+  return useMemo(
+    () =>
+      new UsersApiClient(
+        new ApiClient({
+          headers: {
+            'Accept-Language': locale,
+            ...(accessToken && { Authorization: `Bearer ${accessToken}` }),
+          },
+        })
+      ),
+    [accessToken, locale]
+  );
+};
@@ -0,0 +1,49 @@
+import { ValidationError, type ValidationIssue } from '@/shared/validation/schema';
+
+import {
+  WEBHOOK_DELIVERY_STATUSES,
+  type WebhookDeliveryStatus,
+} from '../../domain/entities/webhook-delivery.entity';
+import type { FindDeliveriesOptions } from '../../domain/repositories/webhook.repository';
+
+export const MAX_DELIVERY_PAGE_SIZE = 100;
+
+/**
+ * Parses `GET /api/webhooks/[id]/deliveries` query parameters: `status` and
+ * `limit` (default and maximum `MAX_DELIVERY_PAGE_SIZE`).
+ *
+ * @throws {ValidationError} If any parameter is invalid
+ */
+export const parseWebhookDeliveriesQuery = (
+  searchParams: URLSearchParams
+): FindDeliveriesOptions => {
+  const issues: ValidationIssue[] = [];
+  const status = searchParams.get('status') ?? undefined;
+  const limit = Number(searchParams.get('limit') ?? MAX_DELIVERY_PAGE_SIZE);
+
+  if (
+    status !== undefined &&
+    !WEBHOOK_DELIVERY_STATUSES.includes(status as WebhookDeliveryStatus)
+  ) {
+    issues.push({
+      field: 'status',
+      code: 'invalid_enum',
+      message: `status must be one of: ${WEBHOOK_DELIVERY_STATUSES.join(', ')}`,
+      params: { options: WEBHOOK_DELIVERY_STATUSES.join(', ') },
+    });
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_DELIVERY_PAGE_SIZE) {
+    issues.push({
+      field: 'limit',
+      code: 'invalid_type',
+      message: `limit must be an integer between 1 and ${MAX_DELIVERY_PAGE_SIZE}`,
+      params: { expected: 'integer', min: 1, max: MAX_DELIVERY_PAGE_SIZE },
+    });
+  }
+
+  if (issues.length > 0) {
+    throw new ValidationError(issues);
+  }
+
+  return { status: status as WebhookDeliveryStatus | undefined, limit };
+};
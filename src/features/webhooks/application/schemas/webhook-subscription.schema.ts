@@ -0,0 +1,154 @@
+import type { UserChangeType } from '@/features/users';
+
+import type { JsonSchema } from '@/shared/openapi/openapi.types';
+import {
+  type ObjectSchema,
+  toJsonSchema,
+  validate,
+  ValidationError,
+  type ValidationIssue,
+} from '@/shared/validation/schema';
+
+import { WEBHOOK_EVENT_TYPES } from '../../domain/entities/webhook-subscription.entity';
+import { isWebhookHostAllowed } from '../../domain/policies/webhook-target.policy';
+
+export interface CreateWebhookSubscriptionCommand {
+  url: string;
+  events: UserChangeType[];
+  description?: string;
+}
+
+export const WEBHOOK_URL_MAX_LENGTH = 2048;
+export const WEBHOOK_DESCRIPTION_MAX_LENGTH = 200;
+
+// The string fields; `events` is an array, which object schemas do not describe
+const webhookFieldsSchema: ObjectSchema<Omit<CreateWebhookSubscriptionCommand, 'events'>> = {
+  name: 'CreateWebhookSubscriptionRequest',
+  fields: {
+    url: {
+      type: 'string',
+      required: true,
+      format: 'uri',
+      maxLength: WEBHOOK_URL_MAX_LENGTH,
+      description:
+        'Receiver URL (http or https) on a public host; deliveries are POSTed here. Loopback hosts are accepted outside production.',
+    },
+    description: {
+      type: 'string',
+      maxLength: WEBHOOK_DESCRIPTION_MAX_LENGTH,
+      description: 'What the receiver is, e.g. "CRM sync"',
+    },
+  },
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const urlIssues = (url: string, allowLoopback: boolean): ValidationIssue[] => {
+  let hostname: string;
+
+  try {
+    ({ hostname } = new URL(url));
+  } catch {
+    return [
+      {
+        field: 'url',
+        code: 'invalid_format',
+        message: 'url must be a valid uri',
+        params: { format: 'uri' },
+      },
+    ];
+  }
+
+  return isWebhookHostAllowed(hostname, allowLoopback)
+    ? []
+    : [
+        {
+          field: 'url',
+          code: 'invalid_format',
+          message: 'url must point to a public host',
+          params: { format: 'public_uri' },
+        },
+      ];
+};
+
+const eventIssues = (events: unknown): ValidationIssue[] => {
+  if (!Array.isArray(events) || events.length === 0) {
+    return [
+      {
+        field: 'events',
+        code: events === undefined ? 'required' : 'invalid_type',
+        message: 'events must be a non-empty array of event types',
+      },
+    ];
+  }
+
+  return events.flatMap((event: unknown, index): ValidationIssue[] => {
+    const field = `events[${index}]`;
+
+    if (!WEBHOOK_EVENT_TYPES.includes(event as UserChangeType)) {
+      return [
+        {
+          field,
+          code: 'invalid_enum',
+          message: `${field} must be one of: ${WEBHOOK_EVENT_TYPES.join(', ')}`,
+          params: { options: WEBHOOK_EVENT_TYPES.join(', ') },
+        },
+      ];
+    }
+    if (events.indexOf(event) !== index) {
+      return [
+        {
+          field,
+          code: 'duplicate',
+          message: `${field} is listed more than once`,
+          params: { source: 'list' },
+        },
+      ];
+    }
+    return [];
+  });
+};
+
+/**
+ * Validates a create request; strings are trimmed as by `validate`. The URL
+ * must not point into the server's network, except for loopback hosts when
+ * `allowLoopback` is set.
+ *
+ * @throws {ValidationError} With every issue of the payload
+ */
+export const parseCreateWebhookSubscription = (
+  input: unknown,
+  { allowLoopback = false }: { allowLoopback?: boolean } = {}
+): CreateWebhookSubscriptionCommand => {
+  // Anything but an object is reported by `validate` alone
+  const body = isPlainObject(input) ? input : null;
+  const { events, ...fields } = body ?? {};
+  const result = validate(webhookFieldsSchema, body ? fields : input);
+  const issues = [
+    ...(result.success ? urlIssues(result.data.url, allowLoopback) : result.issues),
+    ...(body ? eventIssues(events) : []),
+  ];
+
+  if (!result.success || issues.length > 0) throw new ValidationError(issues);
+
+  return { ...result.data, events: events as UserChangeType[] };
+};
+
+export const createWebhookSubscriptionJsonSchema: JsonSchema = (() => {
+  const schema = toJsonSchema(webhookFieldsSchema);
+
+  return {
+    ...schema,
+    properties: {
+      ...schema.properties,
+      events: {
+        type: 'array',
+        items: { type: 'string', enum: WEBHOOK_EVENT_TYPES },
+        minItems: 1,
+        description: 'User changes to deliver',
+      },
+    },
+    required: [...(schema.required ?? []), 'events'],
+  };
+})();
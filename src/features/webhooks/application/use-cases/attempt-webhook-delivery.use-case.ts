@@ -0,0 +1,49 @@
+import type { WebhookDelivery } from '../../domain/entities/webhook-delivery.entity';
+import type { WebhookRepository } from '../../domain/repositories/webhook.repository';
+import {
+  isSuccessfulAttempt,
+  retryDelayMs,
+  type WebhookRetryPolicy,
+} from '../../domain/services/webhook-retry.policy';
+import type { WebhookSender } from '../../domain/services/webhook-sender';
+
+export class AttemptWebhookDeliveryUseCase {
+  constructor(
+    private readonly webhookRepository: WebhookRepository,
+    private readonly sender: WebhookSender,
+    private readonly retryPolicy: WebhookRetryPolicy
+  ) {}
+
+  /**
+   * Sends a pending delivery once and records the attempt. A failed attempt
+   * schedules the next one (`nextAttemptAt`) until `maxAttempts`, then the
+   * delivery is dead-lettered. Returns null if the delivery or its
+   * subscription has been deleted meanwhile.
+   */
+  async execute(delivery: WebhookDelivery): Promise<WebhookDelivery | null> {
+    const subscription = await this.webhookRepository.findSubscription(delivery.subscriptionId);
+
+    if (!subscription || delivery.status !== 'pending') return null;
+
+    const attempt = await this.sender.send({
+      url: subscription.url,
+      secret: subscription.secret,
+      deliveryId: delivery.id,
+      eventType: delivery.event.type,
+      body: JSON.stringify(delivery.event),
+    });
+    const attempts = [...delivery.attempts, attempt];
+    let update: Pick<WebhookDelivery, 'status' | 'nextAttemptAt'>;
+
+    if (isSuccessfulAttempt(attempt)) {
+      update = { status: 'succeeded', nextAttemptAt: null };
+    } else if (attempts.length >= this.retryPolicy.maxAttempts) {
+      update = { status: 'dead-lettered', nextAttemptAt: null };
+    } else {
+      const delay = retryDelayMs(attempts.length, this.retryPolicy);
+      update = { status: 'pending', nextAttemptAt: new Date(Date.now() + delay).toISOString() };
+    }
+
+    return this.webhookRepository.updateDelivery({ ...delivery, ...update, attempts });
+  }
+}
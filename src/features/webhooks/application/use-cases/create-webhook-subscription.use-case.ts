@@ -0,0 +1,36 @@
+import type { Actor } from '@/features/users';
+
+import type { WebhookSubscription } from '../../domain/entities/webhook-subscription.entity';
+import { WebhookAccessDeniedError } from '../../domain/errors/webhook-access-denied.error';
+import { canManageWebhooks } from '../../domain/policies/webhook-access.policy';
+import type { WebhookRepository } from '../../domain/repositories/webhook.repository';
+import { parseCreateWebhookSubscription } from '../schemas/webhook-subscription.schema';
+
+export class CreateWebhookSubscriptionUseCase {
+  constructor(
+    private readonly webhookRepository: WebhookRepository,
+    private readonly generateSecret: () => string,
+    // Outside production, so a receiver on this machine can be tested
+    private readonly allowLoopback = false
+  ) {}
+
+  /**
+   * Registers a receiver with a new signing secret. The result is the only
+   * place the secret is returned. Receivers on private, link-local or (unless
+   * allowed) loopback hosts are rejected.
+   *
+   * @throws {WebhookAccessDeniedError} If `actor` may not manage webhooks
+   * @throws {ValidationError} If the payload is invalid
+   */
+  async execute(actor: Actor, input: unknown): Promise<WebhookSubscription> {
+    if (!canManageWebhooks(actor)) throw new WebhookAccessDeniedError();
+
+    const command = parseCreateWebhookSubscription(input, { allowLoopback: this.allowLoopback });
+
+    return this.webhookRepository.createSubscription({
+      ...command,
+      secret: this.generateSecret(),
+      createdBy: actor.id,
+    });
+  }
+}
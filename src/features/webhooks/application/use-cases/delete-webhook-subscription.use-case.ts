@@ -0,0 +1,22 @@
+import type { Actor } from '@/features/users';
+
+import type { WebhookSubscriptionId } from '../../domain/entities/webhook-subscription.entity';
+import { WebhookAccessDeniedError } from '../../domain/errors/webhook-access-denied.error';
+import { canManageWebhooks } from '../../domain/policies/webhook-access.policy';
+import type { WebhookRepository } from '../../domain/repositories/webhook.repository';
+
+export class DeleteWebhookSubscriptionUseCase {
+  constructor(private readonly webhookRepository: WebhookRepository) {}
+
+  /**
+   * Stops deliveries to the receiver and drops its delivery log. Returns
+   * false if the subscription does not exist.
+   *
+   * @throws {WebhookAccessDeniedError} If `actor` may not manage webhooks
+   */
+  async execute(actor: Actor, id: WebhookSubscriptionId): Promise<boolean> {
+    if (!canManageWebhooks(actor)) throw new WebhookAccessDeniedError();
+
+    return this.webhookRepository.deleteSubscription(id);
+  }
+}
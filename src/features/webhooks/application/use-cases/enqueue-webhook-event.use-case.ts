@@ -0,0 +1,29 @@
+import type { WebhookDelivery, WebhookEvent } from '../../domain/entities/webhook-delivery.entity';
+import type { WebhookRepository } from '../../domain/repositories/webhook.repository';
+
+/**
+ * Creates a pending delivery of `event` for every subscription that chose its
+ * type. System use: it takes no actor.
+ */
+export class EnqueueWebhookEventUseCase {
+  constructor(private readonly webhookRepository: WebhookRepository) {}
+
+  async execute(event: WebhookEvent): Promise<WebhookDelivery[]> {
+    const subscriptions = await this.webhookRepository.findSubscriptions();
+    const now = new Date().toISOString();
+
+    return Promise.all(
+      subscriptions
+        .filter((subscription) => (subscription.events as string[]).includes(event.type))
+        .map((subscription) =>
+          this.webhookRepository.createDelivery({
+            subscriptionId: subscription.id,
+            event,
+            status: 'pending',
+            attempts: [],
+            nextAttemptAt: now,
+          })
+        )
+    );
+  }
+}
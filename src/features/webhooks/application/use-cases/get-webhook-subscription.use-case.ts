@@ -0,0 +1,29 @@
+import type { Actor } from '@/features/users';
+
+import {
+  type PublicWebhookSubscription,
+  toPublicWebhookSubscription,
+  type WebhookSubscriptionId,
+} from '../../domain/entities/webhook-subscription.entity';
+import { WebhookAccessDeniedError } from '../../domain/errors/webhook-access-denied.error';
+import { canManageWebhooks } from '../../domain/policies/webhook-access.policy';
+import type { WebhookRepository } from '../../domain/repositories/webhook.repository';
+
+export class GetWebhookSubscriptionUseCase {
+  constructor(private readonly webhookRepository: WebhookRepository) {}
+
+  /**
+   * The subscription without its secret, or null if it does not exist.
+   *
+   * @throws {WebhookAccessDeniedError} If `actor` may not manage webhooks
+   */
+  async execute(
+    actor: Actor,
+    id: WebhookSubscriptionId
+  ): Promise<PublicWebhookSubscription | null> {
+    if (!canManageWebhooks(actor)) throw new WebhookAccessDeniedError();
+
+    const subscription = await this.webhookRepository.findSubscription(id);
+    return subscription && toPublicWebhookSubscription(subscription);
+  }
+}
@@ -0,0 +1,31 @@
+import type { Actor } from '@/features/users';
+
+import type { WebhookDelivery } from '../../domain/entities/webhook-delivery.entity';
+import type { WebhookSubscriptionId } from '../../domain/entities/webhook-subscription.entity';
+import { WebhookAccessDeniedError } from '../../domain/errors/webhook-access-denied.error';
+import { canManageWebhooks } from '../../domain/policies/webhook-access.policy';
+import type {
+  FindDeliveriesOptions,
+  WebhookRepository,
+} from '../../domain/repositories/webhook.repository';
+
+export class ListWebhookDeliveriesUseCase {
+  constructor(private readonly webhookRepository: WebhookRepository) {}
+
+  /**
+   * The delivery log of a subscription, newest first, or null if the
+   * subscription does not exist. Filter by `dead-lettered` for the dead letters.
+   *
+   * @throws {WebhookAccessDeniedError} If `actor` may not manage webhooks
+   */
+  async execute(
+    actor: Actor,
+    subscriptionId: WebhookSubscriptionId,
+    options: FindDeliveriesOptions = {}
+  ): Promise<WebhookDelivery[] | null> {
+    if (!canManageWebhooks(actor)) throw new WebhookAccessDeniedError();
+
+    if (!(await this.webhookRepository.findSubscription(subscriptionId))) return null;
+    return this.webhookRepository.findDeliveries(subscriptionId, options);
+  }
+}
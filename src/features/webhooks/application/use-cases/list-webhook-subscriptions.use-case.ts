@@ -0,0 +1,25 @@
+import type { Actor } from '@/features/users';
+
+import {
+  type PublicWebhookSubscription,
+  toPublicWebhookSubscription,
+} from '../../domain/entities/webhook-subscription.entity';
+import { WebhookAccessDeniedError } from '../../domain/errors/webhook-access-denied.error';
+import { canManageWebhooks } from '../../domain/policies/webhook-access.policy';
+import type { WebhookRepository } from '../../domain/repositories/webhook.repository';
+
+export class ListWebhookSubscriptionsUseCase {
+  constructor(private readonly webhookRepository: WebhookRepository) {}
+
+  /**
+   * Every subscription, oldest first, without secrets.
+   *
+   * @throws {WebhookAccessDeniedError} If `actor` may not manage webhooks
+   */
+  async execute(actor: Actor): Promise<PublicWebhookSubscription[]> {
+    if (!canManageWebhooks(actor)) throw new WebhookAccessDeniedError();
+
+    const subscriptions = await this.webhookRepository.findSubscriptions();
+    return subscriptions.map(toPublicWebhookSubscription);
+  }
+}
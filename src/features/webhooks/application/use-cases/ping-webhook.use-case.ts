@@ -0,0 +1,45 @@
+import type { Actor } from '@/features/users';
+
+import type { WebhookDelivery } from '../../domain/entities/webhook-delivery.entity';
+import {
+  WEBHOOK_PING_EVENT,
+  type WebhookSubscriptionId,
+} from '../../domain/entities/webhook-subscription.entity';
+import { WebhookAccessDeniedError } from '../../domain/errors/webhook-access-denied.error';
+import { canManageWebhooks } from '../../domain/policies/webhook-access.policy';
+import type { WebhookRepository } from '../../domain/repositories/webhook.repository';
+
+export class PingWebhookUseCase {
+  constructor(private readonly webhookRepository: WebhookRepository) {}
+
+  /**
+   * Queues a `webhook.ping` delivery, to check a receiver and its signature
+   * verification. Returns null if the subscription does not exist.
+   *
+   * @throws {WebhookAccessDeniedError} If `actor` may not manage webhooks
+   */
+  async execute(
+    actor: Actor,
+    subscriptionId: WebhookSubscriptionId
+  ): Promise<WebhookDelivery | null> {
+    if (!canManageWebhooks(actor)) throw new WebhookAccessDeniedError();
+
+    const subscription = await this.webhookRepository.findSubscription(subscriptionId);
+
+    if (!subscription) return null;
+
+    const now = new Date().toISOString();
+    return this.webhookRepository.createDelivery({
+      subscriptionId,
+      event: {
+        id: crypto.randomUUID(),
+        type: WEBHOOK_PING_EVENT,
+        occurredAt: now,
+        data: { subscriptionId, events: subscription.events },
+      },
+      status: 'pending',
+      attempts: [],
+      nextAttemptAt: now,
+    });
+  }
+}
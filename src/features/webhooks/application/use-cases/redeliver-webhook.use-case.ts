@@ -0,0 +1,42 @@
+import type { Actor } from '@/features/users';
+
+import type {
+  WebhookDelivery,
+  WebhookDeliveryId,
+} from '../../domain/entities/webhook-delivery.entity';
+import type { WebhookSubscriptionId } from '../../domain/entities/webhook-subscription.entity';
+import { WebhookAccessDeniedError } from '../../domain/errors/webhook-access-denied.error';
+import { canManageWebhooks } from '../../domain/policies/webhook-access.policy';
+import type { WebhookRepository } from '../../domain/repositories/webhook.repository';
+
+export class RedeliverWebhookUseCase {
+  constructor(private readonly webhookRepository: WebhookRepository) {}
+
+  /**
+   * Queues a new delivery of the same event (same event `id`, so receivers
+   * can still drop duplicates), typically for a dead letter once the receiver
+   * is fixed. Returns null if the delivery does not exist.
+   *
+   * @throws {WebhookAccessDeniedError} If `actor` may not manage webhooks
+   */
+  async execute(
+    actor: Actor,
+    subscriptionId: WebhookSubscriptionId,
+    deliveryId: WebhookDeliveryId
+  ): Promise<WebhookDelivery | null> {
+    if (!canManageWebhooks(actor)) throw new WebhookAccessDeniedError();
+
+    const original = await this.webhookRepository.findDelivery(subscriptionId, deliveryId);
+
+    if (!original) return null;
+
+    return this.webhookRepository.createDelivery({
+      subscriptionId,
+      event: original.event,
+      status: 'pending',
+      attempts: [],
+      nextAttemptAt: new Date().toISOString(),
+      redeliveryOf: original.id,
+    });
+  }
+}
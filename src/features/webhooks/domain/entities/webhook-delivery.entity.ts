@@ -0,0 +1,44 @@
+import type { WebhookEventType, WebhookSubscriptionId } from './webhook-subscription.entity';
+
+export type WebhookDeliveryId = string;
+
+// `pending` waits for its first attempt or a retry; `dead-lettered` ran out of attempts
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'dead-lettered';
+
+export const WEBHOOK_DELIVERY_STATUSES: readonly WebhookDeliveryStatus[] = [
+  'pending',
+  'succeeded',
+  'dead-lettered',
+];
+
+// The JSON body POSTed to the subscriber
+export interface WebhookEvent {
+  // Same for every delivery of one event, so receivers can drop duplicates
+  id: string;
+  type: WebhookEventType;
+  occurredAt: string;
+  data: unknown;
+}
+
+export interface WebhookDeliveryAttempt {
+  attemptedAt: string;
+  durationMs: number;
+  // Absent when no response arrived
+  statusCode?: number;
+  error?: string;
+}
+
+export interface WebhookDelivery {
+  id: WebhookDeliveryId;
+  subscriptionId: WebhookSubscriptionId;
+  event: WebhookEvent;
+  status: WebhookDeliveryStatus;
+  attempts: WebhookDeliveryAttempt[];
+  // When the next attempt is due; null once the delivery succeeded or was dead-lettered
+  nextAttemptAt: string | null;
+  createdAt: string;
+  // Set on manual redeliveries
+  redeliveryOf?: WebhookDeliveryId;
+}
+
+export type NewWebhookDelivery = Omit<WebhookDelivery, 'id' | 'createdAt'>;
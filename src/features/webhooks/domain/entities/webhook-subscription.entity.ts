@@ -0,0 +1,48 @@
+import type { UserChangeType, UserId } from '@/features/users';
+
+export type WebhookSubscriptionId = string;
+
+// The user changes a subscription can choose from
+export const WEBHOOK_EVENT_TYPES: readonly UserChangeType[] = [
+  'user.created',
+  'user.updated',
+  'user.deleted',
+  'user.restored',
+];
+
+// Sent on request to check that a receiver is reachable; every subscription gets it
+export const WEBHOOK_PING_EVENT = 'webhook.ping';
+
+export type WebhookEventType = UserChangeType | typeof WEBHOOK_PING_EVENT;
+
+export interface WebhookSubscription {
+  id: WebhookSubscriptionId;
+  url: string;
+  events: UserChangeType[];
+  description?: string;
+  // HMAC-SHA256 key of `Webhook-Signature`; only shown when the subscription is created
+  secret: string;
+  createdAt: string;
+  createdBy: UserId;
+}
+
+export type NewWebhookSubscription = Omit<WebhookSubscription, 'id' | 'createdAt'>;
+
+// What the API returns after creation
+export type PublicWebhookSubscription = Omit<WebhookSubscription, 'secret'>;
+
+export const toPublicWebhookSubscription = ({
+  id,
+  url,
+  events,
+  description,
+  createdAt,
+  createdBy,
+}: WebhookSubscription): PublicWebhookSubscription => ({
+  id,
+  url,
+  events,
+  ...(description !== undefined && { description }),
+  createdAt,
+  createdBy,
+});
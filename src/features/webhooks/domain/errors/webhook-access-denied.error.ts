@@ -0,0 +1,8 @@
+export class WebhookAccessDeniedError extends Error {
+  readonly code = 'manage_webhooks_denied';
+
+  constructor() {
+    super('Not allowed to manage webhooks');
+    this.name = 'WebhookAccessDeniedError';
+  }
+}
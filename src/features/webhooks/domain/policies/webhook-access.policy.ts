@@ -0,0 +1,4 @@
+import { type Actor, hasPermission } from '@/features/users';
+
+// Subscriptions see every user change, so only those who may manage webhooks can touch them
+export const canManageWebhooks = (actor: Actor) => hasPermission(actor, 'webhooks:manage');
@@ -0,0 +1,90 @@
+// Where a receiver host points: only public hosts are always allowed
+export type WebhookHostKind = 'public' | 'loopback' | 'internal';
+
+// Names that only resolve inside a network (RFC 6762, RFC 8375 and common conventions)
+const INTERNAL_SUFFIXES = ['.local', '.internal', '.lan', '.home.arpa', '.corp', '.intranet'];
+
+// [first address, prefix length] of IPv4 ranges that are not routable on the internet
+const INTERNAL_IPV4_RANGES: [number[], number][] = [
+  [[0, 0, 0, 0], 8], // "this network"
+  [[10, 0, 0, 0], 8], // private
+  [[100, 64, 0, 0], 10], // carrier-grade NAT
+  [[169, 254, 0, 0], 16], // link-local, including cloud metadata endpoints
+  [[172, 16, 0, 0], 12], // private
+  [[192, 0, 0, 0], 24], // IETF protocol assignments
+  [[192, 168, 0, 0], 16], // private
+  [[198, 18, 0, 0], 15], // benchmarking
+  [[224, 0, 0, 0], 3], // multicast and reserved, up to 255.255.255.255
+];
+
+const toIPv4Number = (octets: number[]) =>
+  octets.reduce((number, octet) => number * 256 + octet, 0);
+
+const inIPv4Range = (address: number, [first, prefix]: [number[], number]) => {
+  const size = 2 ** (32 - prefix);
+  return Math.floor(address / size) === Math.floor(toIPv4Number(first) / size);
+};
+
+const classifyIPv4 = (octets: number[]): WebhookHostKind => {
+  if (octets[0] === 127) return 'loopback';
+
+  const address = toIPv4Number(octets);
+  return INTERNAL_IPV4_RANGES.some((range) => inIPv4Range(address, range)) ? 'internal' : 'public';
+};
+
+const parseIPv4 = (host: string) => {
+  const octets = host.split('.').map(Number);
+  return octets.length === 4 && octets.every((octet) => Number.isInteger(octet) && octet <= 255)
+    ? octets
+    : null;
+};
+
+// `host` as normalized by `URL`: lower case, zeros compressed, without brackets
+const classifyIPv6 = (host: string): WebhookHostKind => {
+  if (host === '::1') return 'loopback';
+  if (host === '::') return 'internal';
+
+  // IPv4-mapped (`::ffff:7f00:1`) addresses reach the IPv4 host
+  const mapped = /^::ffff:([\da-f]{1,4}):([\da-f]{1,4})$/.exec(host);
+  if (mapped) {
+    const [high, low] = [mapped[1], mapped[2]].map((group) => parseInt(group, 16));
+    return classifyIPv4([Math.floor(high / 256), high % 256, Math.floor(low / 256), low % 256]);
+  }
+
+  // Unique local (fc00::/7), link-local (fe80::/10) and multicast (ff00::/8)
+  return /^(f[cd][\da-f]{2}|fe[89ab][\da-f]|ff[\da-f]{2}):/.test(host) ? 'internal' : 'public';
+};
+
+/**
+ * Classifies the hostname of a receiver URL, as `URL` normalizes it (IPv4 in
+ * dotted decimal, IPv6 in brackets), or an address a name resolved to.
+ * Single-label names such as `redis` are internal: they only resolve through
+ * a local search domain.
+ */
+export const classifyWebhookHost = (hostname: string): WebhookHostKind => {
+  const host = hostname
+    .toLowerCase()
+    .replace(/^\[(.*)\]$/, '$1')
+    .replace(/\.$/, '');
+
+  if (host.includes(':')) return classifyIPv6(host);
+
+  const octets = parseIPv4(host);
+
+  if (octets) return classifyIPv4(octets);
+  if (host === 'localhost' || host.endsWith('.localhost')) return 'loopback';
+  if (!host.includes('.') || INTERNAL_SUFFIXES.some((suffix) => host.endsWith(suffix))) {
+    return 'internal';
+  }
+  return 'public';
+};
+
+/**
+ * Deliveries are signed and sent from inside the network, so receivers must
+ * not point back into it. Loopback is allowed where a local test receiver is
+ * needed (outside production); private and link-local addresses never are.
+ */
+export const isWebhookHostAllowed = (hostname: string, allowLoopback: boolean) => {
+  const kind = classifyWebhookHost(hostname);
+  return kind === 'public' || (allowLoopback && kind === 'loopback');
+};
@@ -0,0 +1,37 @@
+import type {
+  NewWebhookDelivery,
+  WebhookDelivery,
+  WebhookDeliveryId,
+  WebhookDeliveryStatus,
+} from '../entities/webhook-delivery.entity';
+import type {
+  NewWebhookSubscription,
+  WebhookSubscription,
+  WebhookSubscriptionId,
+} from '../entities/webhook-subscription.entity';
+
+export interface FindDeliveriesOptions {
+  status?: WebhookDeliveryStatus;
+  limit?: number;
+}
+
+export interface WebhookRepository {
+  findSubscriptions(): Promise<WebhookSubscription[]>;
+  findSubscription(id: WebhookSubscriptionId): Promise<WebhookSubscription | null>;
+  createSubscription(input: NewWebhookSubscription): Promise<WebhookSubscription>;
+  // Also drops the subscription's deliveries. False if there is no such subscription
+  deleteSubscription(id: WebhookSubscriptionId): Promise<boolean>;
+
+  createDelivery(input: NewWebhookDelivery): Promise<WebhookDelivery>;
+  // Null if the delivery (or its subscription) no longer exists
+  updateDelivery(delivery: WebhookDelivery): Promise<WebhookDelivery | null>;
+  findDelivery(
+    subscriptionId: WebhookSubscriptionId,
+    id: WebhookDeliveryId
+  ): Promise<WebhookDelivery | null>;
+  // Newest first
+  findDeliveries(
+    subscriptionId: WebhookSubscriptionId,
+    options?: FindDeliveriesOptions
+  ): Promise<WebhookDelivery[]>;
+}
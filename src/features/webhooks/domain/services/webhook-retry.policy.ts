@@ -0,0 +1,22 @@
+import type { WebhookDeliveryAttempt } from '../entities/webhook-delivery.entity';
+
+export interface WebhookRetryPolicy {
+  // Including the first attempt; the delivery is dead-lettered after the last one
+  maxAttempts: number;
+  // Delay before the first retry; doubled for every further retry
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// Only 2xx counts as delivered; redirects are not followed
+export const isSuccessfulAttempt = ({ statusCode }: WebhookDeliveryAttempt) =>
+  statusCode !== undefined && statusCode >= 200 && statusCode < 300;
+
+/**
+ * Exponential backoff with ±20% jitter, so receivers that come back up are
+ * not hit by every queued retry at once.
+ */
+export const retryDelayMs = (failedAttempts: number, policy: WebhookRetryPolicy) => {
+  const delay = policy.baseDelayMs * 2 ** (failedAttempts - 1);
+  return Math.round(Math.min(delay, policy.maxDelayMs) * (0.8 + Math.random() * 0.4));
+};
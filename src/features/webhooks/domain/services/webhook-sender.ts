@@ -0,0 +1,18 @@
+import type { WebhookDeliveryAttempt } from '../entities/webhook-delivery.entity';
+
+export interface WebhookRequest {
+  url: string;
+  // Signing key of the subscription
+  secret: string;
+  deliveryId: string;
+  eventType: string;
+  body: string;
+}
+
+/**
+ * Sends one signed delivery attempt. Never rejects: transport failures are
+ * reported in the attempt's `error`.
+ */
+export interface WebhookSender {
+  send(request: WebhookRequest): Promise<WebhookDeliveryAttempt>;
+}
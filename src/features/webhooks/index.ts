@@ -0,0 +1,55 @@
+// Domain
+export * from './domain/entities/webhook-subscription.entity';
+export * from './domain/entities/webhook-delivery.entity';
+export * from './domain/errors/webhook-access-denied.error';
+export * from './domain/policies/webhook-access.policy';
+export * from './domain/policies/webhook-target.policy';
+export type {
+  FindDeliveriesOptions,
+  WebhookRepository,
+} from './domain/repositories/webhook.repository';
+export type { WebhookRequest, WebhookSender } from './domain/services/webhook-sender';
+export * from './domain/services/webhook-retry.policy';
+
+// Application
+export * from './application/schemas/webhook-subscription.schema';
+export * from './application/schemas/webhook-deliveries-query.schema';
+export { CreateWebhookSubscriptionUseCase } from './application/use-cases/create-webhook-subscription.use-case';
+export { ListWebhookSubscriptionsUseCase } from './application/use-cases/list-webhook-subscriptions.use-case';
+export { GetWebhookSubscriptionUseCase } from './application/use-cases/get-webhook-subscription.use-case';
+export { DeleteWebhookSubscriptionUseCase } from './application/use-cases/delete-webhook-subscription.use-case';
+export { ListWebhookDeliveriesUseCase } from './application/use-cases/list-webhook-deliveries.use-case';
+export { EnqueueWebhookEventUseCase } from './application/use-cases/enqueue-webhook-event.use-case';
+export { AttemptWebhookDeliveryUseCase } from './application/use-cases/attempt-webhook-delivery.use-case';
+export { PingWebhookUseCase } from './application/use-cases/ping-webhook.use-case';
+export { RedeliverWebhookUseCase } from './application/use-cases/redeliver-webhook.use-case';
+
+// Infrastructure
+export { InMemoryWebhookRepository } from './infrastructure/repositories/in-memory-webhook.repository';
+export {
+  FetchWebhookSender,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_ID_HEADER,
+} from './infrastructure/http/fetch-webhook.sender';
+export {
+  generateWebhookSecret,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_SIGNATURE_TOLERANCE_SECONDS,
+} from './infrastructure/signing/webhook-signature';
+export { WebhookDispatcher } from './infrastructure/delivery/webhook-dispatcher';
+export {
+  getWebhookDispatcher,
+  getWebhookRepository,
+  getWebhookRetryPolicy,
+  getWebhookTimeout,
+  isWebhookLoopbackAllowed,
+  startWebhookDispatcher,
+} from './infrastructure/config/webhooks';
+export type * from './infrastructure/http/webhooks-api.contract';
+export {
+  WEBHOOK_DELIVERY_NOT_FOUND,
+  WEBHOOK_SUBSCRIPTION_NOT_FOUND,
+} from './infrastructure/http/webhook-problems';
+export { webhooksOpenApi } from './infrastructure/openapi/webhooks.openapi';
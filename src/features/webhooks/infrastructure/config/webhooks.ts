@@ -0,0 +1,76 @@
+import { getLogger } from '@/features/observability';
+import { getUserEventBus } from '@/features/users';
+
+import { getSharedState } from '@/shared/runtime/shared-state';
+
+import type { WebhookRepository } from '../../domain/repositories/webhook.repository';
+import type { WebhookRetryPolicy } from '../../domain/services/webhook-retry.policy';
+import { WebhookDispatcher } from '../delivery/webhook-dispatcher';
+import { FetchWebhookSender } from '../http/fetch-webhook.sender';
+import {
+  createWebhookStore,
+  InMemoryWebhookRepository,
+} from '../repositories/in-memory-webhook.repository';
+
+const DEFAULT_MAX_ATTEMPTS = 6;
+const DEFAULT_RETRY_DELAY_MS = 5_000;
+const DEFAULT_MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+const positiveInteger = (value: string | undefined, fallback: number) => {
+  const number = Number(value ?? fallback);
+  return Number.isInteger(number) && number > 0 ? number : fallback;
+};
+
+// `WEBHOOK_MAX_ATTEMPTS`, `WEBHOOK_RETRY_DELAY_MS` (first retry) and `WEBHOOK_MAX_RETRY_DELAY_MS`
+export const getWebhookRetryPolicy = (): WebhookRetryPolicy => ({
+  maxAttempts: positiveInteger(process.env.WEBHOOK_MAX_ATTEMPTS, DEFAULT_MAX_ATTEMPTS),
+  baseDelayMs: positiveInteger(process.env.WEBHOOK_RETRY_DELAY_MS, DEFAULT_RETRY_DELAY_MS),
+  maxDelayMs: positiveInteger(process.env.WEBHOOK_MAX_RETRY_DELAY_MS, DEFAULT_MAX_RETRY_DELAY_MS),
+});
+
+// Per attempt (`WEBHOOK_TIMEOUT_MS`)
+export const getWebhookTimeout = () =>
+  positiveInteger(process.env.WEBHOOK_TIMEOUT_MS, DEFAULT_TIMEOUT_MS);
+
+// Receivers on `localhost` are for trying webhooks out, never for production
+export const isWebhookLoopbackAllowed = () => process.env.NODE_ENV !== 'production';
+
+let webhookRepository: WebhookRepository | undefined;
+let webhookDispatcher: WebhookDispatcher | undefined;
+
+export const getWebhookRepository = (): WebhookRepository => {
+  webhookRepository ??= new InMemoryWebhookRepository(
+    getSharedState('webhooks:store', createWebhookStore)
+  );
+  return webhookRepository;
+};
+
+export const getWebhookDispatcher = (): WebhookDispatcher => {
+  webhookDispatcher ??= new WebhookDispatcher(
+    getWebhookRepository(),
+    new FetchWebhookSender(getWebhookTimeout(), isWebhookLoopbackAllowed()),
+    getWebhookRetryPolicy()
+  );
+  return webhookDispatcher;
+};
+
+/**
+ * Delivers every user change to the matching subscriptions from now on.
+ * Called once at server start (`src/instrumentation.ts`); later calls do
+ * nothing, so a change is never delivered twice.
+ */
+export const startWebhookDispatcher = () => {
+  const dispatcher = getSharedState('webhooks:dispatcher', () => ({ started: false }));
+
+  if (dispatcher.started) return;
+  dispatcher.started = true;
+
+  getUserEventBus().subscribe((event) => {
+    getWebhookDispatcher()
+      .publish(event)
+      .catch((error: unknown) => {
+        getLogger().error('Could not queue webhook deliveries', { eventId: event.id, error });
+      });
+  });
+};
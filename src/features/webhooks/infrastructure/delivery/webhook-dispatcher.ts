@@ -0,0 +1,90 @@
+import { getLogger } from '@/features/observability';
+import type { UserChangeEvent } from '@/features/users';
+
+import { AttemptWebhookDeliveryUseCase } from '../../application/use-cases/attempt-webhook-delivery.use-case';
+import { EnqueueWebhookEventUseCase } from '../../application/use-cases/enqueue-webhook-event.use-case';
+import type { WebhookDelivery, WebhookEvent } from '../../domain/entities/webhook-delivery.entity';
+import type { WebhookRepository } from '../../domain/repositories/webhook.repository';
+import type { WebhookRetryPolicy } from '../../domain/services/webhook-retry.policy';
+import type { WebhookSender } from '../../domain/services/webhook-sender';
+
+const toWebhookEvent = ({ id, type, occurredAt, user }: UserChangeEvent): WebhookEvent => ({
+  id,
+  type,
+  occurredAt,
+  data: user,
+});
+
+/**
+ * Sends deliveries and schedules their retries with in-process timers, so
+ * retries that are due when the process stops are lost along with the
+ * in-memory store.
+ */
+export class WebhookDispatcher {
+  constructor(
+    private readonly webhookRepository: WebhookRepository,
+    private readonly sender: WebhookSender,
+    private readonly retryPolicy: WebhookRetryPolicy
+  ) {}
+
+  // Queues the change for every subscription that chose its type and sends it
+  async publish(event: UserChangeEvent) {
+    const deliveries = await new EnqueueWebhookEventUseCase(this.webhookRepository).execute(
+      toWebhookEvent(event)
+    );
+    await Promise.all(deliveries.map((delivery) => this.deliver(delivery)));
+  }
+
+  // Makes one attempt now and schedules the next one if it fails; never rejects
+  async deliver(delivery: WebhookDelivery) {
+    const logger = getLogger().child({
+      webhookDeliveryId: delivery.id,
+      webhookSubscriptionId: delivery.subscriptionId,
+      eventType: delivery.event.type,
+    });
+
+    try {
+      const updated = await new AttemptWebhookDeliveryUseCase(
+        this.webhookRepository,
+        this.sender,
+        this.retryPolicy
+      ).execute(delivery);
+
+      if (!updated) return;
+
+      const attempt = updated.attempts[updated.attempts.length - 1];
+      const fields = { attempt: updated.attempts.length, ...attempt };
+
+      if (updated.status === 'succeeded') {
+        logger.info('Webhook delivered', fields);
+      } else if (updated.status === 'dead-lettered') {
+        logger.warn('Webhook delivery dead-lettered', fields);
+      } else if (updated.nextAttemptAt) {
+        logger.info('Webhook delivery failed, retrying', {
+          ...fields,
+          nextAttemptAt: updated.nextAttemptAt,
+        });
+        this.scheduleRetry(updated, updated.nextAttemptAt);
+      }
+    } catch (error) {
+      logger.error('Webhook delivery could not be attempted', { error });
+    }
+  }
+
+  private scheduleRetry({ id, subscriptionId }: WebhookDelivery, at: string) {
+    const retry = async () => {
+      const delivery = await this.webhookRepository.findDelivery(subscriptionId, id);
+      if (delivery) await this.deliver(delivery);
+    };
+
+    // `unref`: a pending retry must not keep the process alive on shutdown
+    setTimeout(
+      () => {
+        retry().catch((error: unknown) => {
+          getLogger().error('Webhook retry failed', { webhookDeliveryId: id, error });
+        });
+      },
+      Math.max(0, Date.parse(at) - Date.now())
+    ).unref();
+  }
+}
@@ -0,0 +1,99 @@
+import { lookup } from 'node:dns/promises';
+
+import { formatTraceparent, getRequestContext, TRACEPARENT_HEADER } from '@/features/observability';
+
+import type { WebhookDeliveryAttempt } from '../../domain/entities/webhook-delivery.entity';
+import { isWebhookHostAllowed } from '../../domain/policies/webhook-target.policy';
+import type { WebhookRequest, WebhookSender } from '../../domain/services/webhook-sender';
+import { signWebhookPayload, WEBHOOK_SIGNATURE_HEADER } from '../signing/webhook-signature';
+
+export const WEBHOOK_ID_HEADER = 'Webhook-Id';
+export const WEBHOOK_EVENT_HEADER = 'Webhook-Event';
+
+const describeFailure = (error: unknown, timeoutMs: number) => {
+  if (error instanceof Error && error.name === 'TimeoutError') {
+    return `No response within ${timeoutMs} ms`;
+  }
+  // fetch reports connection errors as "fetch failed" with the reason as `cause`
+  if (error instanceof Error && error.cause instanceof Error) return error.cause.message;
+  return error instanceof Error ? error.message : String(error);
+};
+
+// A public name may still resolve into the network; every address it has must be allowed
+const blockedAddressOf = async (url: string, allowLoopback: boolean) => {
+  const { hostname } = new URL(url);
+
+  if (!isWebhookHostAllowed(hostname, allowLoopback)) return hostname;
+
+  const addresses = await lookup(hostname.replace(/^\[(.*)\]$/, '$1'), { all: true });
+  return addresses.find(({ address }) => !isWebhookHostAllowed(address, allowLoopback))?.address;
+};
+
+/**
+ * POSTs deliveries with `fetch`. Redirects are not followed, so a receiver
+ * that moved fails visibly instead of silently sending events elsewhere.
+ * Receivers whose host is, or resolves to, a private or link-local address
+ * (or loopback, unless `allowLoopback`) are not contacted.
+ */
+export class FetchWebhookSender implements WebhookSender {
+  constructor(
+    private readonly timeoutMs: number,
+    private readonly allowLoopback = false,
+    private readonly fetchImpl: typeof fetch = fetch
+  ) {}
+
+  async send({
+    url,
+    secret,
+    deliveryId,
+    eventType,
+    body,
+  }: WebhookRequest): Promise<WebhookDeliveryAttempt> {
+    const attemptedAt = new Date().toISOString();
+    const started = performance.now();
+    const durationMs = () => Math.round(performance.now() - started);
+    // Events raised while handling a request stay in that request's trace
+    const trace = getRequestContext()?.trace;
+
+    try {
+      const blocked = await blockedAddressOf(url, this.allowLoopback);
+
+      if (blocked) {
+        return {
+          attemptedAt,
+          durationMs: durationMs(),
+          error: `Receiver address ${blocked} is not allowed`,
+        };
+      }
+
+      const response = await this.fetchImpl(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          [WEBHOOK_ID_HEADER]: deliveryId,
+          [WEBHOOK_EVENT_HEADER]: eventType,
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(secret, body),
+          ...(trace && { [TRACEPARENT_HEADER]: formatTraceparent(trace) }),
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+
+      // Only the status matters; release the connection
+      await response.body?.cancel();
+      return {
+        attemptedAt,
+        durationMs: durationMs(),
+        statusCode: response.status,
+        ...(!response.ok && { error: `Receiver answered ${response.status}` }),
+      };
+    } catch (error) {
+      return {
+        attemptedAt,
+        durationMs: durationMs(),
+        error: describeFailure(error, this.timeoutMs),
+      };
+    }
+  }
+}
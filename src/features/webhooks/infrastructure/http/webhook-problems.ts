@@ -0,0 +1,13 @@
+import type { ProblemReason } from '@/shared/http/problem-details';
+
+// Reasons the webhook routes answer with that no domain error carries
+
+export const WEBHOOK_SUBSCRIPTION_NOT_FOUND: ProblemReason = {
+  code: 'webhook_subscription_not_found',
+  message: 'Webhook subscription not found',
+};
+
+export const WEBHOOK_DELIVERY_NOT_FOUND: ProblemReason = {
+  code: 'webhook_delivery_not_found',
+  message: 'Webhook delivery not found',
+};
@@ -0,0 +1,24 @@
+import type { WebhookDelivery } from '../../domain/entities/webhook-delivery.entity';
+import type {
+  PublicWebhookSubscription,
+  WebhookSubscription,
+} from '../../domain/entities/webhook-subscription.entity';
+
+// `secret` is only present in the response to the create request
+export interface WebhookSubscriptionResponse {
+  data: PublicWebhookSubscription | WebhookSubscription;
+}
+
+export interface WebhookSubscriptionListResponse {
+  data: PublicWebhookSubscription[];
+  count: number;
+}
+
+export interface WebhookDeliveryResponse {
+  data: WebhookDelivery;
+}
+
+export interface WebhookDeliveryListResponse {
+  data: WebhookDelivery[];
+  count: number;
+}
@@ -0,0 +1,290 @@
+import { componentRef } from '@/shared/openapi/build-openapi-document';
+import type { JsonSchema, OpenApiFragment } from '@/shared/openapi/openapi.types';
+
+import { MAX_DELIVERY_PAGE_SIZE } from '../../application/schemas/webhook-deliveries-query.schema';
+import { createWebhookSubscriptionJsonSchema } from '../../application/schemas/webhook-subscription.schema';
+import { WEBHOOK_DELIVERY_STATUSES } from '../../domain/entities/webhook-delivery.entity';
+import {
+  WEBHOOK_EVENT_TYPES,
+  WEBHOOK_PING_EVENT,
+} from '../../domain/entities/webhook-subscription.entity';
+import { WEBHOOK_EVENT_HEADER, WEBHOOK_ID_HEADER } from '../http/fetch-webhook.sender';
+import { WEBHOOK_SIGNATURE_TOLERANCE_SECONDS } from '../signing/webhook-signature';
+
+const json = (schema: JsonSchema, example?: unknown) => ({
+  'application/json': { schema, ...(example !== undefined && { example }) },
+});
+
+const schemaRef = (name: string) => componentRef('schemas', name);
+const responseRef = (name: string) => componentRef('responses', name);
+const subscriptionId = componentRef('parameters', 'WebhookSubscriptionId');
+const idempotencyKey = componentRef('parameters', 'IdempotencyKey');
+
+const dataOf = (schema: JsonSchema): JsonSchema => ({
+  type: 'object',
+  properties: { data: schema },
+  required: ['data'],
+});
+
+const listOf = (schema: JsonSchema): JsonSchema => ({
+  type: 'object',
+  properties: { data: { type: 'array', items: schema }, count: { type: 'integer' } },
+  required: ['data', 'count'],
+});
+
+const subscriptionProperties: Record<string, JsonSchema> = {
+  id: { type: 'string' },
+  url: { type: 'string', format: 'uri' },
+  events: { type: 'array', items: { type: 'string', enum: WEBHOOK_EVENT_TYPES } },
+  description: { type: 'string' },
+  createdAt: { type: 'string', format: 'date-time' },
+  createdBy: { type: 'integer', description: 'Id of the user who created it' },
+};
+
+const DELIVERY_DESCRIPTION = `Deliveries are \`POST\`ed as JSON (\`WebhookEvent\`) with \`${WEBHOOK_ID_HEADER}\`, \`${WEBHOOK_EVENT_HEADER}\` and \`Webhook-Signature: t=<unix seconds>,v1=<hex>\`, where \`v1\` is the HMAC-SHA256 of \`<t>.<raw body>\` keyed with the subscription secret. Reject signatures older than ${WEBHOOK_SIGNATURE_TOLERANCE_SECONDS} seconds. Any 2xx answer is a success; anything else is retried with exponential backoff and dead-lettered after the last attempt.`;
+
+export const webhooksOpenApi: OpenApiFragment = {
+  tags: [{ name: 'Webhooks', description: 'Notify other systems of user changes (Admins only)' }],
+  paths: {
+    '/api/webhooks': {
+      get: {
+        operationId: 'listWebhookSubscriptions',
+        summary: 'List webhook subscriptions',
+        description: 'Secrets are not included.',
+        tags: ['Webhooks'],
+        responses: {
+          '200': {
+            description: 'Every subscription',
+            content: json(listOf(schemaRef('WebhookSubscription'))),
+          },
+          '401': responseRef('Unauthorized'),
+          '403': responseRef('Forbidden'),
+          '429': responseRef('TooManyRequests'),
+        },
+      },
+      post: {
+        operationId: 'createWebhookSubscription',
+        summary: 'Subscribe a receiver to user changes',
+        description: `The response is the only time the signing \`secret\` is shown. ${DELIVERY_DESCRIPTION}`,
+        tags: ['Webhooks'],
+        parameters: [idempotencyKey],
+        requestBody: {
+          required: true,
+          content: json(schemaRef('CreateWebhookSubscriptionRequest'), {
+            url: 'https://crm.example.com/hooks/users',
+            events: ['user.created', 'user.deleted'],
+            description: 'CRM sync',
+          }),
+        },
+        responses: {
+          '201': {
+            description: 'Subscription created, with its secret',
+            content: json(dataOf(schemaRef('WebhookSubscriptionWithSecret'))),
+          },
+          '400': responseRef('InvalidBody'),
+          '401': responseRef('Unauthorized'),
+          '403': responseRef('Forbidden'),
+          '409': responseRef('IdempotencyConflict'),
+          '422': responseRef('ValidationFailed'),
+          '429': responseRef('TooManyRequests'),
+        },
+      },
+    },
+    '/api/webhooks/{id}': {
+      get: {
+        operationId: 'getWebhookSubscription',
+        summary: 'Get a webhook subscription',
+        tags: ['Webhooks'],
+        parameters: [subscriptionId],
+        responses: {
+          '200': {
+            description: 'The subscription',
+            content: json(dataOf(schemaRef('WebhookSubscription'))),
+          },
+          '401': responseRef('Unauthorized'),
+          '403': responseRef('Forbidden'),
+          '404': responseRef('NotFound'),
+          '429': responseRef('TooManyRequests'),
+        },
+      },
+      delete: {
+        operationId: 'deleteWebhookSubscription',
+        summary: 'Delete a webhook subscription',
+        description: 'Stops deliveries, including pending retries, and drops the delivery log.',
+        tags: ['Webhooks'],
+        parameters: [subscriptionId],
+        responses: {
+          '204': { description: 'Subscription deleted' },
+          '401': responseRef('Unauthorized'),
+          '403': responseRef('Forbidden'),
+          '404': responseRef('NotFound'),
+          '429': responseRef('TooManyRequests'),
+        },
+      },
+    },
+    '/api/webhooks/{id}/deliveries': {
+      get: {
+        operationId: 'listWebhookDeliveries',
+        summary: 'Delivery log of a subscription',
+        description:
+          'Newest first, with every attempt. `status=dead-lettered` lists the dead letters.',
+        tags: ['Webhooks'],
+        parameters: [
+          subscriptionId,
+          {
+            name: 'status',
+            in: 'query',
+            schema: { type: 'string', enum: WEBHOOK_DELIVERY_STATUSES },
+          },
+          {
+            name: 'limit',
+            in: 'query',
+            schema: {
+              type: 'integer',
+              minimum: 1,
+              maximum: MAX_DELIVERY_PAGE_SIZE,
+              default: MAX_DELIVERY_PAGE_SIZE,
+            },
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'Recent deliveries',
+            content: json(listOf(schemaRef('WebhookDelivery'))),
+          },
+          '401': responseRef('Unauthorized'),
+          '403': responseRef('Forbidden'),
+          '404': responseRef('NotFound'),
+          '422': responseRef('ValidationFailed'),
+          '429': responseRef('TooManyRequests'),
+        },
+      },
+    },
+    '/api/webhooks/{id}/ping': {
+      post: {
+        operationId: 'pingWebhook',
+        summary: 'Send a test event',
+        description: `Queues a \`${WEBHOOK_PING_EVENT}\` delivery, signed like any other, to check the receiver.`,
+        tags: ['Webhooks'],
+        parameters: [subscriptionId, idempotencyKey],
+        responses: {
+          '202': {
+            description: 'Delivery queued; follow it in the delivery log',
+            content: json(dataOf(schemaRef('WebhookDelivery'))),
+          },
+          '401': responseRef('Unauthorized'),
+          '403': responseRef('Forbidden'),
+          '404': responseRef('NotFound'),
+          '409': responseRef('IdempotencyConflict'),
+          '429': responseRef('TooManyRequests'),
+        },
+      },
+    },
+    '/api/webhooks/{id}/deliveries/{deliveryId}/redeliver': {
+      post: {
+        operationId: 'redeliverWebhook',
+        summary: 'Send a delivery again',
+        description:
+          'Queues a new delivery of the same event, e.g. for a dead letter once the receiver is fixed.',
+        tags: ['Webhooks'],
+        parameters: [
+          subscriptionId,
+          { name: 'deliveryId', in: 'path', required: true, schema: { type: 'string' } },
+          idempotencyKey,
+        ],
+        responses: {
+          '202': {
+            description: 'Delivery queued',
+            content: json(dataOf(schemaRef('WebhookDelivery'))),
+          },
+          '401': responseRef('Unauthorized'),
+          '403': responseRef('Forbidden'),
+          '404': responseRef('NotFound'),
+          '409': responseRef('IdempotencyConflict'),
+          '429': responseRef('TooManyRequests'),
+        },
+      },
+    },
+  },
+  components: {
+    parameters: {
+      WebhookSubscriptionId: {
+        name: 'id',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' },
+      },
+    },
+    schemas: {
+      CreateWebhookSubscriptionRequest: createWebhookSubscriptionJsonSchema,
+      WebhookSubscription: {
+        type: 'object',
+        properties: subscriptionProperties,
+        required: ['id', 'url', 'events', 'createdAt', 'createdBy'],
+      },
+      WebhookSubscriptionWithSecret: {
+        type: 'object',
+        description: 'A `WebhookSubscription` with its signing secret',
+        properties: {
+          ...subscriptionProperties,
+          secret: { type: 'string', description: 'HMAC-SHA256 key of `Webhook-Signature`' },
+        },
+        required: ['id', 'url', 'events', 'secret', 'createdAt', 'createdBy'],
+      },
+      WebhookEvent: {
+        type: 'object',
+        description: 'Body of a delivery',
+        properties: {
+          id: {
+            type: 'string',
+            description: 'Event id; the same for redeliveries, so duplicates can be dropped',
+          },
+          type: { type: 'string', enum: [...WEBHOOK_EVENT_TYPES, WEBHOOK_PING_EVENT] },
+          occurredAt: { type: 'string', format: 'date-time' },
+          data: {
+            description: 'The user (only `id` for `user.deleted`)',
+            type: 'object',
+            additionalProperties: true,
+          },
+        },
+        required: ['id', 'type', 'occurredAt', 'data'],
+      },
+      WebhookDelivery: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          subscriptionId: { type: 'string' },
+          event: schemaRef('WebhookEvent'),
+          status: { type: 'string', enum: WEBHOOK_DELIVERY_STATUSES },
+          attempts: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                attemptedAt: { type: 'string', format: 'date-time' },
+                durationMs: { type: 'integer' },
+                statusCode: { type: 'integer', description: 'Absent when no response arrived' },
+                error: { type: 'string' },
+              },
+              required: ['attemptedAt', 'durationMs'],
+            },
+          },
+          nextAttemptAt: {
+            oneOf: [{ type: 'string', format: 'date-time' }, { type: 'null' }],
+          },
+          createdAt: { type: 'string', format: 'date-time' },
+          redeliveryOf: { type: 'string', description: 'Delivery this one repeats' },
+        },
+        required: [
+          'id',
+          'subscriptionId',
+          'event',
+          'status',
+          'attempts',
+          'nextAttemptAt',
+          'createdAt',
+        ],
+      },
+    },
+  },
+};
@@ -0,0 +1,118 @@
+import type {
+  NewWebhookDelivery,
+  WebhookDelivery,
+  WebhookDeliveryId,
+} from '../../domain/entities/webhook-delivery.entity';
+import type {
+  NewWebhookSubscription,
+  WebhookSubscription,
+  WebhookSubscriptionId,
+} from '../../domain/entities/webhook-subscription.entity';
+import type {
+  FindDeliveriesOptions,
+  WebhookRepository,
+} from '../../domain/repositories/webhook.repository';
+
+export interface WebhookStore {
+  subscriptions: WebhookSubscription[];
+  // Oldest first
+  deliveries: WebhookDelivery[];
+}
+
+// Finished deliveries beyond this many per subscription are dropped, oldest first
+export const DEFAULT_DELIVERY_RETENTION = 100;
+
+export const createWebhookStore = (): WebhookStore => ({ subscriptions: [], deliveries: [] });
+
+/**
+ * Keeps subscriptions and the delivery log in a plain `WebhookStore`, shared
+ * by every route bundle like the user store. Contents are lost on restart.
+ */
+export class InMemoryWebhookRepository implements WebhookRepository {
+  constructor(
+    private readonly store: WebhookStore = createWebhookStore(),
+    private readonly retention = DEFAULT_DELIVERY_RETENTION
+  ) {}
+
+  findSubscriptions(): Promise<WebhookSubscription[]> {
+    return Promise.resolve(structuredClone(this.store.subscriptions));
+  }
+
+  findSubscription(id: WebhookSubscriptionId): Promise<WebhookSubscription | null> {
+    const subscription = this.store.subscriptions.find((s) => s.id === id);
+    return Promise.resolve(subscription ? structuredClone(subscription) : null);
+  }
+
+  createSubscription(input: NewWebhookSubscription): Promise<WebhookSubscription> {
+    const subscription: WebhookSubscription = {
+      ...structuredClone(input),
+      id: `wh_${crypto.randomUUID()}`,
+      createdAt: new Date().toISOString(),
+    };
+
+    this.store.subscriptions.push(subscription);
+    return Promise.resolve(structuredClone(subscription));
+  }
+
+  deleteSubscription(id: WebhookSubscriptionId): Promise<boolean> {
+    const before = this.store.subscriptions.length;
+
+    this.store.subscriptions = this.store.subscriptions.filter((s) => s.id !== id);
+    this.store.deliveries = this.store.deliveries.filter((d) => d.subscriptionId !== id);
+    return Promise.resolve(this.store.subscriptions.length < before);
+  }
+
+  createDelivery(input: NewWebhookDelivery): Promise<WebhookDelivery> {
+    const delivery: WebhookDelivery = {
+      ...structuredClone(input),
+      id: `whd_${crypto.randomUUID()}`,
+      createdAt: new Date().toISOString(),
+    };
+
+    this.store.deliveries.push(delivery);
+    this.prune(delivery.subscriptionId);
+    return Promise.resolve(structuredClone(delivery));
+  }
+
+  updateDelivery(delivery: WebhookDelivery): Promise<WebhookDelivery | null> {
+    const index = this.store.deliveries.findIndex((d) => d.id === delivery.id);
+
+    if (index === -1) return Promise.resolve(null);
+
+    this.store.deliveries[index] = structuredClone(delivery);
+    return Promise.resolve(structuredClone(delivery));
+  }
+
+  findDelivery(
+    subscriptionId: WebhookSubscriptionId,
+    id: WebhookDeliveryId
+  ): Promise<WebhookDelivery | null> {
+    const delivery = this.store.deliveries.find(
+      (d) => d.id === id && d.subscriptionId === subscriptionId
+    );
+    return Promise.resolve(delivery ? structuredClone(delivery) : null);
+  }
+
+  findDeliveries(
+    subscriptionId: WebhookSubscriptionId,
+    { status, limit }: FindDeliveriesOptions = {}
+  ): Promise<WebhookDelivery[]> {
+    const deliveries = this.store.deliveries
+      .filter((d) => d.subscriptionId === subscriptionId && (!status || d.status === status))
+      .reverse();
+
+    return Promise.resolve(structuredClone(deliveries.slice(0, limit)));
+  }
+
+  // Pending deliveries are kept whatever their age: a retry is still due
+  private prune(subscriptionId: WebhookSubscriptionId) {
+    const finished = this.store.deliveries.filter(
+      (d) => d.subscriptionId === subscriptionId && d.status !== 'pending'
+    );
+    const dropped = new Set(finished.slice(0, -this.retention).map((d) => d.id));
+
+    if (dropped.size > 0) {
+      this.store.deliveries = this.store.deliveries.filter((d) => !dropped.has(d.id));
+    }
+  }
+}
@@ -0,0 +1,48 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'Webhook-Signature';
+
+// How old a signed timestamp may be before receivers should reject it as a replay
+export const WEBHOOK_SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+const SIGNATURE_SCHEME = 'v1';
+
+export const generateWebhookSecret = () => `whsec_${randomBytes(24).toString('base64url')}`;
+
+const hmac = (secret: string, timestamp: number, body: string) =>
+  createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+/**
+ * `Webhook-Signature` value: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`.
+ * Signing the timestamp with the body lets receivers reject replayed requests.
+ */
+export const signWebhookPayload = (
+  secret: string,
+  body: string,
+  timestamp = Math.floor(Date.now() / 1000)
+) => `t=${timestamp},${SIGNATURE_SCHEME}=${hmac(secret, timestamp, body)}`;
+
+/**
+ * Receiver side of `signWebhookPayload`: true if one of the `v1` signatures
+ * matches the raw body and the timestamp is within the tolerance.
+ */
+export const verifyWebhookSignature = (
+  secret: string,
+  header: string | null,
+  body: string,
+  { toleranceSeconds = WEBHOOK_SIGNATURE_TOLERANCE_SECONDS, now = Date.now() } = {}
+) => {
+  const parts = (header ?? '').split(',').map((part) => part.trim().split('='));
+  const timestamp = Number(parts.find(([key]) => key === 't')?.[1]);
+
+  if (!Number.isInteger(timestamp)) return false;
+  if (Math.abs(now / 1000 - timestamp) > toleranceSeconds) return false;
+
+  const expected = Buffer.from(hmac(secret, timestamp, body));
+  return parts
+    .filter(([key]) => key === SIGNATURE_SCHEME)
+    .some(([, signature]) => {
+      const given = Buffer.from(signature ?? '');
+      return given.length === expected.length && timingSafeEqual(given, expected);
+    });
+};
@@ -0,0 +1,10 @@
+/**
+ * Runs once when a server instance starts, before it handles requests.
+ */
+export const register = async () => {
+  // Webhook delivery uses Node APIs; the Edge runtime has no user events to deliver
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startWebhookDispatcher } = await import('@/features/webhooks');
+    startWebhookDispatcher();
+  }
+};
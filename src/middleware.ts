@@ -1,9 +1,67 @@
+import { type NextRequest, NextResponse } from 'next/server';
+
 import createMiddleware from 'next-intl/middleware';
 
-import { routing } from './features/i18n/infrastructure/config/routing';
+import type { LocaleCode } from './features/i18n/domain/entities/locale.entity';
+import { isLocaleCode, resolveLocale } from './features/i18n/domain/services/negotiate-locale';
+import {
+  type AppPathname,
+  getPathname,
+  LOCALE_COOKIE,
+  routing,
+} from './features/i18n/infrastructure/config/routing';
+
+const handleI18nRouting = createMiddleware(routing);
+
+const isAppPathname = (pathname: string): pathname is AppPathname =>
+  Object.hasOwn(routing.pathnames, pathname);
+
+// The URL of an internal route in `locale`; other paths only get the locale prefix
+const localizedPathname = (locale: LocaleCode, pathname: string) =>
+  isAppPathname(pathname)
+    ? getPathname({ locale, href: pathname })
+    : `/${locale}${pathname === '/' ? '' : pathname}`;
+
+const redirectTo = (request: NextRequest, pathname: string, status: 307 | 308) => {
+  const url = request.nextUrl.clone();
+
+  url.pathname = pathname;
+  return NextResponse.redirect(url, status);
+};
+
+/**
+ * Pages without a locale in the URL are redirected to the locale the user
+ * saved, or else to the best match for `Accept-Language`. A page requested by
+ * its English slug in a locale that translates it (`/th/api-docs`) is
+ * redirected permanently to the translated URL. Everything else is left to
+ * `next-intl`, which maps translated URLs to their routes.
+ */
+const middleware = (request: NextRequest) => {
+  const { pathname } = request.nextUrl;
+  const [, segment, ...rest] = pathname.split('/');
+
+  if (isLocaleCode(segment)) {
+    const route = `/${rest.join('/')}`;
+    const localized = localizedPathname(segment, route);
+
+    return isAppPathname(route) && localized !== decodeURI(pathname)
+      ? redirectTo(request, localized, 308)
+      : handleI18nRouting(request);
+  }
+
+  const locale = resolveLocale({
+    preference: request.cookies.get(LOCALE_COOKIE)?.value,
+    acceptLanguage: request.headers.get('Accept-Language'),
+  });
+  const response = redirectTo(request, localizedPathname(locale, pathname), 307);
+
+  response.headers.set('Vary', 'Cookie, Accept-Language');
+  return response;
+};
 
-export default createMiddleware(routing);
+export default middleware;
 
 export const config = {
-  matcher: ['/', '/(th|en)/:path*'],
+  // Every page; the locales are checked in the middleware, so adding one needs no change here
+  matcher: ['/((?!api(?:/|$)|_next|_vercel|.*\\..*).*)'],
 };
@@ -0,0 +1,14 @@
+import type { LocaleCode } from '@/features/i18n/domain/entities/locale.entity';
+import type { AppFormats } from '@/features/i18n/infrastructure/config/formats';
+
+// Generated from the English catalog by the next-intl plugin (`messages/en.d.json.ts`), so
+// its strings keep their literal types and ICU arguments can be checked as well as keys
+import type messages from '../messages/en.json';
+
+declare module 'next-intl' {
+  interface AppConfig {
+    Locale: LocaleCode;
+    Messages: typeof messages;
+    Formats: AppFormats;
+  }
+}
@@ -0,0 +1,227 @@
+// Type-only: the problem-details module depends on `next/server`, which must stay out of client bundles
+import type { ProblemDetails } from './problem-details';
+
+export type ApiError =
+  // The API answered with a problem details document
+  | { kind: 'problem'; status: number; problem: ProblemDetails }
+  // An error status without a problem document (e.g. from a proxy); `requestId` if the API sent one
+  | { kind: 'http'; status: number; requestId?: string }
+  // The request did not complete, or its response body could not be read
+  | { kind: 'network'; cause: unknown }
+  | { kind: 'timeout' }
+  // Cancelled through the caller's `AbortSignal`
+  | { kind: 'aborted' };
+
+export type ApiResult<T> =
+  | { ok: true; status: number; data: T; headers: Headers }
+  | { ok: false; error: ApiError };
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  // Per attempt; 0 disables the timeout
+  timeoutMs?: number;
+  // Extra attempts after a retryable failure; only used for idempotent requests
+  retries?: number;
+  // Sent as `Idempotency-Key`; makes POST retryable as well
+  idempotencyKey?: string;
+}
+
+export interface ApiRequest<T> {
+  method: HttpMethod;
+  path: string;
+  query?: URLSearchParams;
+  headers?: Record<string, string>;
+  // Objects are sent as JSON; strings as they are (set `Content-Type` in `headers`)
+  body?: string | object;
+  // Error statuses whose body is parsed as `T`, unless it is a problem document
+  successStatuses?: readonly number[];
+  // Defaults to reading the body as JSON
+  parse?: (response: Response) => Promise<T>;
+}
+
+export interface ApiClientConfig {
+  baseUrl?: string;
+  // Sent with every request, e.g. `Authorization`
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+  retries?: number;
+  // First backoff delay; doubled on every retry, with jitter
+  retryDelayMs?: number;
+  fetch?: typeof fetch;
+}
+
+const IDEMPOTENT_METHODS: readonly HttpMethod[] = ['GET', 'PUT', 'DELETE'];
+const RETRYABLE_STATUSES: readonly number[] = [408, 429, 502, 503, 504];
+const MAX_RETRY_DELAY_MS = 10_000;
+
+const readJson = <T>(response: Response) => response.json() as Promise<T>;
+
+const isProblemResponse = (response: Response) =>
+  response.headers.get('Content-Type')?.includes('problem+json') ?? false;
+
+// Honors `Retry-After` (seconds) when the server sent one
+const retryDelay = (attempt: number, baseMs: number, response?: Response) => {
+  const retryAfter = Number(response?.headers.get('Retry-After'));
+
+  if (Number.isFinite(retryAfter) && retryAfter > 0) {
+    return Math.min(retryAfter * 1000, MAX_RETRY_DELAY_MS);
+  }
+  return Math.min(baseMs * 2 ** attempt * (0.5 + Math.random() / 2), MAX_RETRY_DELAY_MS);
+};
+
+// Resolves early on abort; the listener goes away either way, so a signal
+// reused across many requests does not collect one per retry
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+
+    timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Thin `fetch` wrapper that never throws for API or transport failures:
+ * every outcome is an `ApiResult`. Idempotent requests (GET, PUT, DELETE)
+ * are retried with exponential backoff on network errors, timeouts and
+ * 408/429/502/503/504; so are POST requests sent with an `idempotencyKey`,
+ * since every attempt carries the same key.
+ */
+export class ApiClient {
+  constructor(private readonly config: ApiClientConfig = {}) {}
+
+  request<T>(request: ApiRequest<T>, options: RequestOptions = {}): Promise<ApiResult<T>> {
+    const retries =
+      IDEMPOTENT_METHODS.includes(request.method) ||
+      (request.method === 'POST' && options.idempotencyKey)
+        ? (options.retries ?? this.config.retries ?? 2)
+        : 0;
+
+    const attempt = async (index: number): Promise<ApiResult<T>> => {
+      const { result, response } = await this.send(request, options);
+      const retryable =
+        !result.ok &&
+        (result.error.kind === 'network' ||
+          result.error.kind === 'timeout' ||
+          ((result.error.kind === 'problem' || result.error.kind === 'http') &&
+            RETRYABLE_STATUSES.includes(result.error.status)));
+
+      if (!retryable || index >= retries) return result;
+
+      await sleep(retryDelay(index, this.config.retryDelayMs ?? 300, response), options.signal);
+      if (options.signal?.aborted) return { ok: false, error: { kind: 'aborted' } };
+
+      return attempt(index + 1);
+    };
+
+    return attempt(0);
+  }
+
+  private async send<T>(
+    { method, path, query, headers, body, successStatuses = [], parse = readJson }: ApiRequest<T>,
+    { signal, timeoutMs = this.config.timeoutMs ?? 10_000, idempotencyKey }: RequestOptions
+  ): Promise<{ result: ApiResult<T>; response?: Response }> {
+    if (signal?.aborted) return { result: { ok: false, error: { kind: 'aborted' } } };
+
+    // One controller per attempt, aborted by either the caller or the timeout
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    const timer = timeoutMs > 0 ? setTimeout(abort, timeoutMs) : undefined;
+    signal?.addEventListener('abort', abort);
+
+    try {
+      const search = query?.toString();
+      const url = `${this.config.baseUrl ?? ''}${path}${search ? `?${search}` : ''}`;
+      const isJson = body !== undefined && typeof body !== 'string';
+      const response = await (this.config.fetch ?? fetch)(url, {
+        method,
+        headers: {
+          Accept: 'application/json',
+          ...this.config.headers,
+          ...(isJson && { 'Content-Type': 'application/json' }),
+          ...(idempotencyKey && { 'Idempotency-Key': idempotencyKey }),
+          ...headers,
+        },
+        body: isJson ? JSON.stringify(body) : body,
+        signal: controller.signal,
+      });
+
+      if (
+        response.ok ||
+        (successStatuses.includes(response.status) && !isProblemResponse(response))
+      ) {
+        const data = await parse(response);
+        return { result: { ok: true, status: response.status, data, headers: response.headers } };
+      }
+
+      const error: ApiError = isProblemResponse(response)
+        ? {
+            kind: 'problem',
+            status: response.status,
+            problem: await readJson<ProblemDetails>(response),
+          }
+        : {
+            kind: 'http',
+            status: response.status,
+            requestId: response.headers.get('X-Request-Id') ?? undefined,
+          };
+      return { result: { ok: false, error }, response };
+    } catch (cause) {
+      if (signal?.aborted) return { result: { ok: false, error: { kind: 'aborted' } } };
+      if (controller.signal.aborted) return { result: { ok: false, error: { kind: 'timeout' } } };
+      return { result: { ok: false, error: { kind: 'network', cause } } };
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', abort);
+    }
+  }
+}
+
+// How a message is extended; pass translated wording to localize it
+export interface ApiErrorWording {
+  timedOut: (message: string) => string;
+  withRequestId: (message: string, requestId: string) => string;
+}
+
+const ENGLISH_WORDING: ApiErrorWording = {
+  timedOut: (message) => `${message} (the server did not answer in time)`,
+  withRequestId: (message, requestId) => `${message} (request ID ${requestId})`,
+};
+
+/**
+ * A message to show for a failed request: the problem `detail` when the API
+ * sent one (already in the caller's locale), otherwise `fallback`. Server
+ * errors name the request ID, so a reported message can be found in the
+ * server logs.
+ */
+export const describeApiError = (
+  error: ApiError,
+  fallback: string,
+  wording: ApiErrorWording = ENGLISH_WORDING
+) => {
+  const withRequestId = (message: string, status: number, requestId?: string) =>
+    status >= 500 && requestId ? wording.withRequestId(message, requestId) : message;
+
+  switch (error.kind) {
+    case 'problem':
+      return withRequestId(
+        error.problem.detail ?? error.problem.title,
+        error.status,
+        error.problem.requestId
+      );
+    case 'http':
+      return withRequestId(fallback, error.status, error.requestId);
+    case 'timeout':
+      return wording.timedOut(fallback);
+    default:
+      return fallback;
+  }
+};
@@ -0,0 +1,38 @@
+/**
+ * Helpers for entity tags (RFC 9110 §8.8.3) and the conditional request
+ * headers that use them.
+ */
+
+export type ETagList = string[] | '*';
+
+export const formatETag = (value: string | number) => `"${value}"`;
+
+const isWeak = (tag: string) => tag.startsWith('W/');
+
+const opaqueTag = (tag: string) => tag.replace(/^W\//, '');
+
+/**
+ * Parses an `If-Match` / `If-None-Match` header into a list of entity tags.
+ * Returns `'*'` for the wildcard and `null` when the header is absent.
+ */
+export const parseETagList = (header: string | null): ETagList | null => {
+  if (header === null) return null;
+  if (header.trim() === '*') return '*';
+
+  return header
+    .split(',')
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+};
+
+/**
+ * Strong comparison, as required for `If-Match`: weak tags never match.
+ */
+export const matchesETagStrong = (etag: string, tags: ETagList) =>
+  tags === '*' || (!isWeak(etag) && tags.some((tag) => !isWeak(tag) && tag === etag));
+
+/**
+ * Weak comparison, as required for `If-None-Match`.
+ */
+export const matchesETagWeak = (etag: string, tags: ETagList) =>
+  tags === '*' || tags.some((tag) => opaqueTag(tag) === opaqueTag(etag));
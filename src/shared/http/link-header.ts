@@ -0,0 +1,10 @@
+export interface WebLink {
+  href: string;
+  rel: string;
+}
+
+/**
+ * Serializes links as an RFC 8288 `Link` header value.
+ */
+export const formatLinkHeader = (links: WebLink[]) =>
+  links.map(({ href, rel }) => `<${href}>; rel="${rel}"`).join(', ');
@@ -0,0 +1,71 @@
+import { componentRef } from '@/shared/openapi/build-openapi-document';
+import type { OpenApiFragment, ResponseObject } from '@/shared/openapi/openapi.types';
+import { VALIDATION_ISSUE_CODES } from '@/shared/validation/schema';
+
+import { PROBLEM_CONTENT_TYPE, PROBLEM_TYPES } from './problem-details';
+
+/**
+ * Response object for an error answered with a problem details document.
+ */
+export const problemResponseObject = (
+  description: string,
+  headers?: ResponseObject['headers']
+): ResponseObject => ({
+  description,
+  headers,
+  content: { [PROBLEM_CONTENT_TYPE]: { schema: componentRef('schemas', 'ProblemDetails') } },
+});
+
+export const problemDetailsOpenApi: OpenApiFragment = {
+  components: {
+    schemas: {
+      ValidationIssue: {
+        type: 'object',
+        properties: {
+          field: {
+            type: 'string',
+            description: 'Offending field, e.g. `email` or `operations[0].op`',
+          },
+          code: { type: 'string', enum: VALIDATION_ISSUE_CODES },
+          message: { type: 'string' },
+          params: { type: 'object', additionalProperties: true },
+        },
+        required: ['field', 'code', 'message'],
+      },
+      ProblemDetails: {
+        type: 'object',
+        description: 'RFC 7807 problem details',
+        properties: {
+          type: { type: 'string', enum: Object.values(PROBLEM_TYPES) },
+          title: { type: 'string' },
+          status: { type: 'integer' },
+          code: {
+            type: 'string',
+            description: 'Stable reason for the error, e.g. `user_not_found`',
+          },
+          detail: { type: 'string' },
+          params: {
+            type: 'object',
+            additionalProperties: true,
+            description: 'Values in `detail`, e.g. `retryAfter`',
+          },
+          instance: { type: 'string' },
+          errors: { type: 'array', items: componentRef('schemas', 'ValidationIssue') },
+          requestId: {
+            type: 'string',
+            description:
+              'Same as the `X-Request-Id` response header; quote it when reporting the error',
+          },
+        },
+        required: ['type', 'title', 'status', 'code'],
+      },
+    },
+    responses: {
+      InvalidBody: problemResponseObject('The request body is not valid JSON'),
+      NotFound: problemResponseObject('The resource does not exist'),
+      PayloadTooLarge: problemResponseObject('The request body is larger than the route accepts'),
+      PreconditionFailed: problemResponseObject('`If-Match` does not match the current version'),
+      ValidationFailed: problemResponseObject('One or more fields are invalid (see `errors`)'),
+    },
+  },
+};
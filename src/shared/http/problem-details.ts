@@ -0,0 +1,196 @@
+import { NextResponse } from 'next/server';
+
+import type { ValidationIssue } from '@/shared/validation/schema';
+
+export const PROBLEM_CONTENT_TYPE = 'application/problem+json';
+
+/**
+ * RFC 7807 problem details object.
+ * `code` is an extension member naming the reason in a way clients can rely
+ * on (`title` and `detail` are translated); `params` are the values in the
+ * detail. `errors` carries per-field validation issues; `requestId` is added
+ * to every API error response to match it to the logs.
+ */
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  code: string;
+  detail?: string;
+  params?: Record<string, string | number>;
+  instance?: string;
+  errors?: ValidationIssue[];
+  requestId?: string;
+}
+
+/**
+ * Why a request failed, in English. Errors that end up as problems (e.g.
+ * `UserAccessDeniedError`) carry a `code` and so can be passed as they are.
+ */
+export interface ProblemReason {
+  code: string;
+  message: string;
+  params?: Record<string, string | number>;
+}
+
+export const PROBLEM_TYPES = {
+  validation: '/problems/validation-error',
+  invalidBody: '/problems/invalid-request-body',
+  unauthorized: '/problems/unauthorized',
+  forbidden: '/problems/forbidden',
+  notFound: '/problems/not-found',
+  preconditionFailed: '/problems/precondition-failed',
+  conflict: '/problems/conflict',
+  idempotencyKeyReused: '/problems/idempotency-key-reused',
+  payloadTooLarge: '/problems/payload-too-large',
+  tooManyRequests: '/problems/too-many-requests',
+  failedDependency: '/problems/failed-dependency',
+  internalServerError: '/problems/internal-server-error',
+} as const;
+
+export type ProblemType = keyof typeof PROBLEM_TYPES;
+
+const fromReason = ({ code, message, params }: ProblemReason) => ({
+  code,
+  detail: message,
+  ...(params && { params }),
+});
+
+// Plain problem objects, for embedding in other payloads (e.g. bulk results)
+export const problems = {
+  validation: (issues: ValidationIssue[], instance?: string): ProblemDetails => ({
+    type: PROBLEM_TYPES.validation,
+    title: 'Validation failed',
+    status: 422,
+    code: 'validation_failed',
+    detail: 'One or more fields are invalid',
+    instance,
+    errors: issues,
+  }),
+  invalidBody: (instance?: string): ProblemDetails => ({
+    type: PROBLEM_TYPES.invalidBody,
+    title: 'Invalid request body',
+    status: 400,
+    code: 'invalid_body',
+    detail: 'The request body must be valid JSON',
+    instance,
+  }),
+  unauthorized: (reason: ProblemReason, instance?: string): ProblemDetails => ({
+    type: PROBLEM_TYPES.unauthorized,
+    title: 'Unauthorized',
+    status: 401,
+    ...fromReason(reason),
+    instance,
+  }),
+  forbidden: (reason: ProblemReason, instance?: string): ProblemDetails => ({
+    type: PROBLEM_TYPES.forbidden,
+    title: 'Forbidden',
+    status: 403,
+    ...fromReason(reason),
+    instance,
+  }),
+  notFound: (reason: ProblemReason, instance?: string): ProblemDetails => ({
+    type: PROBLEM_TYPES.notFound,
+    title: 'Not found',
+    status: 404,
+    ...fromReason(reason),
+    instance,
+  }),
+  preconditionFailed: (reason: ProblemReason, instance?: string): ProblemDetails => ({
+    type: PROBLEM_TYPES.preconditionFailed,
+    title: 'Precondition failed',
+    status: 412,
+    ...fromReason(reason),
+    instance,
+  }),
+  conflict: (reason: ProblemReason, instance?: string): ProblemDetails => ({
+    type: PROBLEM_TYPES.conflict,
+    title: 'Conflict',
+    status: 409,
+    ...fromReason(reason),
+    instance,
+  }),
+  idempotencyKeyReused: (instance?: string): ProblemDetails => ({
+    type: PROBLEM_TYPES.idempotencyKeyReused,
+    title: 'Idempotency key reused',
+    status: 422,
+    code: 'idempotency_key_reused',
+    detail: 'This Idempotency-Key was already used for a different request',
+    instance,
+  }),
+  payloadTooLarge: (reason: ProblemReason, instance?: string): ProblemDetails => ({
+    type: PROBLEM_TYPES.payloadTooLarge,
+    title: 'Payload too large',
+    status: 413,
+    ...fromReason(reason),
+    instance,
+  }),
+  tooManyRequests: (reason: ProblemReason, instance?: string): ProblemDetails => ({
+    type: PROBLEM_TYPES.tooManyRequests,
+    title: 'Too many requests',
+    status: 429,
+    ...fromReason(reason),
+    instance,
+  }),
+  failedDependency: (reason: ProblemReason, instance?: string): ProblemDetails => ({
+    type: PROBLEM_TYPES.failedDependency,
+    title: 'Failed dependency',
+    status: 424,
+    ...fromReason(reason),
+    instance,
+  }),
+  internalServerError: (instance?: string): ProblemDetails => ({
+    type: PROBLEM_TYPES.internalServerError,
+    title: 'Internal server error',
+    status: 500,
+    code: 'internal_error',
+    detail: 'The request could not be completed because of an unexpected error',
+    instance,
+  }),
+};
+
+export const problemResponse = (problem: ProblemDetails, init?: ResponseInit) =>
+  NextResponse.json(problem, {
+    ...init,
+    status: problem.status,
+    headers: { ...init?.headers, 'Content-Type': PROBLEM_CONTENT_TYPE },
+  });
+
+export const validationProblem = (issues: ValidationIssue[], instance?: string) =>
+  problemResponse(problems.validation(issues, instance));
+
+export const invalidBodyProblem = (instance?: string) =>
+  problemResponse(problems.invalidBody(instance));
+
+// `challenge` is the WWW-Authenticate value telling the client how to authenticate
+export const unauthorizedProblem = (reason: ProblemReason, challenge: string, instance?: string) =>
+  problemResponse(problems.unauthorized(reason, instance), {
+    headers: { 'WWW-Authenticate': challenge },
+  });
+
+export const forbiddenProblem = (reason: ProblemReason, instance?: string) =>
+  problemResponse(problems.forbidden(reason, instance));
+
+export const notFoundProblem = (reason: ProblemReason, instance?: string) =>
+  problemResponse(problems.notFound(reason, instance));
+
+export const preconditionFailedProblem = (reason: ProblemReason, instance?: string) =>
+  problemResponse(problems.preconditionFailed(reason, instance));
+
+export const conflictProblem = (reason: ProblemReason, instance?: string, init?: ResponseInit) =>
+  problemResponse(problems.conflict(reason, instance), init);
+
+export const idempotencyKeyReusedProblem = (instance?: string) =>
+  problemResponse(problems.idempotencyKeyReused(instance));
+
+export const payloadTooLargeProblem = (reason: ProblemReason, instance?: string) =>
+  problemResponse(problems.payloadTooLarge(reason, instance));
+
+export const tooManyRequestsProblem = (
+  reason: ProblemReason,
+  instance?: string,
+  init?: ResponseInit
+) => problemResponse(problems.tooManyRequests(reason, instance), init);
+
+export const internalServerErrorProblem = (instance?: string) =>
+  problemResponse(problems.internalServerError(instance));
@@ -0,0 +1,55 @@
+export class PayloadTooLargeError extends Error {
+  readonly code = 'payload_too_large';
+
+  readonly params: { max: number };
+
+  constructor(readonly maxBytes: number) {
+    super(`The request body may be at most ${maxBytes} bytes`);
+    this.name = 'PayloadTooLargeError';
+    this.params = { max: maxBytes };
+  }
+}
+
+/**
+ * Reads a request body as UTF-8 text without ever holding more than
+ * `maxBytes` of it: a larger `Content-Length` is refused before reading, and
+ * a body without one stops being read at the first chunk past the limit.
+ * `onText` sees the text chunk by chunk and may throw to stop reading early
+ * on limits of its own (e.g. a row count).
+ *
+ * @throws {PayloadTooLargeError} If the body is larger than `maxBytes`
+ */
+export const readTextBody = async (
+  request: Request,
+  maxBytes: number,
+  onText: (chunk: string) => void = () => {}
+): Promise<string> => {
+  if (Number(request.headers.get('Content-Length') ?? 0) > maxBytes) {
+    throw new PayloadTooLargeError(maxBytes);
+  }
+  if (!request.body) return '';
+
+  const reader = request.body.getReader();
+  const decoder = new TextDecoder();
+  const chunks: string[] = [];
+  let size = 0;
+
+  const pump = async (): Promise<string> => {
+    const { done, value } = await reader.read();
+
+    size += value?.byteLength ?? 0;
+    if (size > maxBytes) throw new PayloadTooLargeError(maxBytes);
+
+    const text = decoder.decode(value, { stream: !done });
+    onText(text);
+    chunks.push(text);
+    return done ? chunks.join('') : pump();
+  };
+
+  try {
+    return await pump();
+  } finally {
+    // Releases the rest of the body when reading stopped early
+    reader.cancel().catch(() => undefined);
+  }
+};
@@ -0,0 +1,65 @@
+export const SSE_CONTENT_TYPE = 'text/event-stream';
+
+export interface ServerSentEvent {
+  id?: string;
+  event?: string;
+  data: string;
+  // Reconnection delay in milliseconds
+  retry?: number;
+}
+
+/**
+ * Serializes one event in the `text/event-stream` format. Multi-line data is
+ * split into several `data:` lines, which the client joins back with `\n`.
+ */
+export const formatServerSentEvent = ({ id, event, data, retry }: ServerSentEvent) => {
+  const lines = [
+    ...(id !== undefined ? [`id: ${id}`] : []),
+    ...(event ? [`event: ${event}`] : []),
+    ...(retry !== undefined ? [`retry: ${retry}`] : []),
+    ...data.split(/\r\n|\r|\n/).map((line) => `data: ${line}`),
+  ];
+  return `${lines.join('\n')}\n\n`;
+};
+
+// Comment lines are ignored by clients; useful as heartbeats
+export const formatServerSentComment = (text: string) => `: ${text}\n\n`;
+
+/**
+ * Incremental `text/event-stream` parser for clients that read the stream
+ * with `fetch` (e.g. to send an `Authorization` header, which `EventSource`
+ * cannot). Feed it decoded chunks; complete events go to `onEvent`.
+ */
+export const createServerSentEventParser = (onEvent: (event: ServerSentEvent) => void) => {
+  let buffer = '';
+  let data: string[] = [];
+  let event: ServerSentEvent = { data: '' };
+
+  const processLine = (line: string) => {
+    if (line === '') {
+      if (data.length > 0) onEvent({ ...event, data: data.join('\n') });
+      data = [];
+      event = { data: '' };
+      return;
+    }
+    if (line.startsWith(':')) return;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+
+    if (field === 'data') data.push(value);
+    else if (field === 'event') event.event = value;
+    else if (field === 'id' && !value.includes('\0')) event.id = value;
+    else if (field === 'retry' && /^\d+$/.test(value)) event.retry = Number(value);
+  };
+
+  return (chunk: string) => {
+    buffer += chunk;
+    const lines = buffer.split(/\r\n|\r|\n/);
+
+    // The last piece may be an incomplete line; keep it for the next chunk
+    buffer = lines.pop() ?? '';
+    lines.forEach(processLine);
+  };
+};
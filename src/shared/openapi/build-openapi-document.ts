@@ -0,0 +1,61 @@
+import type { Components, OpenApiDocument, OpenApiFragment } from './openapi.types';
+
+type ComponentKind = keyof Components;
+
+export const componentRef = (kind: ComponentKind, name: string) => ({
+  $ref: `#/components/${kind}/${name}`,
+});
+
+const collectRefs = (value: unknown, refs: Set<string>): Set<string> => {
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectRefs(item, refs));
+  } else if (typeof value === 'object' && value !== null) {
+    Object.entries(value).forEach(([key, item]) => {
+      if (key === '$ref' && typeof item === 'string') refs.add(item);
+      else collectRefs(item, refs);
+    });
+  }
+  return refs;
+};
+
+const resolves = (document: OpenApiDocument, ref: string) => {
+  const [, kind, name] = ref.match(/^#\/components\/(\w+)\/(.+)$/) ?? [];
+  return Boolean(kind && document.components[kind as ComponentKind]?.[name]);
+};
+
+const mergeComponents = (target: Components, source: Components = {}) =>
+  (Object.keys(source) as ComponentKind[]).reduce<Components>((merged, kind) => {
+    const existing = merged[kind] ?? {};
+    const duplicate = Object.keys(source[kind] ?? {}).find((name) => name in existing);
+
+    if (duplicate) throw new Error(`OpenAPI component ${kind}/${duplicate} is defined twice`);
+
+    return { ...merged, [kind]: { ...existing, ...source[kind] } };
+  }, target);
+
+/**
+ * Merges feature fragments into one document. Duplicate paths or components
+ * and `$ref`s that point nowhere are programming errors and throw.
+ */
+export const buildOpenApiDocument = (
+  base: Omit<OpenApiDocument, 'tags' | 'paths' | 'components'>,
+  fragments: OpenApiFragment[]
+): OpenApiDocument => {
+  const document: OpenApiDocument = { ...base, tags: [], paths: {}, components: {} };
+
+  fragments.forEach(({ tags = [], paths = {}, components }) => {
+    document.tags.push(...tags);
+    Object.entries(paths).forEach(([path, item]) => {
+      if (document.paths[path]) throw new Error(`OpenAPI path ${path} is defined twice`);
+      document.paths[path] = item;
+    });
+    document.components = mergeComponents(document.components, components);
+  });
+
+  const dangling = [...collectRefs(document, new Set())].filter((ref) => !resolves(document, ref));
+  if (dangling.length > 0) {
+    throw new Error(`Unresolved OpenAPI references: ${dangling.join(', ')}`);
+  }
+
+  return document;
+};
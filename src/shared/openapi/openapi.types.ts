@@ -0,0 +1,114 @@
+// The subset of OpenAPI 3.1 this project describes itself with
+
+export interface JsonSchema {
+  $ref?: string;
+  type?: 'string' | 'integer' | 'number' | 'boolean' | 'object' | 'array' | 'null';
+  format?: string;
+  description?: string;
+  enum?: readonly (string | number)[];
+  const?: string | number | boolean;
+  default?: unknown;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  oneOf?: JsonSchema[];
+  examples?: unknown[];
+}
+
+export interface Reference {
+  $ref: string;
+}
+
+export interface MediaType {
+  schema: JsonSchema;
+  example?: unknown;
+}
+
+export interface HeaderObject {
+  description?: string;
+  schema: JsonSchema;
+}
+
+export interface ParameterObject {
+  name: string;
+  in: 'path' | 'query' | 'header';
+  description?: string;
+  required?: boolean;
+  schema: JsonSchema;
+  style?: 'form' | 'simple';
+  explode?: boolean;
+}
+
+export interface RequestBodyObject {
+  description?: string;
+  required?: boolean;
+  content: Record<string, MediaType>;
+}
+
+export interface ResponseObject {
+  description: string;
+  headers?: Record<string, HeaderObject | Reference>;
+  content?: Record<string, MediaType>;
+}
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+export interface OperationObject {
+  operationId: string;
+  summary: string;
+  description?: string;
+  tags?: string[];
+  parameters?: (ParameterObject | Reference)[];
+  requestBody?: RequestBodyObject;
+  responses: Record<string, ResponseObject | Reference>;
+  // An empty list marks a public operation
+  security?: Record<string, string[]>[];
+}
+
+export type PathItem = Partial<Record<HttpMethod, OperationObject>>;
+
+export interface SecuritySchemeObject {
+  type: 'http';
+  scheme: 'bearer';
+  bearerFormat?: string;
+  description?: string;
+}
+
+export interface Components {
+  schemas?: Record<string, JsonSchema>;
+  parameters?: Record<string, ParameterObject>;
+  headers?: Record<string, HeaderObject>;
+  responses?: Record<string, ResponseObject>;
+  securitySchemes?: Record<string, SecuritySchemeObject>;
+}
+
+export interface TagObject {
+  name: string;
+  description?: string;
+}
+
+/**
+ * The part of the API one feature describes; fragments are merged into one
+ * document by `buildOpenApiDocument`.
+ */
+export interface OpenApiFragment {
+  tags?: TagObject[];
+  paths?: Record<string, PathItem>;
+  components?: Components;
+}
+
+export interface OpenApiDocument extends Required<Omit<OpenApiFragment, 'components'>> {
+  openapi: '3.1.0';
+  info: { title: string; version: string; description?: string };
+  jsonSchemaDialect?: string;
+  servers?: { url: string; description?: string }[];
+  components: Components;
+  security?: Record<string, string[]>[];
+}
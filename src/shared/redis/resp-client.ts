@@ -0,0 +1,129 @@
+import { connect, type Socket } from 'node:net';
+
+import { RespError } from './resp-error';
+import { encodeCommand, parseReply, type RespValue } from './resp-protocol';
+
+interface PendingReply {
+  resolve: (value: RespValue) => void;
+  reject: (error: Error) => void;
+}
+
+export interface RespClientOptions {
+  connectTimeoutMs?: number;
+  commandTimeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 2000;
+
+/**
+ * A minimal client for the Redis serialization protocol (RESP2), enough for
+ * plain commands and MULTI/EXEC. It works with Redis and compatible servers
+ * (Valkey, KeyDB, Dragonfly). Commands are pipelined over one lazily opened
+ * connection; replies are matched to commands in order.
+ */
+export class RespClient {
+  private socket: Socket | null = null;
+
+  private buffer = Buffer.alloc(0);
+
+  private pending: PendingReply[] = [];
+
+  private readonly url: URL;
+
+  constructor(
+    url: string,
+    private readonly options: RespClientOptions = {}
+  ) {
+    this.url = new URL(url);
+  }
+
+  /**
+   * Sends a command and resolves with its reply.
+   *
+   * @throws {RespError} If the server answers with an error reply
+   */
+  command(...args: (string | number)[]): Promise<RespValue> {
+    const socket = this.socket ?? this.open();
+
+    return this.send(socket, args);
+  }
+
+  close() {
+    this.socket?.end();
+    this.socket = null;
+  }
+
+  private send(socket: Socket, args: (string | number)[]) {
+    return new Promise<RespValue>((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  private open() {
+    const port = Number(this.url.port || 6379);
+    const socket = connect({ host: this.url.hostname || 'localhost', port });
+    const timeout = this.options.commandTimeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+    let closeReason = new Error('Redis connection closed');
+
+    // No reply within the timeout leaves the reply order unknown: drop the connection
+    socket.setTimeout(this.options.connectTimeoutMs ?? timeout);
+    socket.on('connect', () => socket.setTimeout(timeout));
+    socket.on('timeout', () => socket.destroy(new Error('Redis connection timed out')));
+    socket.on('data', (chunk: Buffer) => this.receive(socket, chunk));
+    socket.on('error', (error) => {
+      closeReason = error;
+    });
+    socket.on('close', () => this.fail(socket, closeReason));
+    socket.setNoDelay(true);
+
+    this.socket = socket;
+    this.buffer = Buffer.alloc(0);
+    this.handshake(socket);
+    return socket;
+  }
+
+  // AUTH and SELECT are queued ahead of any other command on the connection
+  private handshake(socket: Socket) {
+    const username = decodeURIComponent(this.url.username);
+    const password = decodeURIComponent(this.url.password);
+    const database = this.url.pathname.slice(1);
+    const steps: (string | number)[][] = [];
+
+    if (password) steps.push(username ? ['AUTH', username, password] : ['AUTH', password]);
+    if (database) steps.push(['SELECT', database]);
+
+    steps.forEach((step) => {
+      this.send(socket, step).catch((error: Error) => socket.destroy(error));
+    });
+  }
+
+  // Runs in a socket listener: a reply that cannot be parsed must close the
+  // connection (rejecting what is pending), never throw into the process
+  private receive(socket: Socket, chunk: Buffer) {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    try {
+      let reply = parseReply(this.buffer);
+      while (reply) {
+        this.buffer = this.buffer.subarray(reply.next);
+        const waiting = this.pending.shift();
+
+        if (reply.value instanceof RespError) waiting?.reject(reply.value);
+        else waiting?.resolve(reply.value);
+
+        reply = parseReply(this.buffer);
+      }
+    } catch (error) {
+      socket.destroy(error as Error);
+    }
+  }
+
+  private fail(socket: Socket, error: Error) {
+    if (this.socket !== socket) return;
+
+    this.socket = null;
+    this.pending.splice(0).forEach(({ reject }) => reject(error));
+  }
+}
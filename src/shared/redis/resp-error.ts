@@ -0,0 +1,7 @@
+// An error reply sent by the server, e.g. `-ERR unknown command`
+export class RespError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RespError';
+  }
+}
@@ -0,0 +1,74 @@
+import { RespError } from './resp-error';
+
+export type RespValue = string | number | null | RespError | RespValue[];
+
+export interface ParsedReply {
+  value: RespValue;
+  // Offset just past the parsed reply
+  next: number;
+}
+
+const CRLF = '\r\n';
+
+/**
+ * Encodes a command as a RESP array of bulk strings.
+ */
+export const encodeCommand = (args: readonly (string | number)[]) =>
+  args.reduce<string>((encoded, arg) => {
+    const value = String(arg);
+    return `${encoded}$${Buffer.byteLength(value)}${CRLF}${value}${CRLF}`;
+  }, `*${args.length}${CRLF}`);
+
+/**
+ * Parses one RESP2 reply starting at `offset`. Returns null when the buffer
+ * does not hold a complete reply yet.
+ */
+export const parseReply = (buffer: Buffer, offset = 0): ParsedReply | null => {
+  const lineEnd = buffer.indexOf(CRLF, offset);
+
+  if (lineEnd === -1) return null;
+
+  const prefix = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + CRLF.length;
+
+  switch (prefix) {
+    case '+':
+      return { value: line, next };
+    case '-':
+      return { value: new RespError(line), next };
+    case ':':
+      return { value: Number(line), next };
+    case '$': {
+      const length = Number(line);
+
+      if (length === -1) return { value: null, next };
+      if (buffer.length < next + length + CRLF.length) return null;
+
+      return {
+        value: buffer.toString('utf8', next, next + length),
+        next: next + length + CRLF.length,
+      };
+    }
+    case '*': {
+      const count = Number(line);
+
+      if (count === -1) return { value: null, next };
+
+      const items: RespValue[] = [];
+      let position = next;
+
+      for (let i = 0; i < count; i += 1) {
+        const item = parseReply(buffer, position);
+
+        if (!item) return null;
+
+        items.push(item.value);
+        position = item.next;
+      }
+      return { value: items, next: position };
+    }
+    default:
+      throw new RespError(`Unexpected reply type "${prefix}"`);
+  }
+};
@@ -0,0 +1,21 @@
+const globalForSharedState = globalThis as typeof globalThis & {
+  sharedState?: Map<string, unknown>;
+};
+
+/**
+ * State that every route of the server process sees, created on first use.
+ *
+ * Next.js evaluates modules once per route bundle, so a module-level variable
+ * exists once per route, and an instance kept on `globalThis` would leak
+ * classes (and break `instanceof`) across routes. Only plain mutable state
+ * (maps, records, locks) belongs here; each bundle builds its own stores and
+ * services around it. Keys are global: prefix them with the feature.
+ */
+export const getSharedState = <T>(key: string, create: () => T): T => {
+  globalForSharedState.sharedState ??= new Map();
+
+  const state = globalForSharedState.sharedState;
+
+  if (!state.has(key)) state.set(key, create());
+  return state.get(key) as T;
+};
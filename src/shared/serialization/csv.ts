@@ -0,0 +1,105 @@
+export const CSV_CONTENT_TYPE = 'text/csv';
+
+export interface CsvRecord {
+  // 1-based line on which the record starts; quoted fields may span several lines
+  line: number;
+  values: string[];
+}
+
+export class CsvSyntaxError extends SyntaxError {
+  constructor(
+    message: string,
+    // Line on which the broken record starts
+    readonly line: number
+  ) {
+    super(message);
+    this.name = 'CsvSyntaxError';
+  }
+}
+
+// Spreadsheets evaluate cells starting with these characters as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const formatCsvValue = (value: string | number | null) => {
+  if (value === null) return '';
+
+  const text = String(value);
+  const safe = typeof value === 'string' && FORMULA_PREFIX.test(text) ? `'${text}` : text;
+
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+/**
+ * Formats one RFC 4180 record, terminated by CRLF. Text that a spreadsheet
+ * would run as a formula is prefixed with `'` (undone by `parseCsv`).
+ */
+export const formatCsvRow = (values: readonly (string | number | null)[]) =>
+  `${values.map(formatCsvValue).join(',')}\r\n`;
+
+const unescapeFormula = (value: string) =>
+  value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value;
+
+/**
+ * Parses RFC 4180 CSV (quoted fields, `""` escapes, CRLF or LF line breaks).
+ * Blank lines are skipped; a leading byte order mark is ignored.
+ *
+ * @throws {CsvSyntaxError} If a quoted field is never closed
+ */
+export const parseCsv = (text: string): CsvRecord[] => {
+  const input = text.replace(/^\uFEFF/, '');
+  const records: CsvRecord[] = [];
+  let values: string[] = [];
+  let value = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+  let i = 0;
+
+  const endValue = () => {
+    values.push(unescapeFormula(value));
+    value = '';
+  };
+  const endRecord = () => {
+    endValue();
+    if (values.length > 1 || values[0] !== '') records.push({ line: recordLine, values });
+    values = [];
+    recordLine = line;
+  };
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        value += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line += 1;
+        value += char;
+      }
+    } else if (char === '"' && value === '') {
+      quoted = true;
+    } else if (char === ',') {
+      endValue();
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && input[i + 1] === '\n') i += 1;
+      line += 1;
+      endRecord();
+    } else {
+      value += char;
+    }
+    i += 1;
+  }
+
+  if (quoted) {
+    throw new CsvSyntaxError(
+      `Unterminated quoted field starting on line ${recordLine}`,
+      recordLine
+    );
+  }
+  if (value !== '' || values.length > 0) endRecord();
+
+  return records;
+};
@@ -0,0 +1,205 @@
+import type { JsonSchema } from '@/shared/openapi/openapi.types';
+
+export type ValidationIssueCode =
+  | 'invalid_type'
+  | 'required'
+  | 'too_short'
+  | 'too_long'
+  | 'invalid_format'
+  | 'invalid_enum'
+  | 'unknown_field'
+  | 'duplicate';
+
+export const VALIDATION_ISSUE_CODES: readonly ValidationIssueCode[] = [
+  'invalid_type',
+  'required',
+  'too_short',
+  'too_long',
+  'invalid_format',
+  'invalid_enum',
+  'unknown_field',
+  'duplicate',
+];
+
+export interface ValidationIssue {
+  field: string;
+  code: ValidationIssueCode;
+  message: string;
+  params?: Record<string, string | number>;
+}
+
+export type StringFormat = 'email' | 'uri';
+
+export interface StringFieldSchema {
+  type: 'string';
+  required?: boolean;
+  minLength?: number;
+  maxLength?: number;
+  format?: StringFormat;
+  enum?: readonly string[];
+  description?: string;
+}
+
+export type FieldSchema = StringFieldSchema;
+
+export interface ObjectSchema<T> {
+  name: string;
+  fields: { [K in keyof T]-?: FieldSchema };
+}
+
+export type ValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: ValidationIssue[] };
+
+export class ValidationError extends Error {
+  constructor(readonly issues: ValidationIssue[]) {
+    super(issues.map((issue) => issue.message).join('; '));
+    this.name = 'ValidationError';
+  }
+}
+
+const FORMAT_PATTERNS: Record<StringFormat, RegExp> = {
+  // Pragmatic check (local@domain.tld); full RFC 5322 parsing is not worth it here
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  // Absolute http(s) URL with a host
+  uri: /^https?:\/\/[^\s/?#]+[^\s]*$/i,
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const validateString = (
+  field: string,
+  value: unknown,
+  schema: StringFieldSchema
+): ValidationIssue | string => {
+  if (typeof value !== 'string') {
+    return {
+      field,
+      code: 'invalid_type',
+      message: `${field} must be a string`,
+      params: { expected: 'string' },
+    };
+  }
+
+  const trimmed = value.trim();
+
+  if (schema.required && trimmed.length === 0) {
+    return { field, code: 'required', message: `${field} is required` };
+  }
+  if (schema.minLength !== undefined && trimmed.length < schema.minLength) {
+    return {
+      field,
+      code: 'too_short',
+      message: `${field} must be at least ${schema.minLength} characters`,
+      params: { min: schema.minLength, unit: 'characters' },
+    };
+  }
+  if (schema.maxLength !== undefined && trimmed.length > schema.maxLength) {
+    return {
+      field,
+      code: 'too_long',
+      message: `${field} must be at most ${schema.maxLength} characters`,
+      params: { max: schema.maxLength, unit: 'characters' },
+    };
+  }
+  if (schema.format && !FORMAT_PATTERNS[schema.format].test(trimmed)) {
+    return {
+      field,
+      code: 'invalid_format',
+      message: `${field} must be a valid ${schema.format}`,
+      params: { format: schema.format },
+    };
+  }
+  if (schema.enum && !schema.enum.includes(trimmed)) {
+    return {
+      field,
+      code: 'invalid_enum',
+      message: `${field} must be one of: ${schema.enum.join(', ')}`,
+      params: { options: schema.enum.join(', ') },
+    };
+  }
+
+  return trimmed;
+};
+
+/**
+ * Validates an unknown payload against an object schema.
+ * Strings are trimmed, absent optional fields are omitted from `data`
+ * and fields not declared in the schema are reported as `unknown_field`.
+ */
+export const validate = <T>(schema: ObjectSchema<T>, input: unknown): ValidationResult<T> => {
+  if (!isPlainObject(input)) {
+    return {
+      success: false,
+      issues: [
+        {
+          field: '',
+          code: 'invalid_type',
+          message: 'Request body must be a JSON object',
+          params: { expected: 'object' },
+        },
+      ],
+    };
+  }
+
+  const fields = schema.fields as Record<string, FieldSchema>;
+  const issues: ValidationIssue[] = Object.keys(input)
+    .filter((key) => !Object.hasOwn(fields, key))
+    .map((key) => ({ field: key, code: 'unknown_field', message: `${key} is not allowed` }));
+  const data: Record<string, unknown> = {};
+
+  Object.entries(fields).forEach(([field, fieldSchema]) => {
+    const value = input[field];
+
+    if (value === undefined || value === null) {
+      if (fieldSchema.required) {
+        issues.push({ field, code: 'required', message: `${field} is required` });
+      }
+      return;
+    }
+
+    const result = validateString(field, value, fieldSchema);
+
+    if (typeof result === 'string') {
+      data[field] = result;
+    } else {
+      issues.push(result);
+    }
+  });
+
+  return issues.length > 0 ? { success: false, issues } : { success: true, data: data as T };
+};
+
+/**
+ * Same as `validate` but throws a `ValidationError` on failure.
+ */
+export const parse = <T>(schema: ObjectSchema<T>, input: unknown): T => {
+  const result = validate(schema, input);
+
+  if (!result.success) {
+    throw new ValidationError(result.issues);
+  }
+
+  return result.data;
+};
+
+/**
+ * Describes an object schema as JSON Schema (draft 2020-12, as used by
+ * OpenAPI 3.1), so API documentation follows the rules that are enforced.
+ */
+export const toJsonSchema = <T>(schema: ObjectSchema<T>): JsonSchema => {
+  const fields = Object.entries(schema.fields as Record<string, FieldSchema>);
+
+  return {
+    type: 'object',
+    properties: Object.fromEntries(
+      fields.map(([field, { type, minLength, maxLength, format, enum: options, description }]) => [
+        field,
+        { type, minLength, maxLength, format, enum: options, description },
+      ])
+    ),
+    required: fields.filter(([, fieldSchema]) => fieldSchema.required).map(([field]) => field),
+    additionalProperties: false,
+  };
+};